@@ -8,9 +8,16 @@ import { ColorThemeProvider } from "@/contexts/ColorThemeContext";
 import { AuthProvider } from "@/contexts/AuthContext";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Benchmark from "./pages/Benchmark";
+import RemoteLayout from "./pages/RemoteLayout";
+import Dashboard from "./pages/Dashboard";
 import { LoginForm } from "./components/auth/LoginForm";
 import { RegisterForm } from "./components/auth/RegisterForm";
 import { ProtectedRoute } from "./components/auth/ProtectedRoute";
+import { renderPageRoutes } from "./components/engine/routes";
+import { LayoutMetadata } from "./components/engine/LayoutEngine";
+import projectManagementMetadata from "./data/project-management-metadata.json";
+import { bundledDocuments } from "./data/documents";
 
 const queryClient = new QueryClient();
 
@@ -48,6 +55,30 @@ const App = () => (
                     </ProtectedRoute>
                   } 
                 />
+                {/* Profiler timings need a development build, so the benchmark is not shipped */}
+                {import.meta.env.DEV && <Route path="/benchmark" element={<Benchmark />} />}
+                <Route 
+                  path="/dashboard" 
+                  element={
+                    <ProtectedRoute>
+                      <Dashboard />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route 
+                  path="/layouts/:name" 
+                  element={
+                    <ProtectedRoute>
+                      <RemoteLayout />
+                    </ProtectedRoute>
+                  } 
+                />
+                {/* Routes generated from the metadata "pages" section */}
+                {renderPageRoutes(projectManagementMetadata as LayoutMetadata, {
+                  skipPaths: ["/", "/login", "/register"],
+                  documents: bundledDocuments,
+                  wrap: (element) => <ProtectedRoute>{element}</ProtectedRoute>,
+                })}
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFound />} />
               </Routes>
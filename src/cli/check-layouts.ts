@@ -0,0 +1,133 @@
+/**
+ * check-layouts - Validates and lints layout documents outside the browser
+ *
+ *   npm run check-layouts -- [options] <file.json>...
+ *
+ * Every file is checked the way the engine renders it: parsed, upgraded,
+ * composed and validated against the built-in component schemas, then linted.
+ * Files can reference each other by name, e.g. "shared#/fragments/navbar" for
+ * shared.json. Problems are printed one per line as file:line:column, and the
+ * exit code is 1 when any file has errors.
+ *
+ * Options:
+ *   --rule <id>=<severity>  Set a lint rule to error, warning or off; repeatable
+ *   --html <dir>            Also write a static HTML snapshot of each valid file
+ *   --page <id>             Render this entry of metadata.pages in the snapshots
+ *   --mock <file.json>      Data by URL for the snapshots, e.g. { "/api/sales": [...] }
+ *   --verbose               Print what the engine logs while rendering
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DocumentRegistry } from '@/lib/engine/documents';
+import { checkLayoutSource, LayoutProblem } from '@/lib/engine/check';
+import { LINT_RULES, LintConfig, LintRuleId, LintSeverity } from '@/lib/engine/lint';
+import { getLineColumn } from '@/lib/engine/source';
+import { renderSnapshot } from './snapshot';
+
+const SEVERITIES: LintSeverity[] = ['error', 'warning', 'off'];
+
+class UsageError extends Error {}
+
+const getDocumentName = (file: string) => basename(file).replace(/\.json$/i, '');
+
+const parseRules = (rules: string[] = []): LintConfig =>
+  Object.fromEntries(
+    rules.map(rule => {
+      const [id, severity] = rule.split('=');
+      if (!LINT_RULES.some(entry => entry.id === id)) {
+        throw new UsageError(`Unknown lint rule "${id}". Rules: ${LINT_RULES.map(entry => entry.id).join(', ')}`);
+      }
+      if (!SEVERITIES.includes(severity as LintSeverity)) {
+        throw new UsageError(`Severity of "${id}" must be one of ${SEVERITIES.join(', ')}`);
+      }
+      return [id as LintRuleId, severity as LintSeverity];
+    })
+  );
+
+const formatProblem = (file: string, text: string, problem: LayoutProblem) => {
+  const { line, column } = getLineColumn(text, problem.range.start);
+  const path = problem.path ? ` [${problem.path}]` : '';
+  const rule = problem.rule ? ` (${problem.rule})` : '';
+  return `${file}:${line}:${column}: ${problem.severity}: ${problem.message}${path}${rule}`;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      rule: { type: 'string', multiple: true },
+      html: { type: 'string' },
+      page: { type: 'string' },
+      mock: { type: 'string' },
+      verbose: { type: 'boolean', default: false }
+    }
+  });
+  if (positionals.length === 0) {
+    throw new UsageError('Usage: check-layouts [--rule <id>=<severity>] [--html <dir>] [--page <id>] [--mock <file>] <file.json>...');
+  }
+  const lintConfig = parseRules(values.rule);
+  const mocks = values.mock ? JSON.parse(await readFile(values.mock, 'utf8')) : undefined;
+
+  // The engine explains what it does on the console, which would drown the report
+  if (!values.verbose) {
+    console.log = () => {};
+    console.info = () => {};
+  }
+
+  const files = await Promise.all(positionals.map(async file => {
+    try {
+      return { file, text: await readFile(file, 'utf8') };
+    } catch (error) {
+      throw new UsageError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }));
+
+  // Every file can be referenced by the others; ones that do not parse are reported below
+  const documents = new DocumentRegistry();
+  files.forEach(({ file, text }) => {
+    try {
+      documents.register(getDocumentName(file), JSON.parse(text));
+    } catch {
+      return;
+    }
+  });
+
+  let errorCount = 0;
+  let warningCount = 0;
+  for (const { file, text } of files) {
+    const shownName = relative(process.cwd(), file) || file;
+    const { value, valid, problems } = checkLayoutSource(text, { documents, lintConfig });
+    problems.forEach(problem => process.stdout.write(`${formatProblem(shownName, text, problem)}\n`));
+    errorCount += problems.filter(problem => problem.severity === 'error').length;
+    warningCount += problems.filter(problem => problem.severity === 'warning').length;
+
+    if (values.html && value && valid) {
+      const html = await renderSnapshot(value, {
+        documents,
+        page: values.page,
+        mocks,
+        onError: error => process.stderr.write(`${shownName}: render error: ${error instanceof Error ? error.message : String(error)}\n`)
+      });
+      await mkdir(values.html, { recursive: true });
+      const target = join(values.html, `${getDocumentName(file)}.html`);
+      await writeFile(target, html);
+      process.stdout.write(`${shownName}: snapshot written to ${target}\n`);
+    }
+  }
+
+  process.stdout.write(
+    `${files.length} ${files.length === 1 ? 'file' : 'files'} checked: ` +
+    `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}, ${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}\n`
+  );
+  return errorCount > 0 ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  error => {
+    process.stderr.write(`${error instanceof UsageError ? error.message : error instanceof Error ? error.stack : String(error)}\n`);
+    process.exit(error instanceof UsageError ? 2 : 1);
+  }
+);
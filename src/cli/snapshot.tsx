@@ -0,0 +1,113 @@
+import { Writable } from 'node:stream';
+import { renderToPipeableStream } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import { ThemeProvider } from '@/contexts/ThemeContext';
+import { AuthProvider } from '@/contexts/AuthContext';
+import { TooltipProvider } from '@/components/ui/tooltip';
+import { LayoutEngine } from '@/components/engine/LayoutEngine';
+import type { DocumentRegistry } from '@/lib/engine/documents';
+import type { LayoutMetadata } from '@/lib/engine/types';
+import { composeMetadata } from '@/lib/engine/compose';
+import { migrateDocuments, migrateMetadata } from '@/lib/engine/migrations';
+import { walkMetadata } from '@/lib/engine/traverse';
+import { isEndpointRef } from '@/lib/engine/endpoints';
+import { collectBindings } from '@/lib/engine/expressions';
+import { dataService } from '@/services/DataService';
+import styles from '@/index.css?inline';
+
+export interface SnapshotOptions {
+  /** Documents that $ref and extends can name */
+  documents: DocumentRegistry;
+  /** Id of an entry in metadata.pages to render inside the shared layout */
+  page?: string;
+  /** Data by URL; other URLs get the data service's mock data */
+  mocks?: Record<string, unknown>;
+  /** Called with errors thrown while rendering, which leave their part of the page empty */
+  onError?: (error: unknown) => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * URLs of all data the document's nodes load; ones that depend on bindings are only known in a browser
+ */
+const collectMockUrls = (metadata: LayoutMetadata): string[] => {
+  const urls = new Set<string>();
+  walkMetadata(metadata, node => {
+    const dataUrl = node.props?.dataUrl;
+    if ((typeof dataUrl !== 'string' && !isEndpointRef(dataUrl)) || collectBindings(dataUrl).length) return;
+    // Invalid references are reported by validation
+    try {
+      urls.add(dataService.resolveUrl(dataUrl, { endpoints: metadata.apiEndpoints }));
+    } catch {
+      return;
+    }
+  });
+  return [...urls];
+};
+
+/**
+ * Render an element once everything in it, lazily loaded components included, is ready
+ */
+const renderToHtml = (element: JSX.Element, onError?: (error: unknown) => void) =>
+  new Promise<string>((resolve, reject) => {
+    let html = '';
+    const sink = new Writable({
+      write(chunk, _encoding, done) {
+        html += chunk;
+        done();
+      }
+    });
+    sink.on('finish', () => resolve(html));
+    const { pipe } = renderToPipeableStream(element, {
+      onAllReady: () => pipe(sink),
+      onShellError: reject,
+      onError
+    });
+  });
+
+/**
+ * Render a document to a standalone HTML page, with mock data in place of its endpoints
+ * The page carries the app's styles but no scripts, so it shows the layout as it
+ * first appears: menus closed, charts without measurements, no interactions.
+ * @param metadata - The document
+ * @param options - Documents it references, page to render and mock data
+ * @returns The HTML page
+ */
+export const renderSnapshot = async (metadata: LayoutMetadata, options: SnapshotOptions): Promise<string> => {
+  const { documents, page, mocks = {}, onError } = options;
+  const composed = composeMetadata(migrateMetadata(metadata).metadata, migrateDocuments(documents)).metadata;
+  collectMockUrls(composed).forEach(url =>
+    dataService.prime(url, url in mocks ? mocks[url] : dataService.getMockData(url))
+  );
+
+  const location = (page && composed?.pages?.[page]?.path) || '/';
+  const title = (page && composed?.pages?.[page]?.title) || composed?.metadata?.title || 'Layout snapshot';
+  const markup = await renderToHtml(
+    <StaticRouter location={location}>
+      <ThemeProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <LayoutEngine metadata={metadata} documents={documents} page={page} immediate onError={onError} />
+          </TooltipProvider>
+        </AuthProvider>
+      </ThemeProvider>
+    </StaticRouter>,
+    onError
+  );
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${styles}</style>`,
+    '</head>',
+    `<body><div id="root">${markup}</div></body>`,
+    '</html>',
+    ''
+  ].join('\n');
+};
@@ -1,19 +1,26 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { LayoutEngine, LayoutMetadata } from './engine/LayoutEngine';
+import { LayoutBuilder } from './builder/LayoutBuilder';
+import { MetadataEditor } from './editor/MetadataEditor';
+import { LayoutLibrary } from './library/LayoutLibrary';
+import { toast } from '@/components/ui/use-toast';
 import { useTheme } from '@/contexts/ThemeContext';
 import { ColorThemePicker } from './ColorThemePicker';
-import { Layers, Code, Settings, Play } from 'lucide-react';
+import { Layers, Code, Settings, Play, PencilRuler, Library } from 'lucide-react';
 
 // Import metadata configurations
 import defaultMetadata from '@/data/metadata.json';
 import alternativeMetadata from '@/data/alternativeMetadata.json';
 import projectManagementMetadata from '@/data/project-management-metadata.json';
 import backendConnectedMetadata from '@/data/backend-connected-metadata.json';
+import { bundledDocuments } from '@/data/documents';
+import { createPatch, PatchChannel } from '@/lib/engine/patch';
+import { readShareUrl } from '@/lib/engine/exchange';
 
 interface MetadataSelectorProps {
   onMetadataChange?: (metadata: LayoutMetadata) => void;
@@ -24,10 +31,37 @@ interface MetadataSelectorProps {
  * Allows switching between different JSON configurations in real-time
  */
 export const MetadataSelector = ({ onMetadataChange }: MetadataSelectorProps) => {
-  const [selectedMetadata, setSelectedMetadata] = useState<LayoutMetadata>(defaultMetadata as LayoutMetadata);
+  // Links made with "Share" carry a layout to open instead of the default one
+  const [shared] = useState(() => {
+    try {
+      return { metadata: readShareUrl(window.location.hash) };
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  });
+  const [selectedMetadata, setSelectedMetadata] = useState<LayoutMetadata>(shared.metadata ?? defaultMetadata as LayoutMetadata);
   const [showMetadataJson, setShowMetadataJson] = useState(false);
   const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [isBuilderMode, setIsBuilderMode] = useState(false);
+  // The preview starts from the configuration selected when it opened; switching
+  // afterwards patches it, so components that stay keep their state and data
+  const [previewMetadata, setPreviewMetadata] = useState<LayoutMetadata>(selectedMetadata);
+  const previewUpdates = useMemo(() => new PatchChannel(), []);
   const { isDarkMode } = useTheme();
+  // Saved layout the current document was opened from
+  const [libraryId, setLibraryId] = useState<string>();
+
+  useEffect(() => {
+    if (shared.error) {
+      toast({ title: 'Cannot open the shared layout', description: shared.error.message, variant: 'destructive' });
+    } else if (shared.metadata) {
+      toast({ title: 'Opened a shared layout', description: 'Save it in My Layouts to keep it.' });
+    } else {
+      return;
+    }
+    // The layout now lives in the page; reloading should not open it again
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [shared]);
 
   const metadataOptions = [
     { 
@@ -59,16 +93,31 @@ export const MetadataSelector = ({ onMetadataChange }: MetadataSelectorProps) =>
   const handleMetadataChange = (optionId: string) => {
     const option = metadataOptions.find(opt => opt.id === optionId);
     if (option) {
+      if (isPreviewMode) {
+        previewUpdates.publish(createPatch(selectedMetadata, option.metadata));
+      }
       setSelectedMetadata(option.metadata);
+      setLibraryId(undefined);
       onMetadataChange?.(option.metadata);
       console.log('[MetadataSelector] Switched to:', option.name);
     }
   };
 
   const togglePreview = () => {
+    if (!isPreviewMode) setPreviewMetadata(selectedMetadata);
     setIsPreviewMode(!isPreviewMode);
   };
 
+  const exitBuilder = (metadata: LayoutMetadata) => {
+    setSelectedMetadata(metadata);
+    onMetadataChange?.(metadata);
+    setIsBuilderMode(false);
+  };
+
+  if (isBuilderMode) {
+    return <LayoutBuilder metadata={selectedMetadata} documents={bundledDocuments} onExit={exitBuilder} />;
+  }
+
   if (isPreviewMode) {
     return (
       <div className="min-h-screen bg-background">
@@ -101,7 +150,9 @@ export const MetadataSelector = ({ onMetadataChange }: MetadataSelectorProps) =>
         {/* Full layout preview with lower z-index to ensure controls stay on top */}
         <div className="relative z-10">
           <LayoutEngine 
-            metadata={selectedMetadata}
+            metadata={previewMetadata}
+            updates={previewUpdates}
+            documents={bundledDocuments}
             onError={(error) => console.error('[Preview] Layout error:', error)}
           />
         </div>
@@ -197,6 +248,24 @@ export const MetadataSelector = ({ onMetadataChange }: MetadataSelectorProps) =>
               </div>
             </div>
 
+            {/* Saved Layouts */}
+            <div className="space-y-3">
+              <Label className="text-sm font-medium flex items-center">
+                <Library className="w-4 h-4 mr-2" />
+                My Layouts
+              </Label>
+              <LayoutLibrary
+                metadata={selectedMetadata}
+                suggestedName={selectedMetadata.metadata?.title}
+                activeId={libraryId}
+                onOpen={(layout) => {
+                  setSelectedMetadata(layout.metadata);
+                  setLibraryId(layout.id);
+                  onMetadataChange?.(layout.metadata);
+                }}
+              />
+            </div>
+
             {/* Controls */}
             <div className="flex items-center justify-between pt-4 border-t border-border">
               <div className="flex items-center space-x-3">
@@ -206,28 +275,37 @@ export const MetadataSelector = ({ onMetadataChange }: MetadataSelectorProps) =>
                   onCheckedChange={setShowMetadataJson}
                 />
                 <Label htmlFor="show-json" className="text-sm">
-                  Show JSON metadata
+                  Edit JSON metadata
                 </Label>
               </div>
               
-              <Button onClick={togglePreview} className="bg-gradient-primary text-white">
-                <Play className="w-4 h-4 mr-2" />
-                Preview Layout
-              </Button>
+              <div className="flex items-center space-x-3">
+                <Button variant="outline" onClick={() => setIsBuilderMode(true)}>
+                  <PencilRuler className="w-4 h-4 mr-2" />
+                  Open Builder
+                </Button>
+                <Button onClick={togglePreview} className="bg-gradient-primary text-white">
+                  <Play className="w-4 h-4 mr-2" />
+                  Preview Layout
+                </Button>
+              </div>
             </div>
 
-            {/* JSON Display */}
+            {/* JSON Editor */}
             {showMetadataJson && (
               <div className="space-y-2">
                 <Label className="text-sm font-medium flex items-center">
                   <Code className="w-4 h-4 mr-2" />
                   Current Metadata JSON
                 </Label>
-                <div className="relative">
-                  <pre className="text-xs bg-muted p-4 rounded-lg overflow-auto max-h-96 border border-border">
-                    {JSON.stringify(selectedMetadata, null, 2)}
-                  </pre>
-                </div>
+                <MetadataEditor
+                  metadata={selectedMetadata}
+                  documents={bundledDocuments}
+                  onChange={(metadata) => {
+                    setSelectedMetadata(metadata);
+                    onMetadataChange?.(metadata);
+                  }}
+                />
               </div>
             )}
           </CardContent>
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ComponentConfig } from '@/lib/engine/types';
+import type { ComponentRegistry } from '@/lib/engine/registry';
+import { getFieldKind, getPropFields, PropField } from '@/lib/engine/fields';
+import { getNodeSlots } from '@/lib/engine/traverse';
+
+/** Select items cannot have an empty value, so "not set" has its own */
+const UNSET = '__unset__';
+
+interface FieldProps {
+  id: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+const TextField = ({ id, value, onChange }: FieldProps) => (
+  <Input
+    id={id}
+    value={typeof value === 'string' ? value : ''}
+    onChange={event => onChange(event.target.value === '' ? undefined : event.target.value)}
+  />
+);
+
+const NumberField = ({ id, value, onChange }: FieldProps) => (
+  <Input
+    id={id}
+    type="number"
+    value={typeof value === 'number' ? value : ''}
+    onChange={event => {
+      const number = event.target.valueAsNumber;
+      if (event.target.value === '') onChange(undefined);
+      else if (!Number.isNaN(number)) onChange(number);
+    }}
+  />
+);
+
+const BooleanField = ({ id, value, onChange }: FieldProps) => (
+  <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+);
+
+const EnumField = ({ id, value, onChange, options, required }: FieldProps & { options: string[]; required: boolean }) => (
+  <Select
+    value={typeof value === 'string' ? value : UNSET}
+    onValueChange={selected => onChange(selected === UNSET ? undefined : selected)}
+  >
+    <SelectTrigger id={id}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {!required && <SelectItem value={UNSET}>Not set</SelectItem>}
+      {options.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+    </SelectContent>
+  </Select>
+);
+
+const format = (value: unknown) => value === undefined ? '' : JSON.stringify(value, null, 2);
+
+/**
+ * Values without a dedicated field, edited as JSON and applied once they parse
+ */
+const JsonField = ({ id, value, onChange }: FieldProps) => {
+  const [draft, setDraft] = useState(() => format(value));
+  const [error, setError] = useState<string>();
+
+  // Follow changes made elsewhere, e.g. by undo
+  useEffect(() => {
+    setDraft(format(value));
+    setError(undefined);
+  }, [value]);
+
+  const commit = () => {
+    if (draft.trim() === '') {
+      onChange(undefined);
+      return;
+    }
+    try {
+      onChange(JSON.parse(draft));
+      setError(undefined);
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        id={id}
+        value={draft}
+        onChange={event => setDraft(event.target.value)}
+        onBlur={commit}
+        aria-invalid={!!error}
+        className="font-mono text-xs min-h-20"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+const PropInput = ({ field, id, value, onChange }: FieldProps & { field: PropField }) => {
+  switch (getFieldKind(field, value)) {
+    case 'text':
+      return <TextField id={id} value={value} onChange={onChange} />;
+    case 'number':
+      return <NumberField id={id} value={value} onChange={onChange} />;
+    case 'boolean':
+      return <BooleanField id={id} value={value} onChange={onChange} />;
+    case 'enum':
+      return <EnumField id={id} value={value} onChange={onChange} options={field.options ?? []} required={field.required} />;
+    default:
+      return <JsonField id={id} value={value} onChange={onChange} />;
+  }
+};
+
+interface BuilderInspectorProps {
+  node: ComponentConfig;
+  path: string;
+  registry: ComponentRegistry;
+  /** Set or clear one of the node's own fields */
+  onNodeChange: (field: 'id' | 'className' | 'visibleWhen' | 'hiddenWhen', value: string | undefined) => void;
+  /** Set or clear one prop */
+  onPropChange: (name: string, value: unknown) => void;
+}
+
+/**
+ * BuilderInspector - Edits the selected node's fields and props
+ * Prop fields are generated from the component's prop schema; props the schema
+ * does not declare are edited as JSON
+ */
+export const BuilderInspector = ({ node, path, registry, onNodeChange, onPropChange }: BuilderInspectorProps) => {
+  const fields = getPropFields(node.type, registry.getPropSchema(node.type));
+  const declared = new Set(fields.map(field => field.name));
+  const slots = getNodeSlots(node.type);
+  const others = Object.keys(node.props ?? {})
+    .filter(name => !declared.has(name) && !slots.includes(name) && name !== 'className')
+    .map((name): PropField => ({ name, kinds: ['json'], required: false }));
+
+  const nodeFields = [
+    { name: 'id', label: 'Id' },
+    { name: 'className', label: 'Class name' },
+    { name: 'visibleWhen', label: 'Visible when' },
+    { name: 'hiddenWhen', label: 'Hidden when' }
+  ] as const;
+
+  const renderProp = (field: PropField) => {
+    const id = `${path}-prop-${field.name}`;
+    return (
+      <div key={field.name} className="space-y-1.5">
+        <Label htmlFor={id} className="text-xs">
+          {field.name}
+          {field.required && <span className="text-destructive"> *</span>}
+        </Label>
+        <PropInput field={field} id={id} value={node.props?.[field.name]} onChange={value => onPropChange(field.name, value)} />
+        {field.description && <p className="text-xs text-muted-foreground">{field.description}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-semibold text-foreground">{registry.getDisplayName(node.type)}</h3>
+        <p className="text-xs text-muted-foreground font-mono break-all">{path}</p>
+      </div>
+
+      <section className="space-y-3">
+        {nodeFields.map(({ name, label }) => (
+          <div key={name} className="space-y-1.5">
+            <Label htmlFor={`${path}-${name}`} className="text-xs">{label}</Label>
+            <TextField
+              id={`${path}-${name}`}
+              value={node[name]}
+              onChange={value => onNodeChange(name, value as string | undefined)}
+            />
+          </div>
+        ))}
+      </section>
+
+      {fields.length > 0 && (
+        <section className="space-y-3">
+          <h4 className="text-sm font-medium text-foreground">Props</h4>
+          {fields.map(renderProp)}
+        </section>
+      )}
+
+      {others.length > 0 && (
+        <section className="space-y-3">
+          <h4 className="text-sm font-medium text-foreground">Other props</h4>
+          {others.map(renderProp)}
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import { DragEvent, KeyboardEvent, useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, GripVertical } from 'lucide-react';
+import type { ComponentRegistry } from '@/lib/engine/registry';
+import { canMoveNode, NodePosition, OutlineEntry } from '@/lib/engine/editor';
+import { cn } from '@/lib/utils';
+
+type DropZone = 'before' | 'inside' | 'after';
+
+interface BuilderOutlineProps {
+  entries: OutlineEntry[];
+  registry: ComponentRegistry;
+  selected?: string;
+  onSelect: (path: string) => void;
+  onMove: (path: string, position: NodePosition) => void;
+}
+
+/**
+ * Where a node dropped on an entry goes
+ * @returns The position, or undefined when the entry takes no drops in that zone
+ */
+const getDropPosition = (entry: OutlineEntry, zone: DropZone): NodePosition | undefined => {
+  if (zone === 'inside') return { list: `${entry.path}.children`, index: entry.node.children?.length ?? 0 };
+  if (!entry.position) return undefined;
+  return zone === 'before' ? entry.position : { ...entry.position, index: entry.position.index + 1 };
+};
+
+/**
+ * Name an outline entry by its type, and by its title or id when it has one
+ */
+const describe = (node: OutlineEntry['node'], registry: ComponentRegistry) => {
+  const reference = (node as { $ref?: unknown }).$ref;
+  if (!node.type && typeof reference === 'string') return { name: 'Fragment', detail: reference };
+  const title = node.props?.title;
+  return {
+    name: registry.getDisplayName(node.type),
+    detail: typeof title === 'string' ? title : node.id
+  };
+};
+
+/**
+ * BuilderOutline - The document's nodes as a tree
+ * Nodes are dragged onto another node to go before it, after it or inside it,
+ * depending on where they are dropped; alt+arrow keys move the selected node
+ * among its siblings
+ */
+export const BuilderOutline = ({ entries, registry, selected, onSelect, onMove }: BuilderOutlineProps) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragging, setDragging] = useState<string>();
+  const [target, setTarget] = useState<{ path: string; zone: DropZone }>();
+  const treeRef = useRef<HTMLUListElement>(null);
+  // A node moved with the keyboard is rendered anew at its new path; keep it focused
+  const refocus = useRef(false);
+
+  useEffect(() => {
+    if (!refocus.current || !selected) return;
+    refocus.current = false;
+    treeRef.current?.querySelector<HTMLElement>(`[data-path="${CSS.escape(selected)}"]`)?.focus();
+  }, [selected, entries]);
+
+  const toggle = (path: string) => setCollapsed(current => {
+    const next = new Set(current);
+    if (!next.delete(path)) next.add(path);
+    return next;
+  });
+
+  const getZone = (event: DragEvent<HTMLElement>): DropZone => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const offset = (event.clientY - rect.top) / rect.height;
+    return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+  };
+
+  const onDragOver = (entry: OutlineEntry) => (event: DragEvent<HTMLElement>) => {
+    const zone = getZone(event);
+    const position = getDropPosition(entry, zone);
+    if (!dragging || !position || !canMoveNode(dragging, position)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    if (target?.path !== entry.path || target.zone !== zone) setTarget({ path: entry.path, zone });
+  };
+
+  const onDrop = (entry: OutlineEntry) => (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    const position = getDropPosition(entry, getZone(event));
+    if (dragging && position) onMove(dragging, position);
+    setDragging(undefined);
+    setTarget(undefined);
+  };
+
+  const onKeyDown = (entry: OutlineEntry) => (event: KeyboardEvent) => {
+    if (!event.altKey || !entry.position) return;
+    const step = event.key === 'ArrowUp' ? -1 : event.key === 'ArrowDown' ? 2 : 0;
+    if (!step || (step < 0 && entry.position.index === 0)) return;
+    event.preventDefault();
+    refocus.current = true;
+    // Positions count the node itself, so moving down skips past its next sibling
+    onMove(entry.path, { ...entry.position, index: entry.position.index + step });
+  };
+
+  const renderEntry = (entry: OutlineEntry) => {
+    const { name, detail } = describe(entry.node, registry);
+    const isCollapsed = collapsed.has(entry.path);
+    const isTarget = target?.path === entry.path;
+
+    return (
+      <li
+        key={entry.path}
+        role="treeitem"
+        aria-level={entry.depth + 1}
+        aria-selected={entry.path === selected}
+        aria-expanded={entry.children.length > 0 ? !isCollapsed : undefined}
+      >
+        <div
+          draggable={!!entry.position}
+          onDragStart={event => {
+            event.dataTransfer.effectAllowed = 'move';
+            event.dataTransfer.setData('text/plain', entry.path);
+            setDragging(entry.path);
+          }}
+          onDragEnd={() => {
+            setDragging(undefined);
+            setTarget(undefined);
+          }}
+          onDragOver={onDragOver(entry)}
+          onDragLeave={() => isTarget && setTarget(undefined)}
+          onDrop={onDrop(entry)}
+          className={cn(
+            'flex items-center gap-1 rounded-md pr-2 text-sm border-y-2 border-transparent',
+            entry.path === selected ? 'bg-primary/10 text-primary' : 'hover:bg-secondary/50',
+            entry.path === dragging && 'opacity-50',
+            isTarget && target.zone === 'before' && 'border-t-primary',
+            isTarget && target.zone === 'after' && 'border-b-primary',
+            isTarget && target.zone === 'inside' && 'ring-2 ring-primary'
+          )}
+          style={{ paddingLeft: entry.depth * 16 }}
+        >
+          {entry.children.length > 0 ? (
+            <button
+              type="button"
+              aria-label={isCollapsed ? `Expand ${name}` : `Collapse ${name}`}
+              className="p-0.5 text-muted-foreground"
+              onClick={() => toggle(entry.path)}
+            >
+              {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+          ) : (
+            <span className="w-5" />
+          )}
+          {entry.position && <GripVertical className="w-3 h-3 text-muted-foreground cursor-grab shrink-0" />}
+          <button
+            type="button"
+            data-path={entry.path}
+            className="flex-1 min-w-0 py-1.5 text-left truncate"
+            onClick={() => onSelect(entry.path)}
+            onKeyDown={onKeyDown(entry)}
+          >
+            <span className="font-medium">{name}</span>
+            {detail && <span className="ml-2 text-muted-foreground">{detail}</span>}
+          </button>
+        </div>
+        {entry.children.length > 0 && !isCollapsed && (
+          <ul role="group">{entry.children.map(renderEntry)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <ul ref={treeRef} role="tree" aria-label="Document outline" className="space-y-0.5">
+      {entries.map(renderEntry)}
+    </ul>
+  );
+};
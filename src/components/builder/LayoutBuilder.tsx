@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Copy, Plus, Redo2, Trash2, Undo2 } from 'lucide-react';
+import { LayoutEngine, LayoutMetadata } from '@/components/engine/LayoutEngine';
+import { useComponentRegistry } from '@/hooks/use-component-registry';
+import { useHistory } from '@/hooks/use-history';
+import type { DocumentRegistry } from '@/lib/engine/documents';
+import {
+  duplicateNode,
+  getNodeAt,
+  getOutline,
+  getPosition,
+  insertNode,
+  moveNode,
+  NodePosition,
+  removeNode,
+  setNodeProp,
+  updateNode
+} from '@/lib/engine/editor';
+import { BuilderOutline } from './BuilderOutline';
+import { BuilderInspector } from './BuilderInspector';
+
+interface LayoutBuilderProps {
+  /** Document to start from; it is left untouched */
+  metadata: LayoutMetadata;
+  /** Documents the edited one may reference */
+  documents?: DocumentRegistry;
+  /** Leave the builder with the edited document */
+  onExit: (metadata: LayoutMetadata) => void;
+}
+
+/** Shortcuts typed into a field undo the field's own text instead */
+const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * LayoutBuilder - Visual editor for layout documents
+ * The outline lists every node, the canvas renders the document with LayoutEngine
+ * as it is edited, and the inspector edits the selected node
+ */
+export const LayoutBuilder = ({ metadata: initial, documents, onExit }: LayoutBuilderProps) => {
+  const registry = useComponentRegistry();
+  const history = useHistory(initial);
+  const { value: metadata, set, canUndo, canRedo } = history;
+  const [selected, setSelected] = useState<string>();
+  const [newType, setNewType] = useState<string>();
+
+  const outline = useMemo(() => getOutline(metadata), [metadata]);
+  const node = selected ? getNodeAt(metadata, selected) : undefined;
+  const selection = node ? selected : undefined;
+
+  // Nodes are selected by path, which undo and redo may give to another node
+  const { undo: undoChange, redo: redoChange } = history;
+  const undo = useCallback(() => {
+    undoChange();
+    setSelected(undefined);
+  }, [undoChange]);
+  const redo = useCallback(() => {
+    redoChange();
+    setSelected(undefined);
+  }, [redoChange]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditingText(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) undo();
+      else if ((key === 'z' && event.shiftKey) || key === 'y') redo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  const addNode = () => {
+    if (!newType) return;
+    // New nodes go inside the selected node, or at the end of the layout
+    const parent = selection ?? 'layout';
+    const position: NodePosition = { list: `${parent}.children`, index: getNodeAt(metadata, parent)?.children?.length ?? 0 };
+    const result = insertNode(metadata, position, { type: newType, props: { ...registry.get(newType)?.widget?.props } });
+    set(result.metadata);
+    setSelected(result.path);
+  };
+
+  const duplicate = () => {
+    const result = selection ? duplicateNode(metadata, selection) : undefined;
+    if (!result) return;
+    set(result.metadata);
+    setSelected(result.path);
+  };
+
+  const remove = () => {
+    if (!selection) return;
+    set(removeNode(metadata, selection));
+    setSelected(undefined);
+  };
+
+  const move = (path: string, position: NodePosition) => {
+    const result = moveNode(metadata, path, position);
+    if (!result) return;
+    set(result.metadata);
+    setSelected(result.path);
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <header className="flex items-center gap-2 border-b border-border px-4 py-2">
+        <Button variant="outline" size="sm" onClick={() => onExit(metadata)}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Exit Builder
+        </Button>
+        <div className="flex items-center gap-1 ml-2">
+          <Button variant="ghost" size="icon" aria-label="Undo" onClick={undo} disabled={!canUndo}>
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" aria-label="Redo" onClick={redo} disabled={!canRedo}>
+            <Redo2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2 ml-auto">
+          <Select value={newType} onValueChange={setNewType}>
+            <SelectTrigger className="w-44" aria-label="Component type">
+              <SelectValue placeholder="Component type" />
+            </SelectTrigger>
+            <SelectContent>
+              {registry.list().map(entry => (
+                <SelectItem key={entry.type} value={entry.type}>{entry.displayName ?? entry.type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={addNode} disabled={!newType}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+          <Button variant="outline" size="sm" onClick={duplicate} disabled={!selection || !getPosition(selection)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate
+          </Button>
+          <Button variant="outline" size="sm" onClick={remove} disabled={!selection || selection === 'layout'}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remove
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex-1 min-h-0 grid grid-cols-[18rem_1fr_20rem]">
+        <aside className="overflow-auto border-r border-border p-3">
+          <BuilderOutline entries={outline} registry={registry} selected={selection} onSelect={setSelected} onMove={move} />
+        </aside>
+
+        <main className="overflow-auto bg-muted/30">
+          <LayoutEngine
+            metadata={metadata}
+            documents={documents}
+            onError={(error) => console.error('[Builder] Layout error:', error)}
+          />
+        </main>
+
+        <aside className="overflow-auto border-l border-border p-4">
+          {node && selection ? (
+            <BuilderInspector
+              key={selection}
+              node={node}
+              path={selection}
+              registry={registry}
+              onNodeChange={(field, value) => set(current => updateNode(current, selection, { [field]: value }), `${selection}:${field}`)}
+              onPropChange={(name, value) => set(current => setNodeProp(current, selection, name, value), `${selection}:props.${name}`)}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">Select a node in the outline to edit it.</p>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
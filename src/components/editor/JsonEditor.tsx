@@ -0,0 +1,259 @@
+import { KeyboardEvent, ReactNode, useId, useLayoutEffect, useRef, useState } from 'react';
+import type { Completion } from '@/lib/engine/completion';
+import { getLineColumn, SourceRange } from '@/lib/engine/source';
+import { cn } from '@/lib/utils';
+
+/** Matches the leading-5 and p-3 classes of the text area */
+const LINE_HEIGHT = 20;
+const PADDING = 12;
+
+export interface EditorDiagnostic {
+  range: SourceRange;
+  message: string;
+  severity?: 'error' | 'warning';
+}
+
+export interface EditorCompletions {
+  items: Completion[];
+  /** Text the accepted suggestion replaces */
+  range: SourceRange;
+  /** Whether the string already has its closing quote */
+  closed: boolean;
+}
+
+interface JsonEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Problems to underline */
+  diagnostics?: EditorDiagnostic[];
+  /** Suggestions for the cursor's position, if any */
+  complete?: (text: string, offset: number) => EditorCompletions | undefined;
+  /** Where to move the cursor to, e.g. when a problem is picked from a list */
+  focusRange?: SourceRange;
+  className?: string;
+  label: string;
+}
+
+interface OpenCompletions extends EditorCompletions {
+  /** Cursor position the suggestions were made for */
+  caret: number;
+  active: number;
+}
+
+/**
+ * Split the text into plain runs and underlined runs, one per diagnostic
+ * Overlapping diagnostics are cut where the next one starts
+ */
+const highlight = (text: string, diagnostics: EditorDiagnostic[]): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let position = 0;
+  [...diagnostics]
+    .sort((a, b) => a.range.start - b.range.start)
+    .forEach((diagnostic, index) => {
+      const start = Math.max(position, diagnostic.range.start);
+      // Empty ranges, such as an unexpected end of input, still get a visible mark
+      const end = Math.max(start + 1, diagnostic.range.end);
+      if (start >= text.length + 1) return;
+      if (start > position) nodes.push(text.slice(position, start));
+      nodes.push(
+        <span
+          key={index}
+          className={cn(
+            'underline decoration-wavy underline-offset-4',
+            diagnostic.severity === 'warning' ? 'decoration-amber-500' : 'decoration-destructive'
+          )}
+        >
+          {text.slice(start, end) || ' '}
+        </span>
+      );
+      position = Math.min(end, text.length);
+    });
+  nodes.push(text.slice(position));
+  return nodes;
+};
+
+/**
+ * JsonEditor - Plain text area for JSON with underlined problems and suggestions
+ * The text is drawn twice: by a transparent text area that takes the input, and
+ * underneath by a copy that carries the underlines
+ */
+export const JsonEditor = ({ value, onChange, diagnostics = [], complete, focusRange, className, label }: JsonEditorProps) => {
+  const listId = useId();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const pendingSelection = useRef<number>();
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [charWidth, setCharWidth] = useState(7.2);
+  const [completions, setCompletions] = useState<OpenCompletions>();
+  // Only a new focus range moves the cursor, not every edit
+  const latestValue = useRef(value);
+  latestValue.current = value;
+
+  useLayoutEffect(() => {
+    const width = measureRef.current?.getBoundingClientRect().width;
+    if (width) setCharWidth(width / 100);
+  }, []);
+
+  // Place the cursor after text the editor inserted itself
+  useLayoutEffect(() => {
+    if (pendingSelection.current === undefined || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingSelection.current, pendingSelection.current);
+    pendingSelection.current = undefined;
+  }, [value]);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!focusRange || !textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(focusRange.start, focusRange.end);
+    // Bring the line into view; text areas do not scroll to a selection set from code
+    const { line } = getLineColumn(latestValue.current, focusRange.start);
+    textarea.scrollTop = Math.max(0, (line - 3) * LINE_HEIGHT);
+  }, [focusRange]);
+
+  const suggest = (text: string, caret: number) => {
+    const next = complete?.(text, caret);
+    setCompletions(next && next.items.length > 0 ? { ...next, caret, active: 0 } : undefined);
+  };
+
+  const accept = (item: Completion) => {
+    if (!completions) return;
+    const { range, closed, caret } = completions;
+    // An unclosed string runs to the end of the line, so only what was typed is replaced
+    const end = closed ? range.end : caret;
+    const next = `${value.slice(0, range.start)}${item.label}"${value.slice(closed ? end + 1 : end)}`;
+    pendingSelection.current = range.start + item.label.length + 1;
+    setCompletions(undefined);
+    onChange(next);
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = event.currentTarget;
+    if (completions) {
+      const count = completions.items.length;
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setCompletions({ ...completions, active: (completions.active + step + count) % count });
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        accept(completions.items[completions.active]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        setCompletions(undefined);
+        return;
+      }
+    }
+
+    if (event.key === ' ' && event.ctrlKey) {
+      event.preventDefault();
+      suggest(value, textarea.selectionStart);
+    } else if (event.key === 'Tab' && !event.shiftKey) {
+      event.preventDefault();
+      const { selectionStart, selectionEnd } = textarea;
+      pendingSelection.current = selectionStart + 2;
+      onChange(`${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`);
+    }
+  };
+
+  const lineCount = value.split('\n').length;
+  // Lines with an error are marked as such, lines with only warnings in amber
+  const problemLines = new Map<number, EditorDiagnostic['severity']>();
+  diagnostics.forEach(diagnostic => {
+    const line = getLineColumn(value, diagnostic.range.start).line;
+    if (problemLines.get(line) !== 'error') problemLines.set(line, diagnostic.severity ?? 'error');
+  });
+  const anchor = completions && getLineColumn(value, completions.range.start);
+
+  return (
+    <div className={cn('relative flex h-96 overflow-hidden rounded-lg border border-border bg-muted font-mono text-xs leading-5', className)}>
+      <span ref={measureRef} aria-hidden className="invisible absolute whitespace-pre">{'0'.repeat(100)}</span>
+
+      {/* Line numbers, marked where there are problems */}
+      <div aria-hidden className="shrink-0 overflow-hidden border-r border-border py-3 text-right text-muted-foreground select-none">
+        <div style={{ transform: `translateY(${-scroll.top}px)` }}>
+          {Array.from({ length: lineCount }, (_, index) => (
+            <div
+              key={index}
+              className={cn(
+                'px-2',
+                problemLines.get(index + 1) === 'error' && 'text-destructive font-semibold',
+                problemLines.get(index + 1) === 'warning' && 'text-amber-600 font-semibold'
+              )}
+            >
+              {index + 1}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-w-0">
+        <pre aria-hidden className="pointer-events-none absolute inset-0 m-0 overflow-hidden p-3 whitespace-pre text-foreground">
+          <span className="block" style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}>
+            {highlight(value, diagnostics)}
+            {'\n'}
+          </span>
+        </pre>
+        <textarea
+          ref={textareaRef}
+          aria-label={label}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={!!completions}
+          aria-controls={listId}
+          aria-activedescendant={completions ? `${listId}-${completions.active}` : undefined}
+          value={value}
+          spellCheck={false}
+          wrap="off"
+          className="absolute inset-0 h-full w-full resize-none overflow-auto bg-transparent p-3 text-transparent caret-foreground outline-none whitespace-pre selection:bg-primary/30"
+          onChange={event => {
+            onChange(event.target.value);
+            suggest(event.target.value, event.target.selectionStart);
+          }}
+          onKeyDown={onKeyDown}
+          onScroll={event => setScroll({ top: event.currentTarget.scrollTop, left: event.currentTarget.scrollLeft })}
+          onClick={() => setCompletions(undefined)}
+          onBlur={() => setCompletions(undefined)}
+        />
+
+        {completions && anchor && (
+          <ul
+            id={listId}
+            role="listbox"
+            aria-label="Suggestions"
+            className="absolute z-10 max-h-48 min-w-48 overflow-auto rounded-md border border-border bg-popover py-1 text-popover-foreground shadow-md"
+            style={{
+              top: anchor.line * LINE_HEIGHT + PADDING - scroll.top,
+              left: (anchor.column - 1) * charWidth + PADDING - scroll.left
+            }}
+          >
+            {completions.items.map((item, index) => (
+              <li
+                key={item.label}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === completions.active}
+                className={cn(
+                  'flex cursor-pointer justify-between gap-4 px-3',
+                  index === completions.active && 'bg-accent text-accent-foreground'
+                )}
+                // Keep the focus in the text area
+                onMouseDown={event => {
+                  event.preventDefault();
+                  accept(item);
+                }}
+              >
+                <span>{item.label}</span>
+                <span className="text-muted-foreground">{item.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { LayoutEngine, LayoutMetadata } from '@/components/engine/LayoutEngine';
+import { useComponentRegistry } from '@/hooks/use-component-registry';
+import type { SchemaResolver } from '@/lib/engine/registry';
+import type { DocumentRegistry } from '@/lib/engine/documents';
+import type { LintConfig } from '@/lib/engine/lint';
+import { checkLayoutSource } from '@/lib/engine/check';
+import { getCompletions } from '@/lib/engine/completion';
+import { getCompletionContext, getLineColumn, SourceRange } from '@/lib/engine/source';
+import { EditorDiagnostic, JsonEditor } from './JsonEditor';
+
+interface MetadataEditorProps {
+  metadata: LayoutMetadata;
+  /** Documents the edited one may reference */
+  documents?: DocumentRegistry;
+  /** Severity per lint rule; lint findings never keep a document from being used */
+  lintConfig?: LintConfig;
+  /** Called with every valid version of the document as it is typed */
+  onChange: (metadata: LayoutMetadata) => void;
+}
+
+interface Analysis {
+  /** The document, when it parses */
+  value?: LayoutMetadata;
+  /** Whether the document parses and validates; lint findings do not count */
+  valid: boolean;
+  diagnostics: EditorDiagnostic[];
+}
+
+const format = (metadata: LayoutMetadata) => JSON.stringify(metadata, null, 2);
+
+/**
+ * Check the text, locating every problem for the editor to underline
+ */
+const analyze = (text: string, resolver: SchemaResolver, documents?: DocumentRegistry, lintConfig?: LintConfig): Analysis => {
+  const { value, valid, problems } = checkLayoutSource(text, { resolver, documents, lintConfig });
+  return {
+    value,
+    valid,
+    diagnostics: problems.map(({ range, message, severity, rule }) => ({
+      range,
+      message: rule ? `${message} (${rule})` : message,
+      severity
+    }))
+  };
+};
+
+/**
+ * MetadataEditor - Edits a document as JSON next to a live preview
+ * Problems and lint warnings are underlined where they are as you type; while the text is invalid,
+ * the preview keeps showing the last valid version
+ */
+export const MetadataEditor = ({ metadata, documents, lintConfig, onChange }: MetadataEditorProps) => {
+  const registry = useComponentRegistry();
+  const [text, setText] = useState(() => format(metadata));
+  const [lastValid, setLastValid] = useState(metadata);
+  const [focusRange, setFocusRange] = useState<SourceRange>();
+  // Documents this editor reported, which must not reset its text when they come back
+  const emitted = useRef(metadata);
+  // Text of the document as given, which is not reported back as an edit
+  const baseline = useRef(text);
+  // Typing stays responsive on large documents; checks catch up in between
+  const deferredText = useDeferredValue(text);
+
+  const analysis = useMemo(
+    () => analyze(deferredText, registry, documents, lintConfig),
+    [deferredText, registry, documents, lintConfig]
+  );
+
+  // Suggestions draw on the last version that parsed, e.g. for endpoint names
+  const lastParsed = useRef<LayoutMetadata | undefined>(metadata);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (metadata === emitted.current) return;
+    emitted.current = metadata;
+    baseline.current = format(metadata);
+    setText(baseline.current);
+    setLastValid(metadata);
+  }, [metadata]);
+
+  useEffect(() => {
+    if (analysis.value) lastParsed.current = analysis.value;
+    if (!analysis.value || !analysis.valid || deferredText === baseline.current) return;
+    emitted.current = analysis.value;
+    setLastValid(analysis.value);
+    onChangeRef.current(analysis.value);
+  }, [analysis, deferredText]);
+
+  const complete = (source: string, offset: number) => {
+    const context = getCompletionContext(source, offset);
+    if (!context) return undefined;
+    return { items: getCompletions(context, registry, lastParsed.current), range: context.range, closed: context.closed };
+  };
+
+  const problems = analysis.diagnostics.length;
+  const warnings = analysis.diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="space-y-2 min-w-0">
+        <JsonEditor
+          label="Metadata JSON"
+          value={text}
+          onChange={setText}
+          diagnostics={analysis.diagnostics}
+          complete={complete}
+          focusRange={focusRange}
+        />
+        {problems > 0 ? (
+          <ul className="max-h-40 overflow-auto space-y-1 text-xs">
+            {analysis.diagnostics.map((diagnostic, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  className="flex w-full gap-2 rounded px-2 py-1 text-left hover:bg-secondary/50"
+                  onClick={() => setFocusRange({ ...diagnostic.range })}
+                >
+                  {diagnostic.severity === 'warning' ? (
+                    <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-600" aria-label="Warning" />
+                  ) : (
+                    <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-destructive" aria-label="Error" />
+                  )}
+                  <span className="font-mono text-muted-foreground shrink-0">
+                    Line {getLineColumn(deferredText, diagnostic.range.start).line}
+                  </span>
+                  <span>{diagnostic.message}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="flex items-center gap-2 px-2 text-xs text-muted-foreground">
+            <CheckCircle2 className="w-3.5 h-3.5 text-primary" />
+            No problems
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2 min-w-0">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">Live preview</span>
+          {!analysis.valid && <span>Showing the last valid version</span>}
+          {analysis.valid && warnings > 0 && <span>{warnings} {warnings === 1 ? 'warning' : 'warnings'}</span>}
+        </div>
+        <div className="h-96 overflow-auto rounded-lg border border-border bg-background">
+          <LayoutEngine
+            metadata={lastValid}
+            documents={documents}
+            onError={(error) => console.error('[MetadataEditor] Layout error:', error)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { MoreVertical } from 'lucide-react';
+
+export interface MenuItem {
+  label: string;
+  /** Handler created by the engine from the item's onSelect actions */
+  onSelect?: (event?: unknown) => void;
+}
+
+interface ActionMenuProps {
+  items?: MenuItem[];
+  /** Payload passed to the selected item's actions as "event" */
+  event?: unknown;
+}
+
+/**
+ * ActionMenu - The "more" menu in card and chart headers
+ * Renders nothing when there are no items
+ */
+export const ActionMenu = ({ items = [], event }: ActionMenuProps) => {
+  if (items.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-engine-text-tertiary hover:text-engine-text-primary"
+        >
+          <MoreVertical className="w-4 h-4" />
+          <span className="sr-only">More actions</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {items.map((item, index) => (
+          <DropdownMenuItem key={index} onSelect={() => item.onSelect?.(event)}>
+            {item.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
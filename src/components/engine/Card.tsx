@@ -1,10 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card as ShadCard, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Skeleton } from '@/components/ui/skeleton';
 import { dataService } from '@/services/DataService';
-import { TrendingUp, TrendingDown, MoreVertical, RefreshCw } from 'lucide-react';
+import { useDataRefresh } from '@/hooks/use-data-refresh';
+import { TrendingUp, TrendingDown, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ActionMenu, MenuItem } from './ActionMenu';
+import { CardContentSkeleton } from './skeletons';
 
 interface CardProps {
   title: string;
@@ -13,6 +15,8 @@ interface CardProps {
   variant?: 'default' | 'metric' | 'status' | 'chart-summary';
   showActions?: boolean;
   refreshable?: boolean;
+  /** Items of the header menu; their actions receive the card's data as "event" */
+  menu?: MenuItem[];
   className?: string;
 }
 
@@ -27,13 +31,15 @@ export const Card = ({
   variant = 'default',
   showActions = true,
   refreshable = true,
+  menu,
   className
 }: CardProps) => {
-  const [data, setData] = useState<any>(null);
+  // Data already in the cache shows at once, e.g. when rendering static HTML
+  const [data, setData] = useState<any>(() => (dataUrl ? dataService.peek(dataUrl) ?? null : null));
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     if (!dataUrl) return;
 
     setLoading(true);
@@ -47,26 +53,22 @@ export const Card = ({
     } finally {
       setLoading(false);
     }
-  };
+  }, [dataUrl]);
 
   useEffect(() => {
     fetchData();
-  }, [dataUrl]);
+  }, [fetchData]);
+
+  useDataRefresh(dataUrl, fetchData);
 
+  // Invalidating the cache refetches this card and every other node showing the same data
   const handleRefresh = () => {
-    dataService.clearCache(dataUrl);
-    fetchData();
+    if (dataUrl) dataService.clearCache(dataUrl);
   };
 
   const renderContent = () => {
     if (loading) {
-      return (
-        <div className="space-y-3">
-          <Skeleton className="h-8 w-24" />
-          <Skeleton className="h-4 w-32" />
-          <Skeleton className="h-12 w-full" />
-        </div>
-      );
+      return <CardContentSkeleton />;
     }
 
     if (error) {
@@ -217,13 +219,7 @@ export const Card = ({
                   <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
                 </Button>
               )}
-              <Button
-                variant="ghost"
-                size="sm"
-                className="text-engine-text-tertiary hover:text-engine-text-primary"
-              >
-                <MoreVertical className="w-4 h-4" />
-              </Button>
+              <ActionMenu items={menu} event={data} />
             </div>
           )}
         </div>
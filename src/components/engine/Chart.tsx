@@ -1,8 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Skeleton } from '@/components/ui/skeleton';
 import { dataService } from '@/services/DataService';
+import { useDataRefresh } from '@/hooks/use-data-refresh';
 import { 
   BarChart, 
   Bar, 
@@ -18,8 +18,10 @@ import {
   Pie, 
   Cell 
 } from 'recharts';
-import { RefreshCw, MoreVertical, TrendingUp } from 'lucide-react';
+import { RefreshCw, TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ActionMenu, MenuItem } from './ActionMenu';
+import { ChartContentSkeleton } from './skeletons';
 
 interface ChartProps {
   title: string;
@@ -29,9 +31,22 @@ interface ChartProps {
   showLegend?: boolean;
   showGrid?: boolean;
   refreshable?: boolean;
+  /** Items of the header menu; their actions receive the chart's data as "event" */
+  menu?: MenuItem[];
   className?: string;
 }
 
+/**
+ * Turn a response into chart rows; objects that are not a list become one row, e.g. for pie charts
+ */
+const toChartData = (result: unknown): unknown[] => {
+  if (Array.isArray(result)) return result;
+  const { monthlyData, data } = result as { monthlyData?: unknown[]; data?: unknown[] };
+  if (monthlyData) return monthlyData;
+  if (data) return data;
+  return [result];
+};
+
 /**
  * Chart Component - Dynamic chart renderer supporting multiple chart types
  * Fetches data from API and renders with Recharts
@@ -44,44 +59,40 @@ export const Chart = ({
   showLegend = true,
   showGrid = true,
   refreshable = true,
+  menu,
   className
 }: ChartProps) => {
-  const [data, setData] = useState<any[]>([]);
+  // Data already in the cache shows at once, e.g. when rendering static HTML
+  const [data, setData] = useState<any[]>(() => {
+    const cached = dataService.peek(dataUrl);
+    return cached === undefined ? [] : toChartData(cached);
+  });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
       const result = await dataService.fetchData(dataUrl);
-      
-      // Handle different data formats
-      if (Array.isArray(result)) {
-        setData(result);
-      } else if (result.monthlyData) {
-        setData(result.monthlyData);
-      } else if (result.data) {
-        setData(result.data);
-      } else {
-        // Transform single object to array for pie charts
-        setData([result]);
-      }
+      setData(toChartData(result));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch chart data');
     } finally {
       setLoading(false);
     }
-  };
+  }, [dataUrl]);
 
   useEffect(() => {
     fetchData();
-  }, [dataUrl]);
+  }, [fetchData]);
+
+  useDataRefresh(dataUrl, fetchData);
 
+  // Invalidating the cache refetches this chart and every other node showing the same data
   const handleRefresh = () => {
     dataService.clearCache(dataUrl);
-    fetchData();
   };
 
   // Color palette for charts
@@ -255,22 +266,13 @@ export const Chart = ({
                 <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
               </Button>
             )}
-            <Button
-              variant="ghost"
-              size="sm"
-              className="text-engine-text-tertiary hover:text-engine-text-primary"
-            >
-              <MoreVertical className="w-4 h-4" />
-            </Button>
+            <ActionMenu items={menu} event={data} />
           </div>
         </div>
       </CardHeader>
       <CardContent>
         {loading ? (
-          <div className="space-y-3">
-            <Skeleton className="h-8 w-32" />
-            <Skeleton className="h-64 w-full" />
-          </div>
+          <ChartContentSkeleton />
         ) : error ? (
           <div className="text-center py-8">
             <p className="text-sm text-destructive mb-2">Error loading chart</p>
@@ -0,0 +1,280 @@
+import {
+  createContext,
+  CSSProperties,
+  KeyboardEvent,
+  PointerEvent,
+  ReactNode,
+  useContext,
+  useEffect,
+  useRef,
+  useState
+} from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { GripVertical, MoveDiagonal2, Plus, RotateCcw, X } from 'lucide-react';
+import type { ComponentRegistration } from '@/lib/engine/registry';
+import type { GridItem } from '@/lib/engine/types';
+import { clampPlacement, EditableGrid } from '@/lib/engine/dashboard';
+import { getGridItemStyle } from '@/lib/engine/grid';
+
+/**
+ * Dashboard - Controls for rearranging the widgets of an editable grid
+ * The engine wraps editable grids in a DashboardGridEditor and each of their
+ * widgets in a DashboardWidget while the dashboard is being edited
+ */
+
+interface GridGeometry {
+  /** Pixels between the start of one column and the next */
+  columnStep: number;
+  /** Pixels between the start of one row and the next */
+  rowStep: number;
+  left: number;
+  top: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+interface EditorContextValue {
+  grid: EditableGrid;
+  /** Measure the grid as it is laid out now */
+  measure: () => GridGeometry | undefined;
+}
+
+const EditorContext = createContext<EditorContextValue | undefined>(undefined);
+
+interface DashboardGridEditorProps {
+  grid: EditableGrid;
+  /** Types users can add */
+  catalogue: ComponentRegistration[];
+  onAdd: (type: string) => void;
+  /** Restore the document's arrangement */
+  onReset: () => void;
+  children: ReactNode;
+}
+
+/**
+ * DashboardGridEditor - Toolbar and widget catalogue of an editable grid
+ */
+export const DashboardGridEditor = ({ grid, catalogue, onAdd, onReset, children }: DashboardGridEditorProps) => {
+  const [showCatalogue, setShowCatalogue] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const measure = (): GridGeometry | undefined => {
+    const element = gridRef.current?.firstElementChild;
+    if (!element) return undefined;
+    const rect = element.getBoundingClientRect();
+    const style = getComputedStyle(element);
+    const columnGap = parseFloat(style.columnGap) || 0;
+    const rowGap = parseFloat(style.rowGap) || 0;
+    const columnWidth = (rect.width - columnGap * (grid.columns - 1)) / grid.columns;
+    return {
+      columnStep: columnWidth + columnGap,
+      rowStep: grid.rowHeight + rowGap,
+      left: rect.left,
+      top: rect.top,
+      columnGap,
+      rowGap
+    };
+  };
+
+  return (
+    <EditorContext.Provider value={{ grid, measure }}>
+      <div className="space-y-3">
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset layout
+          </Button>
+          <Button size="sm" onClick={() => setShowCatalogue(true)} disabled={catalogue.length === 0}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add widget
+          </Button>
+        </div>
+
+        <div ref={gridRef} className="rounded-lg outline-dashed outline-2 outline-offset-4 outline-border">
+          {children}
+        </div>
+      </div>
+
+      <Dialog open={showCatalogue} onOpenChange={setShowCatalogue}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add a widget</DialogTitle>
+            <DialogDescription>New widgets are added at the end of the dashboard.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            {catalogue.map(entry => (
+              <button
+                key={entry.type}
+                type="button"
+                className="text-left rounded-md border border-border p-3 hover:bg-secondary/50 transition-colors"
+                onClick={() => {
+                  onAdd(entry.type);
+                  setShowCatalogue(false);
+                }}
+              >
+                <div className="font-medium text-foreground">{entry.displayName ?? entry.type}</div>
+                {entry.widget?.description && (
+                  <div className="text-sm text-muted-foreground">{entry.widget.description}</div>
+                )}
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </EditorContext.Provider>
+  );
+};
+
+interface DashboardWidgetProps {
+  /** Name of the widget, for assistive technology */
+  label: string;
+  placement: GridItem;
+  onPlace: (placement: GridItem) => void;
+  onRemove: () => void;
+  children: ReactNode;
+}
+
+interface Gesture {
+  kind: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  /** Size of the widget when the gesture started */
+  width: number;
+  height: number;
+  dx: number;
+  dy: number;
+}
+
+/**
+ * DashboardWidget - A widget of an editable grid, with handles to move, resize and remove it
+ * Handles follow the pointer and snap to the grid when released; with the keyboard,
+ * arrow keys move the widget by one cell and shift+arrow keys resize it
+ */
+export const DashboardWidget = ({ label, placement, onPlace, onRemove, children }: DashboardWidgetProps) => {
+  const context = useContext(EditorContext);
+  const elementRef = useRef<HTMLDivElement>(null);
+  const [gesture, setGesture] = useState<Gesture | null>(null);
+
+  /**
+   * Read the widget's current cells from the layout, which also covers widgets
+   * the grid placed automatically
+   */
+  const getCells = () => {
+    const geometry = context?.measure();
+    const rect = elementRef.current?.getBoundingClientRect();
+    if (!geometry || !rect) return undefined;
+    return {
+      column: Math.round((rect.left - geometry.left) / geometry.columnStep) + 1,
+      row: Math.round((rect.top - geometry.top) / geometry.rowStep) + 1,
+      colSpan: Math.max(1, Math.round((rect.width + geometry.columnGap) / geometry.columnStep)),
+      rowSpan: Math.max(1, Math.round((rect.height + geometry.rowGap) / geometry.rowStep))
+    };
+  };
+
+  const commit = (kind: Gesture['kind'], columns: number, rows: number) => {
+    const cells = getCells();
+    if (!cells || !context) return;
+    const { column, row, colSpan, rowSpan } = cells;
+    onPlace(clampPlacement(
+      kind === 'move'
+        ? { column: column + columns, row: row + rows, colSpan, rowSpan }
+        : { column, row, colSpan: colSpan + columns, rowSpan: rowSpan + rows },
+      context.grid.columns
+    ));
+  };
+
+  // The listeners below stay for the whole gesture, so they read the latest commit when released
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
+  const dragging = gesture?.kind;
+
+  // Follow the pointer anywhere on the page until it is released
+  useEffect(() => {
+    if (!dragging) return;
+
+    const onMove = (event: globalThis.PointerEvent) =>
+      setGesture(current => current && { ...current, dx: event.clientX - current.startX, dy: event.clientY - current.startY });
+    // The widget is drawn where the pointer left it, so its cells are read as they are
+    const onUp = () => {
+      commitRef.current(dragging, 0, 0);
+      setGesture(null);
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    return () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+    };
+  }, [dragging]);
+
+  const start = (kind: Gesture['kind']) => (event: PointerEvent) => {
+    const rect = elementRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    event.preventDefault();
+    setGesture({ kind, startX: event.clientX, startY: event.clientY, width: rect.width, height: rect.height, dx: 0, dy: 0 });
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1]
+    };
+    const step = steps[event.key];
+    if (!step) return;
+    event.preventDefault();
+    commit(event.shiftKey ? 'resize' : 'move', ...step);
+  };
+
+  // While a gesture is in progress the widget follows the pointer; it snaps once released
+  const gestureStyle: CSSProperties = {};
+  if (gesture?.kind === 'move') {
+    gestureStyle.transform = `translate(${gesture.dx}px, ${gesture.dy}px)`;
+    gestureStyle.zIndex = 10;
+  } else if (gesture?.kind === 'resize') {
+    gestureStyle.width = Math.max(48, gesture.width + gesture.dx);
+    gestureStyle.height = Math.max(48, gesture.height + gesture.dy);
+  }
+
+  return (
+    <div
+      ref={elementRef}
+      role="group"
+      aria-label={label}
+      className="relative rounded-lg ring-2 ring-primary/40"
+      style={{ ...getGridItemStyle(placement), ...gestureStyle, opacity: gesture ? 0.85 : undefined }}
+    >
+      {children}
+
+      <button
+        type="button"
+        aria-label={`Move ${label}. Arrow keys move it, shift and arrow keys resize it`}
+        className="absolute top-2 left-2 z-20 p-1 rounded bg-background/90 border border-border cursor-grab touch-none"
+        onPointerDown={start('move')}
+        onKeyDown={onKeyDown}
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        aria-label={`Remove ${label}`}
+        className="absolute top-2 right-2 z-20 p-1 rounded bg-background/90 border border-border hover:text-destructive"
+        onClick={onRemove}
+      >
+        <X className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        aria-label={`Resize ${label}`}
+        tabIndex={-1}
+        className="absolute bottom-1 right-1 z-20 p-1 rounded bg-background/90 border border-border cursor-se-resize touch-none"
+        onPointerDown={start('resize')}
+      >
+        <MoveDiagonal2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
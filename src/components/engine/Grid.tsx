@@ -0,0 +1,74 @@
+import { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+type Length = number | string;
+
+type Alignment = 'start' | 'end' | 'center' | 'stretch';
+
+interface GridProps {
+  /** Number of equal columns, or a grid-template-columns value such as "200px 1fr" */
+  columns?: Length;
+  /** Fit as many columns of at least this width as there is room for; replaces columns */
+  minColumnWidth?: Length;
+  /** Number of equal rows, or a grid-template-rows value */
+  rows?: Length;
+  /** Height of rows the template does not declare */
+  autoRows?: Length;
+  /** Named areas, one string per row, e.g. ["header header", "nav main"]; without
+   * columns, the grid has one equal column per area of a row */
+  areas?: string[];
+  gap?: Length;
+  columnGap?: Length;
+  rowGap?: Length;
+  alignItems?: Alignment;
+  justifyItems?: Alignment;
+  children?: ReactNode;
+  className?: string;
+}
+
+/** Numbers are pixels; strings are used as they are */
+const toLength = (value: Length | undefined) => typeof value === 'number' ? `${value}px` : value;
+
+/** Numbers are a count of equal tracks; strings are a template as they are */
+const toTracks = (value: Length | undefined) =>
+  typeof value === 'number' ? `repeat(${value}, minmax(0, 1fr))` : value;
+
+/**
+ * Grid Component - CSS grid laid out entirely from props
+ * Children are placed by their gridItem, which the engine turns into a wrapper
+ * styled with getGridItemStyle
+ */
+export const Grid = ({
+  columns,
+  minColumnWidth,
+  rows,
+  autoRows,
+  areas,
+  gap = 24,
+  columnGap,
+  rowGap,
+  alignItems,
+  justifyItems,
+  children,
+  className
+}: GridProps) => (
+  <div
+    className={cn("w-full", className)}
+    style={{
+      display: 'grid',
+      gridTemplateColumns: minColumnWidth !== undefined
+        ? `repeat(auto-fill, minmax(min(${toLength(minColumnWidth)}, 100%), 1fr))`
+        : toTracks(columns ?? areas?.[0]?.trim().split(/\s+/).length ?? 1),
+      gridTemplateRows: toTracks(rows),
+      gridAutoRows: toLength(autoRows),
+      gridTemplateAreas: areas?.map(row => `"${row}"`).join(' '),
+      gap: toLength(gap),
+      columnGap: toLength(columnGap),
+      rowGap: toLength(rowGap),
+      alignItems,
+      justifyItems
+    }}
+  >
+    {children}
+  </div>
+);
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import { LayoutEngine } from './LayoutEngine';
+import type { LayoutMetadata } from '@/lib/engine/types';
+
+const metadata: LayoutMetadata = {
+  layout: {
+    type: 'page',
+    props: {
+      navbar: { title: 'Sales' },
+      sidebar: { items: [{ label: 'Reports', icon: 'BarChart3', href: '/reports' }] },
+      content: { type: 'card', props: { title: 'Hello {{user.name ?? "guest"}}' } }
+    }
+  }
+};
+
+// Layout effects only run in browsers, which React warns about on every server render
+beforeEach(() => {
+  const error = console.error;
+  vi.spyOn(console, 'error').mockImplementation((message, ...args) => {
+    if (!String(message).includes('useLayoutEffect does nothing on the server')) error(message, ...args);
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('LayoutEngine', () => {
+  it('renders without an AuthProvider or a ThemeProvider', () => {
+    const html = renderToString(<StaticRouter location="/reports"><LayoutEngine metadata={metadata} immediate /></StaticRouter>);
+
+    expect(html).toContain('Hello guest');
+    expect(html).not.toContain('Toggle theme');
+  });
+
+  it('renders outside a router', () => {
+    const html = renderToString(<LayoutEngine metadata={metadata} immediate />);
+
+    expect(html).toContain('Sales');
+    expect(html).toContain('Reports');
+  });
+});
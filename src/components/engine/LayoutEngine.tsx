@@ -1,241 +1,636 @@
-import { useState, useEffect } from 'react';
-import { Navbar } from './Navbar';
-import { Sidebar } from './Sidebar';
-import { Card } from './Card';
-import { Chart } from './Chart';
-import { ProjectList } from './ProjectList';
-import { ProjectUpdates } from './ProjectUpdates';
-import { Button } from '@/components/ui/button';
+import { memo, Suspense, useCallback, useState, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, RefreshCw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertCircle } from 'lucide-react';
+import { MemoryRouter, useInRouterContext } from 'react-router-dom';
 import { cn } from '@/lib/utils';
+import type { ActionList, ComponentConfig, LayoutMetadata } from '@/lib/engine/types';
+import { validateMetadata, groupIssuesByNode } from '@/lib/engine/schema';
+import { MetadataValidationError } from '@/lib/engine/errors';
+import type { ComponentRegistry } from '@/lib/engine/registry';
+import { DocumentRegistry } from '@/lib/engine/documents';
+import { composeMetadata } from '@/lib/engine/compose';
+import { migrateDocuments, migrateMetadata, MigrationResult } from '@/lib/engine/migrations';
+import { resolveRouteParams, RouteParams } from '@/lib/engine/routing';
+import { BindingScope, resolveBindings } from '@/lib/engine/expressions';
+import { collectDataUrls, getNodeSlots, getSlotVariables, walkMetadata } from '@/lib/engine/traverse';
+import { isNodeVisible } from '@/lib/engine/visibility';
+import { applyBreakpoint, getBreakpoint, getChildOrder, isHiddenAt } from '@/lib/engine/responsive';
+import { getGridItemStyle } from '@/lib/engine/grid';
+import {
+  addWidget,
+  applyDashboardOverlay,
+  createWidgetId,
+  DashboardOptions,
+  EditableGrid,
+  getDashboardWidgets,
+  getEditableGrid,
+  placeWidget,
+  removeWidget,
+  resetGrid
+} from '@/lib/engine/dashboard';
+import { bindActions, runActions } from '@/lib/engine/actions';
+import { resolveUrlSources } from '@/lib/engine/endpoints';
+import type { UrlSource } from '@/lib/engine/types';
+import { StateStore } from '@/lib/engine/state';
+import { getNodeKeys } from '@/lib/engine/identity';
+import type { PatchOperation, PatchSource } from '@/lib/engine/patch';
+import { useBindingScope } from '@/hooks/use-binding-scope';
+import { OpenDialog, useActionHandlers } from '@/hooks/use-action-handlers';
+import { useStructuralSharing } from '@/hooks/use-structural-sharing';
+import { useMetadataPatches } from '@/hooks/use-metadata-patches';
+import { dataService } from '@/services/DataService';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useViewportWidth } from '@/hooks/use-viewport';
+import { useContainerWidth } from '@/hooks/use-container-width';
+import { useDashboardOverlay } from '@/hooks/use-dashboard-overlay';
+import { useComponentRegistry } from '@/hooks/use-component-registry';
+import { LayoutStateProvider } from '@/contexts/LayoutStateContext';
+import { NodeErrorBoundary } from './NodeErrorBoundary';
+import { LayoutErrorScreen } from './LayoutErrorScreen';
+import { LayoutSkeleton } from './skeletons';
+import { DashboardGridEditor, DashboardWidget } from './Dashboard';
 
-/**
- * Component type definitions for the dynamic engine
- */
-export interface ComponentConfig {
-  type: 'navbar' | 'sidebar' | 'card' | 'chart' | 'page' | 'container' | 'projectList' | 'projectUpdates';
-  props?: Record<string, any>;
-  children?: ComponentConfig[];
-  id?: string;
-  className?: string;
-}
-
-export interface LayoutMetadata {
-  layout: ComponentConfig;
-  theme?: {
-    variant: 'default' | 'minimal' | 'modern';
-    primaryColor?: string;
-  };
-  metadata?: {
-    title: string;
-    description: string;
-    version: string;
-  };
-}
+export type { ComponentConfig, LayoutMetadata };
 
-interface LayoutEngineProps {
+export interface LayoutEngineProps {
   metadata: LayoutMetadata;
   onError?: (error: Error) => void;
   className?: string;
+  /** Registry to resolve component types from, defaults to the nearest provider */
+  registry?: ComponentRegistry;
+  /** Id of an entry in metadata.pages to render inside the shared layout */
+  page?: string;
+  /** Route params substituted into {name} placeholders in props */
+  params?: RouteParams;
+  /** Feature flags for visibleWhen/hiddenWhen rules, merged over metadata.featureFlags */
+  featureFlags?: Record<string, boolean>;
+  /** Documents that $ref and extends can name, e.g. "shared#/fragments/navbar" */
+  documents?: DocumentRegistry;
+  /** Called when the document was upgraded from an older schema version, with every change made */
+  onMigrate?: (result: MigrationResult) => void;
+  /** JSON Patch applied to the current document each time a new array is passed */
+  patch?: PatchOperation[];
+  /** Source of JSON Patches applied to the current document as they arrive */
+  updates?: PatchSource;
+  /** Let users rearrange the widgets of editable grids, saving their arrangement under this id */
+  dashboard?: DashboardOptions;
+  /** Render at once without the loading skeleton, e.g. when rendering static HTML */
+  immediate?: boolean;
 }
 
+type Migration = { result: MigrationResult; error?: undefined } | { result?: undefined; error: Error };
+
+const noDocuments = new DocumentRegistry();
+
 /**
- * LayoutEngine - The core component that dynamically renders the entire application
- * based on JSON metadata configuration. This is the heart of the customizable engine.
+ * Builds a node's element during its own render, inside the node's error boundary
+ */
+const DeferredNode = ({ render }: { render: () => JSX.Element | null }) => render();
+
+type BuildNode = (config: ComponentConfig, path: string, scope: BindingScope) => JSX.Element | null;
+
+interface EngineNodeProps {
+  config: ComponentConfig;
+  path: string;
+  scope: BindingScope;
+  /** Replaced whenever something other than the node's own inputs affects how nodes render */
+  revision: object;
+  build: BuildNode;
+  onError: (error: Error) => void;
+}
+
+/**
+ * EngineNode - A node inside its own error boundary
+ * Construction is deferred into the boundary so that any failure stays local to the node.
+ * Nodes only re-render when their config, path, scope or the engine's revision change,
+ * so unchanged subtrees are skipped when a new version of the document arrives. A node that
+ * failed renders again when any of them change, e.g. once its config is fixed.
+ */
+const EngineNode = memo(({ config, path, scope, revision, build, onError }: EngineNodeProps) => (
+  <NodeErrorBoundary
+    nodeId={config?.id}
+    nodeType={config?.type ?? 'unknown'}
+    path={path}
+    onError={onError}
+    resetKeys={[config, scope, revision]}
+  >
+    <DeferredNode render={() => build(config, path, scope)} />
+  </NodeErrorBoundary>
+));
+EngineNode.displayName = 'EngineNode';
+
+/**
+ * LayoutRenderer - Renders a document inside a router
  */
-export const LayoutEngine = ({ 
-  metadata, 
+const LayoutRenderer = ({ 
+  metadata: source, 
   onError,
-  className 
+  className,
+  registry: registryProp,
+  page,
+  params,
+  featureFlags,
+  documents = noDocuments,
+  onMigrate,
+  patch,
+  updates,
+  dashboard,
+  immediate = false
 }: LayoutEngineProps) => {
-  const [renderError, setRenderError] = useState<string | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
+  const contextRegistry = useComponentRegistry();
+  const registry = registryProp ?? contextRegistry;
+  // Re-render and re-validate whenever component types are (un)registered
+  const registryVersion = useSyncExternalStore(registry.subscribe, registry.getVersion, registry.getVersion);
+  const documentsVersion = useSyncExternalStore(documents.subscribe, documents.getVersion, documents.getVersion);
+
+  // Patches change the document in place of replacing it, so only the nodes they touch update
+  const patchedSource = useMetadataPatches(source, { patch, updates, onError });
+
+  // Upgrade documents written for older schema versions; newer ones are refused
+  const migration = useMemo<Migration>(() => {
+    try {
+      return { result: migrateMetadata(patchedSource) };
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  }, [patchedSource]);
+  // The documents and component types as of their registries' current versions; everything read
+  // from them depends on these, so that a registration invalidates it
+  const references = useMemo(
+    () => ({ documents: migrateDocuments(documents), version: documentsVersion }),
+    [documents, documentsVersion]
+  );
+  const schemas = useMemo(() => ({ registry, version: registryVersion }), [registry, registryVersion]);
+
+  // Expand fragments, references and inheritance; the rest of the engine sees a plain document
+  const composition = useMemo(
+    () => composeMetadata(migration.result?.metadata, references.documents),
+    [migration, references]
+  );
+  // Users see editable grids as they arranged them
+  const { overlay, update: updateOverlay } = useDashboardOverlay(dashboard);
+  const editing = !!dashboard?.editing;
+  const arranged = useMemo(() => applyDashboardOverlay(composition.metadata, overlay), [composition, overlay]);
+
+  // Unchanged parts of a new version keep their identity, so memoized nodes can skip them
+  const metadata = useStructuralSharing(arranged);
+  const dashboardWidgets = useMemo(
+    () => editing ? getDashboardWidgets(metadata) : new Map<string, EditableGrid>(),
+    [editing, metadata]
+  );
+
+  const activePage = page ? metadata?.pages?.[page] : undefined;
+
+  // Each page starts from its own state, layered over the document's
+  const store = useMemo(
+    () => new StateStore({ ...metadata?.state, ...activePage?.state }),
+    [metadata?.state, activePage?.state]
+  );
+  const state = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+
+  // Breakpoint overrides follow the width the layout actually has, not just the window's
+  const isMobile = useIsMobile();
+  const viewportWidth = useViewportWidth();
+  const [containerRef, containerWidth] = useContainerWidth<HTMLDivElement>();
+  const breakpoint = getBreakpoint(containerWidth ?? viewportWidth, isMobile);
+
+  // URLs are built by the data service, which encodes the params filled into them
+  const apiEndpoints = metadata?.apiEndpoints;
+  const resolveUrl = useCallback(
+    (source: UrlSource) => dataService.resolveUrl(source, { endpoints: apiEndpoints, params }),
+    [apiEndpoints, params]
+  );
+  const dataUrls = useStructuralSharing(useMemo(() => collectDataUrls(metadata, resolveUrl), [metadata, resolveUrl]));
+  const bindingScope = useBindingScope({
+    metadata,
+    page,
+    params,
+    featureFlags,
+    dataUrls,
+    state,
+    breakpoint
+  });
+
+  const [openDialog, setOpenDialog] = useState<OpenDialog | null>(null);
+  const actionHandlers = useActionHandlers({
+    store,
+    dataUrls,
+    setDialog: setOpenDialog,
+    resolveUrl
+  });
+
+  const [isInitialized, setIsInitialized] = useState(immediate);
 
   useEffect(() => {
-    // Simulate initialization delay for smooth loading
+    // Simulate initialization delay for smooth loading; later versions of the document render at once
+    if (isInitialized) return;
     const timer = setTimeout(() => setIsInitialized(true), 100);
     return () => clearTimeout(timer);
-  }, [metadata]);
+  }, [isInitialized]);
+
+  // Callbacks are read when used, so that passing new ones does not report anything again
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const onMigrateRef = useRef(onMigrate);
+  onMigrateRef.current = onMigrate;
+
+  useEffect(() => {
+    if (migration.error) {
+      console.error('[LayoutEngine]', migration.error.message);
+      onErrorRef.current?.(migration.error);
+    } else if (migration.result.changes.length > 0) {
+      const { fromVersion, toVersion, changes } = migration.result;
+      console.info(
+        `[LayoutEngine] Migrated metadata from schema version ${fromVersion} to ${toVersion}:\n` +
+        changes.map(change => `  ${change.path}: ${change.message}`).join('\n')
+      );
+      onMigrateRef.current?.(migration.result);
+    }
+  }, [migration]);
+
+  // Validate the whole document up front so every problem is reported at once
+  const validationReport = useMemo(() => {
+    const { issues } = validateMetadata(metadata, schemas.registry);
+    const allIssues = [...composition.issues, ...issues];
+    return { valid: allIssues.length === 0, issues: allIssues };
+  }, [composition, metadata, schemas]);
+  const issuesByNode = useStructuralSharing(useMemo(() => groupIssuesByNode(validationReport), [validationReport]));
+
+  // Fetch the code of every lazily loaded type the document uses at once, rather than
+  // level by level as nested nodes render
+  useEffect(() => {
+    const types = new Set<string>();
+    walkMetadata(metadata, node => {
+      if (typeof node.type === 'string') types.add(node.type);
+    });
+    void schemas.registry.preload(types);
+  }, [metadata, schemas]);
+
+  useEffect(() => {
+    // Refused documents are reported by the migration step alone
+    if (!validationReport.valid && !migration.error) {
+      const error = new MetadataValidationError(validationReport.issues);
+      console.warn('[LayoutEngine]', error.message);
+      onErrorRef.current?.(error);
+    }
+  }, [validationReport, migration.error]);
+
+  // Memoized nodes keep the handlers they were built with, so these are read when used
+  const actionHandlersRef = useRef(actionHandlers);
+  actionHandlersRef.current = actionHandlers;
+  const reportError = useCallback((error: Error) => onErrorRef.current?.(error), []);
+
+  // Nodes are built by the latest render's buildComponent, through a function that never changes
+  const buildRef = useRef<BuildNode>(() => null);
+  const build = useCallback<BuildNode>((config, path, scope) => buildRef.current(config, path, scope), []);
+
+  // Everything besides a node's config and scope that changes how nodes render; a change to any of it
+  // gives memoized nodes a new revision, so that they build again
+  const revision = useMemo(
+    () => ({ schemas, issuesByNode, resolveUrl, activePage, page, params, breakpoint, editing, overlay }),
+    [schemas, issuesByNode, resolveUrl, activePage, page, params, breakpoint, editing, overlay]
+  );
 
   /**
-   * Component mapper - Maps component types to their React components
-   * This is the core of the dynamic rendering system
+   * Create the handler a component calls for one of its on<Event> props
+   * @param actions - Action list from metadata
+   * @param scope - Variables of the node the handler belongs to
    */
-  const componentMap = {
-    navbar: Navbar,
-    sidebar: Sidebar,
-    card: Card,
-    chart: Chart,
-    projectList: ProjectList,
-    projectUpdates: ProjectUpdates,
-    page: ({ children, className, ...props }: any) => (
-      <div className={cn("flex-1 min-h-0", className)} {...props}>
-        {children}
-      </div>
-    ),
-    container: ({ children, className, ...props }: any) => (
-      <div className={cn("w-full", className)} {...props}>
-        {children}
-      </div>
-    )
+  const bindHandler = (actions: ActionList, scope: BindingScope) => (event?: unknown) => {
+    void runActions(actions, { ...scope, event }, actionHandlersRef.current);
+  };
+
+  /**
+   * Render the open dialog, if any; its components can read the data it was opened with
+   * @returns The dialog element
+   */
+  const renderDialog = (): JSX.Element => {
+    const dialog = openDialog ? metadata.dialogs?.[openDialog.id] : undefined;
+    if (openDialog && !dialog) {
+      console.warn(`[LayoutEngine] Unknown dialog: ${openDialog.id}`);
+    }
+
+    const dialogScope = { ...bindingScope, dialog: openDialog };
+    const { title, description } = resolveBindings({ title: dialog?.title, description: dialog?.description }, dialogScope);
+
+    return (
+      <Dialog open={!!dialog} onOpenChange={open => !open && setOpenDialog(null)}>
+        {dialog && openDialog && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{title}</DialogTitle>
+              {description && <DialogDescription>{description}</DialogDescription>}
+            </DialogHeader>
+            {renderNodes(dialog.components ?? [], `dialogs.${openDialog.id}.components`, dialogScope)}
+          </DialogContent>
+        )}
+      </Dialog>
+    );
   };
 
   /**
-   * Recursively render components based on the configuration
+   * Render the active page's components in place of the layout's own content
+   * @returns Rendered page components, or null when no page is selected
+   */
+  const renderPageComponents = (): JSX.Element[] | null => {
+    if (!activePage) return null;
+    return renderNodes(activePage.components, `pages.${page}.components`);
+  };
+
+  /**
+   * Render a node inside its own error boundary
    * @param config - Component configuration object
-   * @param index - Unique key for React rendering
-   * @returns JSX Element or null
+   * @param key - Key among the node's siblings
+   * @param path - JSON path of the node, used to look up validation issues
+   * @param scope - Variables for the node's bindings, extended inside repeat templates
+   * @returns JSX Element
    */
-  const renderComponent = (config: ComponentConfig, index: number): JSX.Element | null => {
-    try {
-      const { type, props = {}, children = [], id, className } = config;
-      
-      // Get the component from the map
-      const Component = componentMap[type];
-      
-      if (!Component) {
-        console.warn(`[LayoutEngine] Unknown component type: ${type}`);
-        return (
-          <div key={id || index} className="p-4 border border-destructive rounded-lg bg-destructive/5">
-            <div className="flex items-center text-destructive">
-              <AlertCircle className="w-4 h-4 mr-2" />
-              Unknown component: {type}
-            </div>
-          </div>
-        );
-      }
-
-      // Handle special layout components
-      if (type === 'page') {
-        const { sidebar, navbar, content, ...pageProps } = props;
-        
-        return (
-          <div key={id || index} className={cn("min-h-screen flex flex-col bg-background", className)}>
-            {/* Render navbar if specified */}
-            {navbar && renderComponent({ type: 'navbar', props: navbar }, -1)}
-            
-            <div className="flex flex-1 min-h-0">
-              {/* Render sidebar if specified */}
-              {sidebar && renderComponent({ type: 'sidebar', props: sidebar }, -2)}
-              
-              {/* Main content area */}
-              <main className="flex-1 overflow-auto">
-                {content && renderComponent(content, -3)}
-                {children.map((child, childIndex) => renderComponent(child, childIndex))}
-              </main>
-            </div>
-          </div>
-        );
-      }
+  const renderComponent = (
+    config: ComponentConfig,
+    key: string | number,
+    path: string,
+    scope: BindingScope = bindingScope
+  ): JSX.Element => (
+    <EngineNode
+      key={key}
+      config={config}
+      path={path}
+      scope={scope}
+      revision={revision}
+      build={build}
+      onError={reportError}
+    />
+  );
 
-      // Render regular components
-      const childElements = children.length > 0 
-        ? children.map((child, childIndex) => renderComponent(child, childIndex))
-        : undefined;
+  /**
+   * Render a list of sibling nodes, keyed by their ids or derived keys
+   * @param nodes - Sibling nodes
+   * @param path - JSON path of the list, e.g. layout.children
+   * @param scope - Variables for the nodes' bindings
+   * @param order - Indices of the nodes in display order, defaults to document order
+   * @returns Rendered nodes
+   */
+  const renderNodes = (
+    nodes: ComponentConfig[],
+    path: string,
+    scope: BindingScope = bindingScope,
+    order: number[] = nodes.map((_, index) => index)
+  ): JSX.Element[] => {
+    // Keys and paths follow document order, so reordered nodes move rather than remount
+    const keys = getNodeKeys(nodes);
+    return order.map(index => renderComponent(nodes[index], keys[index], `${path}[${index}]`, scope));
+  };
+
+  /**
+   * Recursively build components based on the configuration
+   * @param node - Component configuration object, before breakpoint overrides
+   * @param path - JSON path of the node, used to look up validation issues
+   * @param scope - Variables for the node's bindings
+   * @returns JSX Element or null
+   */
+  const buildComponent = (node: ComponentConfig, path: string, scope: BindingScope): JSX.Element | null => {
+    // Overrides for the current breakpoint apply before anything reads the node
+    const config = applyBreakpoint(node, breakpoint);
+    const element = buildElement(config, path, scope);
+    if (!element) return null;
 
+    // Widgets of a dashboard being edited get handles to move, resize and remove them
+    const grid = config.id ? dashboardWidgets.get(config.id) : undefined;
+    if (grid && config.id) {
+      const widgetId = config.id;
+      const title = config.props?.title;
       return (
-        <Component
-          key={id || index}
-          className={className}
-          {...props}
+        <DashboardWidget
+          label={typeof title === 'string' ? title : registry.getDisplayName(config.type)}
+          placement={config.gridItem ?? {}}
+          onPlace={placement => updateOverlay(current => placeWidget(current, grid.id, widgetId, placement))}
+          onRemove={() => updateOverlay(current => removeWidget(current, grid.id, widgetId))}
         >
-          {childElements}
-        </Component>
+          {element}
+        </DashboardWidget>
       );
+    }
 
-    } catch (error) {
-      console.error(`[LayoutEngine] Error rendering component:`, error);
-      setRenderError(error instanceof Error ? error.message : 'Unknown rendering error');
-      onError?.(error instanceof Error ? error : new Error('Unknown rendering error'));
-      
+    // Grid children are placed by a wrapper, so that any component can be placed
+    return config.gridItem
+      ? <div style={getGridItemStyle(config.gridItem)}>{element}</div>
+      : element;
+  };
+
+  /**
+   * Add a widget from the catalogue to the end of an editable grid
+   * @param grid - The grid
+   * @param type - Component type of the widget
+   */
+  const addDashboardWidget = (grid: EditableGrid, type: string) => {
+    const widget = registry.get(type)?.widget;
+    updateOverlay(current => addWidget(current, grid.id, {
+      id: createWidgetId(type, metadata, current),
+      type,
+      props: { ...widget?.props },
+      gridItem: { colSpan: Math.min(widget?.colSpan ?? 1, grid.columns), rowSpan: widget?.rowSpan ?? 1 }
+    }));
+  };
+
+  /**
+   * Build a node's element from its configuration at the current breakpoint
+   * @param config - Component configuration object
+   * @param path - JSON path of the node, used to look up validation issues
+   * @param scope - Variables for the node's bindings
+   * @returns JSX Element or null
+   */
+  const buildElement = (config: ComponentConfig, path: string, scope: BindingScope): JSX.Element | null => {
+    const { type, props: allProps = {}, children = [], className } = config;
+
+    // Slot nodes are resolved when they render, in their own scope
+    const slotNames = getNodeSlots(type);
+    const slots: Record<string, ComponentConfig | undefined> = {};
+    const rawProps: NonNullable<ComponentConfig['props']> = {};
+    Object.entries(allProps).forEach(([key, value]) => {
+      if (slotNames.includes(key)) slots[key] = value;
+      else rawProps[key] = value;
+    });
+    // Invalid nodes are replaced by a description of what is wrong with them
+    const nodeIssues = issuesByNode.get(path);
+    if (nodeIssues) {
       return (
-        <div key={index} className="p-4 border border-destructive rounded-lg bg-destructive/5">
+        <div className="p-4 border border-destructive rounded-lg bg-destructive/5">
           <div className="flex items-center text-destructive mb-2">
             <AlertCircle className="w-4 h-4 mr-2" />
-            Rendering Error
+            Invalid {type ? `"${registry.getDisplayName(type)}"` : ''} component
           </div>
-          <p className="text-sm text-muted-foreground">
-            {error instanceof Error ? error.message : 'Failed to render component'}
-          </p>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {nodeIssues.map((issue, issueIndex) => (
+              <li key={issueIndex}>
+                <code className="text-xs">{issue.path}</code>: {issue.message}
+              </li>
+            ))}
+          </ul>
         </div>
       );
     }
-  };
 
-  // Loading state
-  if (!isInitialized) {
-    return (
-      <div className={cn("min-h-screen bg-background", className)}>
-        {/* Loading skeleton */}
-        <div className="h-16 border-b border-border">
-          <Skeleton className="h-full w-full" />
-        </div>
-        <div className="flex">
-          <Skeleton className="w-64 h-screen" />
-          <div className="flex-1 p-6 space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {Array.from({ length: 6 }, (_, i) => (
-                <Skeleton key={i} className="h-48 w-full" />
-              ))}
-            </div>
+    // Nodes whose visibility rules fail, or that are hidden at this breakpoint, render nothing
+    if (!isNodeVisible(config, scope) || isHiddenAt(config, breakpoint)) {
+      return null;
+    }
+
+    // Actions become handlers first, so that their bindings are resolved when they run;
+    // URLs are built last, once their params are known
+    const routedProps = params ? resolveRouteParams(rawProps, params) : rawProps;
+    const boundProps = resolveBindings(bindActions(routedProps, actions => bindHandler(actions, scope)), scope);
+    const props = resolveUrlSources(boundProps, resolveUrl);
+    
+    // Resolve the component from the registry
+    const entry = registry.get(type);
+    
+    if (!entry) {
+      console.warn(`[LayoutEngine] Unknown component type: ${type}`);
+      return (
+        <div className="p-4 border border-destructive rounded-lg bg-destructive/5">
+          <div className="flex items-center text-destructive">
+            <AlertCircle className="w-4 h-4 mr-2" />
+            Unknown component: {type}
           </div>
         </div>
-      </div>
+      );
+    }
+
+    const { component: Component, defaultProps, fallback: Fallback } = entry;
+
+    // Lazily loaded types show their skeleton until their code arrives
+    const withFallback = (element: JSX.Element): JSX.Element => {
+      if (!registry.isLazy(type)) return element;
+      const fallback = Fallback
+        ? <Fallback {...defaultProps} className={className} {...props} />
+        : <Skeleton className={cn("h-48 w-full", className)} />;
+      return <Suspense fallback={fallback}>{element}</Suspense>;
+    };
+
+    // Pages receive their navbar, sidebar and content slots pre-rendered
+    if (type === 'page') {
+      const { sidebar, navbar, ...pageProps } = props;
+      const { content } = slots;
+      // The root page is the shared shell: a selected page replaces its content
+      const pageComponents = path === 'layout' ? renderPageComponents() : null;
+      
+      return withFallback(
+        <Component
+          {...defaultProps}
+          className={className}
+          {...pageProps}
+          navbar={navbar && renderComponent({ type: 'navbar', props: navbar }, -1, `${path}.props.navbar`, scope)}
+          sidebar={sidebar && renderComponent({ type: 'sidebar', props: sidebar }, -2, `${path}.props.sidebar`, scope)}
+          content={pageComponents ?? (content && renderComponent(content, -3, `${path}.props.content`, scope))}
+        >
+          {!pageComponents && renderNodes(children, `${path}.children`, scope, getChildOrder(config, breakpoint))}
+        </Component>
+      );
+    }
+
+    // Repeats render their template once per item, with the item in scope
+    if (type === 'repeat') {
+      const { template, empty, loading, error } = slots;
+      const [alias] = getSlotVariables(config, 'template');
+
+      return withFallback(
+        <Component
+          {...defaultProps}
+          className={className}
+          {...props}
+          renderItem={(item: unknown, itemIndex: number) => template && renderComponent(
+            template, itemIndex, `${path}.props.template`, { ...scope, [alias]: item, index: itemIndex }
+          )}
+          renderEmpty={empty && (() => renderComponent(empty, -1, `${path}.props.empty`, scope))}
+          renderLoading={loading && (() => renderComponent(loading, -2, `${path}.props.loading`, scope))}
+          renderError={error && ((message: string) => renderComponent(
+            error, -3, `${path}.props.error`, { ...scope, error: { message } }
+          ))}
+        />
+      );
+    }
+
+    // Render regular components
+    const childElements = children.length > 0 
+      ? renderNodes(children, `${path}.children`, scope, getChildOrder(config, breakpoint))
+      : undefined;
+
+    const element = withFallback(
+      <Component
+        {...defaultProps}
+        className={className}
+        {...props}
+      >
+        {childElements}
+      </Component>
     );
-  }
 
-  // Error state
-  if (renderError) {
+    // Editable grids of a dashboard being edited get a toolbar and a widget catalogue
+    const editableGrid = editing ? getEditableGrid(config) : undefined;
+    if (!editableGrid) return element;
     return (
-      <div className={cn("min-h-screen flex items-center justify-center bg-background", className)}>
-        <div className="text-center max-w-md">
-          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
-          <h2 className="text-xl font-semibold text-foreground mb-2">
-            Layout Engine Error
-          </h2>
-          <p className="text-muted-foreground mb-4">
-            {renderError}
-          </p>
-          <Button 
-            onClick={() => {
-              setRenderError(null);
-              setIsInitialized(false);
-              setTimeout(() => setIsInitialized(true), 100);
-            }}
-            variant="outline"
-          >
-            <RefreshCw className="w-4 h-4 mr-2" />
-            Retry
-          </Button>
-        </div>
-      </div>
+      <DashboardGridEditor
+        grid={editableGrid}
+        catalogue={registry.widgets()}
+        onAdd={type => addDashboardWidget(editableGrid, type)}
+        onReset={() => updateOverlay(current => resetGrid(current, editableGrid.id))}
+      >
+        {element}
+      </DashboardGridEditor>
     );
+  };
+
+  buildRef.current = buildComponent;
+
+  // Loading state
+  if (!isInitialized) {
+    return <LayoutSkeleton className={className} />;
+  }
+
+  if (migration.error) {
+    return <LayoutErrorScreen title="Unsupported Metadata" message={migration.error.message} className={className} />;
   }
 
   // Validate metadata structure
   if (!metadata?.layout) {
     return (
-      <div className={cn("min-h-screen flex items-center justify-center bg-background", className)}>
-        <div className="text-center">
-          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
-          <h2 className="text-xl font-semibold text-foreground mb-2">
-            Invalid Metadata
-          </h2>
-          <p className="text-muted-foreground">
-            The provided metadata is missing required layout configuration.
-          </p>
-        </div>
-      </div>
+      <LayoutErrorScreen
+        title="Invalid Metadata"
+        message="The provided metadata is missing required layout configuration."
+        className={className}
+      />
     );
   }
 
-  console.log('[LayoutEngine] Rendering layout with metadata:', metadata);
+  if (page && !activePage) {
+    console.warn(`[LayoutEngine] Unknown page: ${page}`);
+  }
 
-  // Render the main layout
+  // Render the main layout; pages without a page shell render on their own
   return (
-    <div className={cn("w-full", className)}>
-      {renderComponent(metadata.layout, 0)}
-    </div>
+    <LayoutStateProvider
+      store={store}
+      runActions={(actions, event) => runActions(actions, { ...bindingScope, event }, actionHandlers)}
+    >
+      <div ref={containerRef} className={cn("w-full", className)}>
+        {activePage && metadata.layout.type !== 'page'
+          ? renderPageComponents()
+          : renderComponent(metadata.layout, 0, 'layout')}
+        {renderDialog()}
+      </div>
+    </LayoutStateProvider>
   );
 };
+
+/**
+ * LayoutEngine - The core component that dynamically renders the entire application
+ * based on JSON metadata configuration. This is the heart of the customizable engine.
+ * It needs no providers: outside a router, e.g. embedded in another app, its navigation
+ * stays in memory; without an AuthProvider nobody is signed in, and without a
+ * ThemeProvider the theme is light.
+ */
+export const LayoutEngine = (props: LayoutEngineProps) => {
+  const inRouter = useInRouterContext();
+  return inRouter ? <LayoutRenderer {...props} /> : <MemoryRouter><LayoutRenderer {...props} /></MemoryRouter>;
+};
@@ -0,0 +1,25 @@
+import { AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface LayoutErrorScreenProps {
+  title: string;
+  message: string;
+  className?: string;
+}
+
+/**
+ * LayoutErrorScreen - Shown in place of a layout that cannot be rendered at all
+ */
+export const LayoutErrorScreen = ({ title, message, className }: LayoutErrorScreenProps) => (
+  <div className={cn("min-h-screen flex items-center justify-center bg-background", className)}>
+    <div className="text-center">
+      <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+      <h2 className="text-xl font-semibold text-foreground mb-2">
+        {title}
+      </h2>
+      <p className="text-muted-foreground">
+        {message}
+      </p>
+    </div>
+  </div>
+);
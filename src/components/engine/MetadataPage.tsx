@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { LayoutEngine } from './LayoutEngine';
+import type { LayoutMetadata } from '@/lib/engine/types';
+import type { ComponentRegistry } from '@/lib/engine/registry';
+import type { DocumentRegistry } from '@/lib/engine/documents';
+
+interface MetadataPageProps {
+  metadata: LayoutMetadata;
+  pageId: string;
+  onError?: (error: Error) => void;
+  registry?: ComponentRegistry;
+  documents?: DocumentRegistry;
+}
+
+/**
+ * MetadataPage - Renders one entry of metadata.pages for the current route
+ * Route params are passed to the engine so {name} placeholders in props resolve
+ */
+export const MetadataPage = ({ metadata, pageId, ...engineProps }: MetadataPageProps) => {
+  const params = useParams();
+  const title = metadata.pages?.[pageId]?.title;
+
+  useEffect(() => {
+    if (!title) return;
+    const previousTitle = document.title;
+    document.title = title;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [title]);
+
+  return <LayoutEngine metadata={metadata} page={pageId} params={params} {...engineProps} />;
+};
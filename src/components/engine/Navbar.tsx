@@ -1,5 +1,6 @@
 import { Button } from '@/components/ui/button';
-import { useTheme } from '@/contexts/ThemeContext';
+import { useOptionalTheme } from '@/contexts/ThemeContext';
+import { cn } from '@/lib/utils';
 import { Moon, Sun, Settings, Bell } from 'lucide-react';
 
 interface NavbarProps {
@@ -9,8 +10,10 @@ interface NavbarProps {
   actions?: Array<{
     icon: string;
     label: string;
-    onClick: () => void;
+    /** Handler, created by the engine from the action's onClick actions */
+    onClick?: () => void;
   }>;
+  className?: string;
 }
 
 /**
@@ -21,12 +24,14 @@ export const Navbar = ({
   title = "Engine Dashboard",
   showThemeToggle = true,
   showNotifications = true,
-  actions = []
+  actions = [],
+  className
 }: NavbarProps) => {
-  const { isDarkMode, toggleTheme } = useTheme();
+  // Without a ThemeProvider there is no theme to switch
+  const theme = useOptionalTheme();
 
   return (
-    <nav className="h-16 border-b border-border bg-engine-surface backdrop-blur-sm sticky top-0 z-50">
+    <nav className={cn("h-16 border-b border-border bg-engine-surface backdrop-blur-sm sticky top-0 z-50", className)}>
       <div className="h-full px-6 flex items-center justify-between">
         {/* Left side - Title */}
         <div className="flex items-center space-x-4">
@@ -43,7 +48,7 @@ export const Navbar = ({
               key={index}
               variant="ghost"
               size="sm"
-              onClick={action.onClick}
+              onClick={() => action.onClick?.()}
               className="text-engine-text-secondary hover:text-engine-text-primary hover:bg-secondary/50"
             >
               <Settings className="w-4 h-4" />
@@ -64,14 +69,14 @@ export const Navbar = ({
           )}
 
           {/* Theme toggle */}
-          {showThemeToggle && (
+          {showThemeToggle && theme && (
             <Button
               variant="ghost"
               size="sm"
-              onClick={toggleTheme}
+              onClick={theme.toggleTheme}
               className="text-engine-text-secondary hover:text-engine-text-primary hover:bg-secondary/50"
             >
-              {isDarkMode ? (
+              {theme.isDarkMode ? (
                 <Sun className="w-4 h-4" />
               ) : (
                 <Moon className="w-4 h-4" />
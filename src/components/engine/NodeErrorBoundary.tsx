@@ -0,0 +1,96 @@
+import { Component, ErrorInfo, Fragment, ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { NodeRenderError } from '@/lib/engine/errors';
+
+interface NodeErrorBoundaryProps {
+  nodeId?: string;
+  nodeType: string;
+  /** JSON path of the node, included in the error report */
+  path: string;
+  onError?: (error: NodeRenderError) => void;
+  /** A failed node renders again once any of these change, e.g. its config */
+  resetKeys?: unknown[];
+  children: ReactNode;
+}
+
+interface NodeErrorBoundaryState {
+  error: NodeRenderError | null;
+  attempt: number;
+}
+
+/**
+ * NodeErrorBoundary - Isolates rendering failures to a single metadata node
+ * A broken node shows a local fallback with retry while the rest of the layout keeps working
+ */
+export class NodeErrorBoundary extends Component<NodeErrorBoundaryProps, NodeErrorBoundaryState> {
+  state: NodeErrorBoundaryState = { error: null, attempt: 0 };
+
+  static getDerivedStateFromError(error: unknown): Partial<NodeErrorBoundaryState> {
+    // Node details are attached in componentDidCatch, which has access to props
+    return { error: error instanceof NodeRenderError ? error : new NodeRenderError(error, { type: 'unknown', path: '' }) };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    const { nodeId, nodeType, path, onError } = this.props;
+    const report = new NodeRenderError(error, {
+      id: nodeId,
+      type: nodeType,
+      path,
+      componentStack: info.componentStack ?? undefined
+    });
+
+    console.error(`[LayoutEngine] ${report.message}`, error);
+    this.setState({ error: report });
+    onError?.(report);
+  }
+
+  componentDidUpdate(prevProps: NodeErrorBoundaryProps, prevState: NodeErrorBoundaryState) {
+    // Only an error shown before this update is cleared; the update may be the one that failed
+    if (!this.state.error || !prevState.error) return;
+    const { resetKeys = [] } = this.props;
+    const { resetKeys: previousKeys = [] } = prevProps;
+    const changed = resetKeys.length !== previousKeys.length || resetKeys.some((key, index) => !Object.is(key, previousKeys[index]));
+    if (changed) {
+      this.handleRetry();
+    }
+  }
+
+  /**
+   * Clear the error and remount the node's subtree
+   */
+  handleRetry = () => {
+    this.setState(({ attempt }) => ({ error: null, attempt: attempt + 1 }));
+  };
+
+  render() {
+    const { error, attempt } = this.state;
+
+    if (error) {
+      const cause = error.cause instanceof Error ? error.cause.message : String(error.cause);
+
+      return (
+        <div className="p-4 border border-destructive rounded-lg bg-destructive/5">
+          <div className="flex items-center text-destructive mb-2">
+            <AlertCircle className="w-4 h-4 mr-2" />
+            Rendering Error
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {cause || 'Failed to render component'}
+          </p>
+          <p className="text-xs text-engine-text-tertiary mt-1">
+            {this.props.nodeType}{this.props.nodeId ? ` "${this.props.nodeId}"` : ''} at <code>{this.props.path}</code>
+          </p>
+          <Button variant="outline" size="sm" onClick={this.handleRetry} className="mt-3">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      );
+    }
+
+    // Keyed on the attempt so that a retry remounts the subtree with fresh state
+    return <Fragment key={attempt}>{this.props.children}</Fragment>;
+  }
+}
+
@@ -1,12 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Skeleton } from '@/components/ui/skeleton';
 import { dataService } from '@/services/DataService';
+import { useDataRefresh } from '@/hooks/use-data-refresh';
 import { Calendar, Users, DollarSign, AlertCircle, CheckCircle2, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ProjectListSkeleton } from './skeletons';
 
 interface Project {
   id: string;
@@ -26,6 +27,10 @@ interface ProjectListProps {
   className?: string;
   limit?: number;
   showActions?: boolean;
+  /** Called with the project when its "View Details" button is clicked */
+  onViewDetails?: (project: Project) => void;
+  /** Called with the project when its "View Updates" button is clicked */
+  onViewUpdates?: (project: Project) => void;
 }
 
 /**
@@ -35,17 +40,19 @@ export const ProjectList = ({
   dataUrl = '/projects', 
   className,
   limit,
-  showActions = true 
+  showActions = true,
+  onViewDetails,
+  onViewUpdates
 }: ProjectListProps) => {
-  const [projects, setProjects] = useState<Project[]>([]);
+  // Data already in the cache shows at once, e.g. when rendering static HTML
+  const [projects, setProjects] = useState<Project[]>(() => {
+    const cached = dataUrl ? dataService.peek<Project[]>(dataUrl) : undefined;
+    return Array.isArray(cached) ? (limit ? cached.slice(0, limit) : cached) : [];
+  });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchProjects();
-  }, [dataUrl]);
-
-  const fetchProjects = async () => {
+  const fetchProjects = useCallback(async () => {
     if (!dataUrl) return;
 
     setLoading(true);
@@ -60,7 +67,13 @@ export const ProjectList = ({
     } finally {
       setLoading(false);
     }
-  };
+  }, [dataUrl, limit]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  useDataRefresh(dataUrl, fetchProjects);
 
   const getStatusConfig = (status: string) => {
     switch (status) {
@@ -95,23 +108,7 @@ export const ProjectList = ({
   };
 
   if (loading) {
-    return (
-      <div className={cn("space-y-4", className)}>
-        {Array.from({ length: limit || 3 }).map((_, i) => (
-          <Card key={i} className="animate-pulse">
-            <CardHeader>
-              <Skeleton className="h-6 w-3/4" />
-              <Skeleton className="h-4 w-1/2" />
-            </CardHeader>
-            <CardContent>
-              <Skeleton className="h-4 w-full mb-2" />
-              <Skeleton className="h-4 w-2/3 mb-4" />
-              <Skeleton className="h-3 w-full" />
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-    );
+    return <ProjectListSkeleton limit={limit} className={className} />;
   }
 
   if (error) {
@@ -204,10 +201,10 @@ export const ProjectList = ({
               {/* Actions */}
               {showActions && (
                 <div className="flex space-x-2 pt-2">
-                  <Button variant="outline" size="sm">
+                  <Button variant="outline" size="sm" onClick={() => onViewDetails?.(project)}>
                     View Details
                   </Button>
-                  <Button variant="ghost" size="sm">
+                  <Button variant="ghost" size="sm" onClick={() => onViewUpdates?.(project)}>
                     View Updates
                   </Button>
                 </div>
@@ -1,11 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Skeleton } from '@/components/ui/skeleton';
 import { dataService } from '@/services/DataService';
+import { useDataRefresh } from '@/hooks/use-data-refresh';
 import { Calendar, User, MessageSquare, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ProjectUpdatesSkeleton } from './skeletons';
 
 interface ProjectUpdate {
   id: string;
@@ -27,6 +28,10 @@ interface ProjectUpdatesProps {
   limit?: number;
   projectId?: string;
   showActions?: boolean;
+  /** Called with the update when its "Comment" button is clicked */
+  onComment?: (update: ProjectUpdate) => void;
+  /** Called with the update when its "View Details" button is clicked */
+  onViewDetails?: (update: ProjectUpdate) => void;
 }
 
 /**
@@ -37,18 +42,21 @@ export const ProjectUpdates = ({
   className,
   limit,
   projectId,
-  showActions = true 
+  showActions = true,
+  onComment,
+  onViewDetails
 }: ProjectUpdatesProps) => {
-  const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
+  const updatesUrl = dataUrl || (projectId ? `/projects/${projectId}/updates` : '/updates');
+
+  // Data already in the cache shows at once, e.g. when rendering static HTML
+  const [updates, setUpdates] = useState<ProjectUpdate[]>(() => {
+    const cached = dataService.peek<ProjectUpdate[]>(updatesUrl);
+    return Array.isArray(cached) ? (limit ? cached.slice(0, limit) : cached) : [];
+  });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const url = dataUrl || (projectId ? `/projects/${projectId}/updates` : '/updates');
-    fetchUpdates(url);
-  }, [dataUrl, projectId]);
-
-  const fetchUpdates = async (url: string) => {
+  const fetchUpdates = useCallback(async (url: string) => {
     if (!url) return;
 
     setLoading(true);
@@ -63,7 +71,13 @@ export const ProjectUpdates = ({
     } finally {
       setLoading(false);
     }
-  };
+  }, [limit]);
+
+  useEffect(() => {
+    fetchUpdates(updatesUrl);
+  }, [fetchUpdates, updatesUrl]);
+
+  useDataRefresh(updatesUrl, () => fetchUpdates(updatesUrl));
 
   const getTypeConfig = (type: string) => {
     switch (type) {
@@ -116,25 +130,7 @@ export const ProjectUpdates = ({
   };
 
   if (loading) {
-    return (
-      <div className={cn("space-y-4", className)}>
-        {Array.from({ length: limit || 3 }).map((_, i) => (
-          <Card key={i} className="animate-pulse">
-            <CardHeader>
-              <Skeleton className="h-6 w-3/4" />
-              <div className="flex space-x-2">
-                <Skeleton className="h-5 w-20" />
-                <Skeleton className="h-5 w-16" />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Skeleton className="h-4 w-full mb-2" />
-              <Skeleton className="h-4 w-2/3" />
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-    );
+    return <ProjectUpdatesSkeleton limit={limit} className={className} />;
   }
 
   if (error) {
@@ -144,10 +140,7 @@ export const ProjectUpdates = ({
           <AlertCircle className="h-8 w-8 text-destructive mx-auto mb-2" />
           <p className="text-destructive mb-2">Failed to load updates</p>
           <p className="text-sm text-muted-foreground mb-4">{error}</p>
-          <Button variant="outline" onClick={() => {
-            const url = dataUrl || (projectId ? `/projects/${projectId}/updates` : '/updates');
-            fetchUpdates(url);
-          }}>
+          <Button variant="outline" onClick={() => fetchUpdates(updatesUrl)}>
             Retry
           </Button>
         </CardContent>
@@ -224,10 +217,10 @@ export const ProjectUpdates = ({
               {/* Actions */}
               {showActions && (
                 <div className="flex space-x-2 pt-2">
-                  <Button variant="outline" size="sm">
+                  <Button variant="outline" size="sm" onClick={() => onComment?.(update)}>
                     Comment
                   </Button>
-                  <Button variant="ghost" size="sm">
+                  <Button variant="ghost" size="sm" onClick={() => onViewDetails?.(update)}>
                     View Details
                   </Button>
                 </div>
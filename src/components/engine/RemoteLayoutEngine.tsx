@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { LayoutEngine, LayoutEngineProps, LayoutMetadata } from './LayoutEngine';
+import { LayoutErrorScreen } from './LayoutErrorScreen';
+import { LayoutSkeleton } from './skeletons';
+import { useRemoteMetadata } from '@/hooks/use-remote-metadata';
+import { useComponentRegistry } from '@/hooks/use-component-registry';
+import type { MetadataLoadResult, MetadataSource } from '@/services/MetadataService';
+
+interface RemoteLayoutEngineProps extends Omit<LayoutEngineProps, 'metadata'> {
+  /** URL of the document, or name of a layout stored on the backend */
+  source: MetadataSource;
+  /** Document to render when neither the backend nor the cache has a valid one */
+  fallback?: LayoutMetadata;
+  /** Called once a document was loaded, with where it came from */
+  onLoad?: (result: MetadataLoadResult) => void;
+}
+
+/**
+ * RemoteLayoutEngine - Renders a layout document loaded from a URL or by name from the backend
+ * Documents are validated before they are used; when the backend fails, the last valid
+ * version and then the bundled fallback are rendered instead
+ */
+export const RemoteLayoutEngine = ({ source, fallback, onLoad, ...engineProps }: RemoteLayoutEngineProps) => {
+  const contextRegistry = useComponentRegistry();
+  const { className, documents, registry, onError } = engineProps;
+
+  const remote = useRemoteMetadata(source, {
+    fallback,
+    documents,
+    resolver: registry ?? contextRegistry
+  });
+
+  // Callbacks are read when used, so that passing new ones does not report a load again
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (remote.status === 'ready') {
+      onLoadRef.current?.(remote.result);
+    } else if (remote.status === 'error') {
+      console.error('[RemoteLayoutEngine]', remote.error.message);
+      onErrorRef.current?.(remote.error);
+    }
+  }, [remote]);
+
+  if (remote.status === 'loading') {
+    return <LayoutSkeleton className={className} />;
+  }
+
+  if (remote.status === 'error') {
+    return <LayoutErrorScreen title="Metadata Unavailable" message={remote.error.message} className={className} />;
+  }
+
+  // The loading skeleton was shown already
+  return <LayoutEngine immediate {...engineProps} metadata={remote.result.metadata} />;
+};
@@ -0,0 +1,150 @@
+import { Fragment, ReactNode, useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { dataService } from '@/services/DataService';
+import { useDataRefresh } from '@/hooks/use-data-refresh';
+import { AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RepeatProps {
+  /** Endpoint returning the items, either an array or an object with a data/items array */
+  dataUrl?: string;
+  /** Items bound from elsewhere, used when no dataUrl is given; undefined while loading */
+  items?: unknown;
+  limit?: number;
+  className?: string;
+  /** Renders the template node for one item */
+  renderItem: (item: unknown, index: number) => ReactNode;
+  /** Empty, loading and error slots; the built-in states are shown when omitted */
+  renderEmpty?: () => ReactNode;
+  renderLoading?: () => ReactNode;
+  renderError?: (message: string) => ReactNode;
+}
+
+/**
+ * Pick the item array out of a response
+ */
+const toItems = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object' && value !== null) {
+    const { data, items } = value as { data?: unknown; items?: unknown };
+    if (Array.isArray(data)) return data;
+    if (Array.isArray(items)) return items;
+  }
+  return [];
+};
+
+/**
+ * Key items by their id when they have one, so that reordering keeps their state
+ */
+const getItemKey = (item: unknown, index: number): string | number => {
+  const id = typeof item === 'object' && item !== null ? (item as { id?: unknown }).id : undefined;
+  return typeof id === 'string' || typeof id === 'number' ? id : index;
+};
+
+/**
+ * Repeat Component - Renders a template node once for every item of a data array
+ * The engine supplies the render functions, which expose each item to bindings
+ */
+export const Repeat = ({
+  dataUrl,
+  items,
+  limit,
+  className,
+  renderItem,
+  renderEmpty,
+  renderLoading,
+  renderError
+}: RepeatProps) => {
+  // Data already in the cache shows at once, e.g. when rendering static HTML
+  const [fetchedItems, setFetchedItems] = useState<unknown[]>(() => (dataUrl ? toItems(dataService.peek(dataUrl)) : []));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async (useCache: boolean = true) => {
+    if (!dataUrl) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await dataService.fetchData(dataUrl, useCache);
+      setFetchedItems(toItems(result));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load data');
+      console.error('Error fetching repeat items:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [dataUrl]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useDataRefresh(dataUrl, () => fetchItems());
+
+  if (loading || (!dataUrl && items === undefined)) {
+    if (renderLoading) return <>{renderLoading()}</>;
+
+    return (
+      <div className={cn("space-y-4", className)}>
+        {Array.from({ length: limit || 3 }).map((_, i) => (
+          <Card key={i} className="animate-pulse">
+            <CardHeader>
+              <Skeleton className="h-6 w-3/4" />
+              <Skeleton className="h-4 w-1/2" />
+            </CardHeader>
+            <CardContent>
+              <Skeleton className="h-4 w-full mb-2" />
+              <Skeleton className="h-4 w-2/3" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    if (renderError) return <>{renderError(error)}</>;
+
+    return (
+      <Card className={className}>
+        <CardContent className="pt-6 text-center">
+          <AlertCircle className="h-8 w-8 text-destructive mx-auto mb-2" />
+          <p className="text-destructive mb-2">Failed to load data</p>
+          <p className="text-sm text-muted-foreground mb-4">{error}</p>
+          <Button variant="outline" onClick={() => fetchItems(false)}>
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const allItems = dataUrl ? fetchedItems : toItems(items);
+  const visibleItems = limit ? allItems.slice(0, limit) : allItems;
+
+  if (visibleItems.length === 0) {
+    if (renderEmpty) return <>{renderEmpty()}</>;
+
+    return (
+      <Card className={className}>
+        <CardContent className="pt-6 text-center">
+          <p className="text-muted-foreground">No items found</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {visibleItems.map((item, index) => (
+        <Fragment key={getItemKey(item, index)}>
+          {renderItem(item, index)}
+        </Fragment>
+      ))}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { matchPath, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { 
@@ -13,9 +14,11 @@ import {
 } from 'lucide-react';
 
 interface SidebarItem {
-  id: string;
+  id?: string;
   label: string;
   icon: string;
+  /** Route to navigate to; the item is active while the route matches */
+  href?: string;
   active?: boolean;
   onClick?: () => void;
 }
@@ -24,6 +27,7 @@ interface SidebarProps {
   items?: SidebarItem[];
   collapsible?: boolean;
   defaultCollapsed?: boolean;
+  className?: string;
 }
 
 /**
@@ -40,9 +44,12 @@ export const Sidebar = ({
     { id: 'settings', label: 'Settings', icon: 'Settings' }
   ],
   collapsible = true,
-  defaultCollapsed = false
+  defaultCollapsed = false,
+  className
 }: SidebarProps) => {
   const [isCollapsed, setIsCollapsed] = useState(defaultCollapsed);
+  const navigate = useNavigate();
+  const location = useLocation();
 
   // Icon mapping for dynamic rendering
   const iconMap: Record<string, any> = {
@@ -55,15 +62,20 @@ export const Sidebar = ({
   };
 
   const handleItemClick = (item: SidebarItem) => {
-    console.log(`[Sidebar] Navigation to ${item.id}`);
+    console.log(`[Sidebar] Navigation to ${item.href ?? item.id}`);
     item.onClick?.();
+    if (item.href) navigate(item.href);
   };
 
+  const isItemActive = (item: SidebarItem) =>
+    item.active ?? (item.href ? !!matchPath(item.href, location.pathname) : false);
+
   return (
     <aside 
       className={cn(
         "h-screen bg-engine-surface border-r border-border transition-all duration-300 ease-in-out",
-        isCollapsed ? "w-16" : "w-64"
+        isCollapsed ? "w-16" : "w-64",
+        className
       )}
     >
       {/* Header with collapse toggle */}
@@ -86,17 +98,18 @@ export const Sidebar = ({
 
       {/* Navigation items */}
       <nav className="p-4 space-y-2">
-        {items.map((item) => {
+        {items.map((item, index) => {
           const IconComponent = iconMap[item.icon] || Home;
+          const active = isItemActive(item);
           
           return (
             <Button
-              key={item.id}
-              variant={item.active ? "secondary" : "ghost"}
+              key={item.id ?? item.href ?? index}
+              variant={active ? "secondary" : "ghost"}
               className={cn(
                 "w-full justify-start text-left transition-all duration-200",
                 isCollapsed ? "px-3" : "px-4",
-                item.active
+                active
                   ? "bg-primary/10 text-primary border border-primary/20 shadow-engine-sm"
                   : "text-engine-text-secondary hover:text-engine-text-primary hover:bg-secondary/50"
               )}
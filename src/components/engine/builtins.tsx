@@ -0,0 +1,46 @@
+import { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+interface PageLayoutProps {
+  navbar?: ReactNode;
+  sidebar?: ReactNode;
+  content?: ReactNode;
+  children?: ReactNode;
+  className?: string;
+}
+
+/**
+ * PageLayout - Application shell with optional navbar, sidebar and main content
+ * The engine renders the navbar, sidebar and content slots before passing them in
+ */
+export const PageLayout = ({ navbar, sidebar, content, children, className }: PageLayoutProps) => (
+  <div className={cn("min-h-screen flex flex-col bg-background", className)}>
+    {navbar}
+
+    <div className="flex flex-1 min-h-0">
+      {sidebar}
+
+      {/* Main content area */}
+      <main className="flex-1 overflow-auto">
+        {content}
+        {children}
+      </main>
+    </div>
+  </div>
+);
+
+/**
+ * Container - Plain wrapper used to group and lay out child nodes
+ */
+export const Container = ({ children, className, ...props }: { children?: ReactNode; className?: string }) => (
+  <div className={cn("w-full", className)} {...props}>
+    {children}
+  </div>
+);
+
+/**
+ * Text - A run of plain text, styled by its className or the node around it
+ */
+export const Text = ({ content, className }: { content: string; className?: string }) => (
+  <span className={className}>{content}</span>
+);
@@ -0,0 +1,66 @@
+import { PageLayout, Container, Text } from './builtins';
+import { Navbar } from './Navbar';
+import { Sidebar } from './Sidebar';
+import { Repeat } from './Repeat';
+import { Grid } from './Grid';
+import { CardSkeleton, ChartSkeleton, ProjectListSkeleton, ProjectUpdatesSkeleton } from './skeletons';
+import { ComponentRegistry } from '@/lib/engine/registry';
+import { componentPropSchemas } from '@/lib/engine/schema';
+
+/**
+ * Create a registry pre-populated with the engine's built-in component types
+ * Apps can register extra types on the returned registry or override these.
+ * The shell types load with the engine; content types, recharts included, are
+ * fetched the first time a document uses them.
+ */
+export const createDefaultRegistry = (): ComponentRegistry =>
+  new ComponentRegistry()
+    .register({ type: 'page', component: PageLayout, propSchema: componentPropSchemas.page, displayName: 'Page' })
+    .register({ type: 'container', component: Container, propSchema: componentPropSchemas.container, displayName: 'Container' })
+    .register({ type: 'text', component: Text, propSchema: componentPropSchemas.text, displayName: 'Text' })
+    .register({ type: 'grid', component: Grid, propSchema: componentPropSchemas.grid, displayName: 'Grid' })
+    .register({ type: 'navbar', component: Navbar, propSchema: componentPropSchemas.navbar, displayName: 'Navbar' })
+    .register({ type: 'sidebar', component: Sidebar, propSchema: componentPropSchemas.sidebar, displayName: 'Sidebar' })
+    .register({
+      type: 'card',
+      load: () => import('./Card').then(module => ({ default: module.Card })),
+      fallback: CardSkeleton,
+      propSchema: componentPropSchemas.card,
+      displayName: 'Card',
+      widget: { description: 'A metric or summary, optionally loaded from an endpoint', props: { title: 'New card' } }
+    })
+    .register({
+      type: 'chart',
+      load: () => import('./Chart').then(module => ({ default: module.Chart })),
+      fallback: ChartSkeleton,
+      propSchema: componentPropSchemas.chart,
+      displayName: 'Chart',
+      widget: {
+        description: 'Sales by month, as bars',
+        props: { title: 'New chart', chartType: 'bar', dataUrl: '/api/sales' },
+        colSpan: 2,
+        rowSpan: 2
+      }
+    })
+    .register({
+      type: 'projectList',
+      load: () => import('./ProjectList').then(module => ({ default: module.ProjectList })),
+      fallback: ProjectListSkeleton,
+      propSchema: componentPropSchemas.projectList,
+      displayName: 'Project List',
+      widget: { description: 'The most recent projects', props: { limit: 3 }, rowSpan: 3 }
+    })
+    .register({
+      type: 'projectUpdates',
+      load: () => import('./ProjectUpdates').then(module => ({ default: module.ProjectUpdates })),
+      fallback: ProjectUpdatesSkeleton,
+      propSchema: componentPropSchemas.projectUpdates,
+      displayName: 'Project Updates',
+      widget: { description: 'Latest updates across projects', props: { limit: 3 }, rowSpan: 3 }
+    })
+    .register({ type: 'repeat', component: Repeat, propSchema: componentPropSchemas.repeat, displayName: 'Repeat' });
+
+/**
+ * Shared registry used by every LayoutEngine that is not given its own
+ */
+export const defaultRegistry = createDefaultRegistry();
@@ -0,0 +1,46 @@
+import { ReactNode } from 'react';
+import { Route } from 'react-router-dom';
+import { MetadataPage } from './MetadataPage';
+import type { LayoutMetadata, PageConfig } from '@/lib/engine/types';
+import type { ComponentRegistry } from '@/lib/engine/registry';
+import type { DocumentRegistry } from '@/lib/engine/documents';
+import { composeMetadata } from '@/lib/engine/compose';
+import { migrateDocuments, migrateMetadata } from '@/lib/engine/migrations';
+import { toRouterPath } from '@/lib/engine/routing';
+
+interface PageRouteOptions {
+  /** Paths the app already routes itself, e.g. /login */
+  skipPaths?: string[];
+  /** Wrap each page element, e.g. in a ProtectedRoute */
+  wrap?: (element: ReactNode, page: PageConfig) => ReactNode;
+  onError?: (error: Error) => void;
+  registry?: ComponentRegistry;
+  /** Documents the metadata may extend or reference */
+  documents?: DocumentRegistry;
+}
+
+/**
+ * Generate react-router routes for every page declared in the metadata
+ * Use the result as children of <Routes>
+ * @param source - Document whose pages should be routed
+ * @param options - Paths to skip, element wrapper and engine props
+ * @returns One <Route> per page, including pages inherited through "extends"
+ */
+export const renderPageRoutes = (
+  source: LayoutMetadata,
+  { skipPaths = [], wrap = element => element, ...engineProps }: PageRouteOptions = {}
+) => {
+  const { documents } = engineProps;
+  // Upgrade the document as its references are, so the composition has one schema version throughout
+  const { metadata } = composeMetadata(migrateMetadata(source).metadata, documents && migrateDocuments(documents));
+
+  return Object.entries(metadata.pages ?? {})
+    .filter(([, page]) => !skipPaths.includes(page.path))
+    .map(([pageId, page]) => (
+      <Route
+        key={pageId}
+        path={toRouterPath(page.path)}
+        element={wrap(<MetadataPage metadata={metadata} pageId={pageId} {...engineProps} />, page)}
+      />
+    ));
+};
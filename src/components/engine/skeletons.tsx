@@ -0,0 +1,141 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TrendingUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * Skeletons - Loading placeholders of the engine components
+ * Components show them while their data loads; the registry shows them while
+ * a lazily loaded component's code is fetched, so both states look the same
+ */
+
+interface SkeletonProps {
+  title?: string;
+  description?: string;
+  limit?: number;
+  className?: string;
+}
+
+/**
+ * Body of a card whose data is loading
+ */
+export const CardContentSkeleton = () => (
+  <div className="space-y-3">
+    <Skeleton className="h-8 w-24" />
+    <Skeleton className="h-4 w-32" />
+    <Skeleton className="h-12 w-full" />
+  </div>
+);
+
+/**
+ * Body of a chart whose data is loading
+ */
+export const ChartContentSkeleton = () => (
+  <div className="space-y-3">
+    <Skeleton className="h-8 w-32" />
+    <Skeleton className="h-64 w-full" />
+  </div>
+);
+
+/**
+ * A whole card, with its title, while the card is loading
+ */
+export const CardSkeleton = ({ title, description, className }: SkeletonProps) => (
+  <Card className={cn("bg-engine-surface border-border shadow-engine-md", className)}>
+    <CardHeader className="pb-3">
+      <CardTitle className="text-lg font-semibold text-engine-text-primary">
+        {title}
+      </CardTitle>
+      {description && (
+        <CardDescription className="text-engine-text-secondary mt-1">
+          {description}
+        </CardDescription>
+      )}
+    </CardHeader>
+    <CardContent>
+      <CardContentSkeleton />
+    </CardContent>
+  </Card>
+);
+
+/**
+ * A whole chart, with its title, while the chart is loading
+ */
+export const ChartSkeleton = ({ title, className }: SkeletonProps) => (
+  <Card className={cn("bg-engine-surface border-border shadow-engine-md", className)}>
+    <CardHeader className="pb-3">
+      <CardTitle className="text-lg font-semibold text-engine-text-primary flex items-center">
+        <TrendingUp className="w-5 h-5 mr-2 text-primary" />
+        {title}
+      </CardTitle>
+    </CardHeader>
+    <CardContent>
+      <ChartContentSkeleton />
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Placeholder project cards, one per project the list will show
+ */
+export const ProjectListSkeleton = ({ limit, className }: SkeletonProps) => (
+  <div className={cn("space-y-4", className)}>
+    {Array.from({ length: limit || 3 }).map((_, i) => (
+      <Card key={i} className="animate-pulse">
+        <CardHeader>
+          <Skeleton className="h-6 w-3/4" />
+          <Skeleton className="h-4 w-1/2" />
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-4 w-full mb-2" />
+          <Skeleton className="h-4 w-2/3 mb-4" />
+          <Skeleton className="h-3 w-full" />
+        </CardContent>
+      </Card>
+    ))}
+  </div>
+);
+
+/**
+ * Placeholder update cards, one per update the list will show
+ */
+export const ProjectUpdatesSkeleton = ({ limit, className }: SkeletonProps) => (
+  <div className={cn("space-y-4", className)}>
+    {Array.from({ length: limit || 3 }).map((_, i) => (
+      <Card key={i} className="animate-pulse">
+        <CardHeader>
+          <Skeleton className="h-6 w-3/4" />
+          <div className="flex space-x-2">
+            <Skeleton className="h-5 w-20" />
+            <Skeleton className="h-5 w-16" />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-4 w-full mb-2" />
+          <Skeleton className="h-4 w-2/3" />
+        </CardContent>
+      </Card>
+    ))}
+  </div>
+);
+
+/**
+ * A whole layout, with its navbar, sidebar and a grid of cards, while the document is loading
+ */
+export const LayoutSkeleton = ({ className }: SkeletonProps) => (
+  <div className={cn("min-h-screen bg-background", className)}>
+    <div className="h-16 border-b border-border">
+      <Skeleton className="h-full w-full" />
+    </div>
+    <div className="flex">
+      <Skeleton className="w-64 h-screen" />
+      <div className="flex-1 p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {Array.from({ length: 6 }, (_, i) => (
+            <Skeleton key={i} className="h-48 w-full" />
+          ))}
+        </div>
+      </div>
+    </div>
+  </div>
+);
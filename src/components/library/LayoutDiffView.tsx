@@ -0,0 +1,82 @@
+import { Badge } from '@/components/ui/badge';
+import { useComponentRegistry } from '@/hooks/use-component-registry';
+import type { ComponentConfig } from '@/lib/engine/types';
+import type { LayoutDiff, NodeChangeKind, ValueChange } from '@/lib/engine/diff';
+import { cn } from '@/lib/utils';
+
+interface LayoutDiffViewProps {
+  diff: LayoutDiff;
+}
+
+const KIND_LABELS: Record<NodeChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400' },
+  removed: { label: 'Removed', className: 'bg-destructive/15 text-destructive' },
+  moved: { label: 'Moved', className: 'bg-sky-500/15 text-sky-700 dark:text-sky-400' },
+  changed: { label: 'Changed', className: 'bg-amber-500/15 text-amber-700 dark:text-amber-400' }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+};
+
+const ValueChanges = ({ changes }: { changes: ValueChange[] }) => (
+  <ul className="mt-1 space-y-0.5 font-mono text-xs">
+    {changes.map(change => (
+      <li key={change.path} className="flex flex-wrap gap-x-2">
+        <span className="text-muted-foreground">{change.path}</span>
+        <span className="text-destructive line-through">{formatValue(change.before)}</span>
+        <span aria-hidden>→</span>
+        <span className="text-emerald-700 dark:text-emerald-400">{formatValue(change.after)}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * LayoutDiffView - Lists what changed between two versions of a document
+ * Nodes are named the way the outline names them, by title or id and type
+ */
+export const LayoutDiffView = ({ diff }: LayoutDiffViewProps) => {
+  const registry = useComponentRegistry();
+
+  const describe = (node: ComponentConfig) => {
+    const title = typeof node.props?.title === 'string' ? node.props.title : undefined;
+    const type = registry.getDisplayName(node.type);
+    return title || node.id ? `${type} “${title || node.id}”` : type;
+  };
+
+  if (diff.nodes.length === 0 && diff.settings.length === 0) {
+    return <p className="text-sm text-muted-foreground">The two revisions are the same.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.nodes.length > 0 && (
+        <ul className="space-y-2" aria-label="Node changes">
+          {diff.nodes.map(change => (
+            <li key={`${change.kind}:${change.path}`} className="rounded-md border border-border px-3 py-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="secondary" className={cn('border-0', KIND_LABELS[change.kind].className)}>
+                  {KIND_LABELS[change.kind].label}
+                </Badge>
+                <span className="font-medium">{describe(change.node)}</span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {change.kind === 'moved' ? `${change.from} → ${change.path}` : change.path}
+                </span>
+              </div>
+              {change.changes.length > 0 && <ValueChanges changes={change.changes} />}
+            </li>
+          ))}
+        </ul>
+      )}
+      {diff.settings.length > 0 && (
+        <div className="rounded-md border border-border px-3 py-2">
+          <div className="text-sm font-medium">Settings</div>
+          <ValueChanges changes={diff.settings} />
+        </div>
+      )}
+    </div>
+  );
+};
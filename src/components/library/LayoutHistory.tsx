@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { RotateCcw } from 'lucide-react';
+import { layoutLibraryService } from '@/services/LayoutLibraryService';
+import type { LayoutRevision, SavedLayout } from '@/services/LayoutStorage';
+import { diffLayouts } from '@/lib/engine/diff';
+import { cn } from '@/lib/utils';
+import { LayoutDiffView } from './LayoutDiffView';
+
+interface LayoutHistoryProps {
+  /** Layout whose history is shown; the dialog is closed without one */
+  layout?: SavedLayout;
+  onClose: () => void;
+  /** Called with the layout after a revision was made its current version */
+  onRevert: (layout: SavedLayout) => void;
+}
+
+const describeRevision = (revision: LayoutRevision) =>
+  `${new Date(revision.createdAt).toLocaleString()} · ${revision.author?.name ?? 'Anonymous'}`;
+
+/**
+ * LayoutHistory - The revisions of a saved layout
+ * Any revision can be compared with any other, by default with the one before it,
+ * and made the current version again
+ */
+export const LayoutHistory = ({ layout, onClose, onRevert }: LayoutHistoryProps) => {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<LayoutRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string>();
+  const [baseId, setBaseId] = useState<string>();
+  const layoutId = layout?.id;
+
+  useEffect(() => {
+    setRevisions([]);
+    setSelectedId(undefined);
+    setBaseId(undefined);
+    if (!layoutId) return;
+    let cancelled = false;
+    const load = () => {
+      layoutLibraryService.listRevisions(layoutId).then(
+        listed => {
+          if (!cancelled) setRevisions(listed);
+        },
+        error => console.error('[LayoutHistory] Cannot load the revisions:', error)
+      );
+    };
+    load();
+    const unsubscribe = layoutLibraryService.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [layoutId]);
+
+  // The newest revision is the current version
+  const selectedIndex = Math.max(0, revisions.findIndex(revision => revision.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const base = revisions.find(revision => revision.id === baseId && revision !== selected) ?? revisions[selectedIndex + 1];
+
+  const diff = useMemo(() => (selected && base ? diffLayouts(base.metadata, selected.metadata) : undefined), [selected, base]);
+
+  const revert = async () => {
+    if (!layoutId || !selected) return;
+    try {
+      const reverted = await layoutLibraryService.revert(layoutId, selected.id);
+      if (!reverted) return;
+      setSelectedId(undefined);
+      setBaseId(undefined);
+      toast({ title: 'Layout reverted', description: describeRevision(selected) });
+      onRevert(reverted);
+    } catch (error) {
+      console.error('[LayoutHistory] Cannot revert the layout:', error);
+      toast({
+        title: 'Cannot revert the layout',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!layout} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>History of {layout?.name}</DialogTitle>
+          <DialogDescription>Every saved version, newest first. Pick one to see what it changed.</DialogDescription>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This layout has no recorded revisions yet.</p>
+        ) : (
+          <div className="grid grid-cols-[16rem_1fr] gap-4 min-h-0">
+            <ul className="max-h-[60vh] overflow-auto space-y-1" aria-label="Revisions">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    aria-current={revision === selected}
+                    className={cn(
+                      'w-full rounded-md px-3 py-2 text-left text-sm hover:bg-secondary/50',
+                      revision === selected && 'bg-primary/10 ring-1 ring-primary'
+                    )}
+                    onClick={() => {
+                      setSelectedId(revision.id);
+                      setBaseId(undefined);
+                    }}
+                  >
+                    <div className="font-medium">
+                      {revision.message ?? 'Saved'}
+                      {index === 0 && <span className="ml-2 text-xs text-primary">Current</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{describeRevision(revision)}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="max-h-[60vh] overflow-auto space-y-3 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <Label className="text-sm">Compared with</Label>
+                <Select value={base?.id ?? ''} onValueChange={setBaseId} disabled={revisions.length < 2}>
+                  <SelectTrigger className="w-72" aria-label="Revision to compare with">
+                    <SelectValue placeholder="Nothing before it" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.filter(revision => revision !== selected).map(revision => (
+                      <SelectItem key={revision.id} value={revision.id}>{describeRevision(revision)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" className="ml-auto" onClick={() => void revert()} disabled={selectedIndex === 0}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Revert to this revision
+                </Button>
+              </div>
+              {diff ? (
+                <LayoutDiffView diff={diff} />
+              ) : (
+                <p className="text-sm text-muted-foreground">This is the first revision; there is nothing to compare it with.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
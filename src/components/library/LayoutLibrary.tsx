@@ -0,0 +1,258 @@
+import { ChangeEvent, FormEvent, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Check, Copy, Download, FolderOpen, History, Link2, Pencil, Save, Trash2, Upload, X } from 'lucide-react';
+import type { LayoutMetadata } from '@/components/engine/LayoutEngine';
+import { useLayoutLibrary } from '@/hooks/use-layout-library';
+import { layoutLibraryService } from '@/services/LayoutLibraryService';
+import type { SavedLayout } from '@/services/LayoutStorage';
+import { createShareUrl } from '@/lib/engine/exchange';
+import { isEqual } from '@/lib/engine/patch';
+import { cn } from '@/lib/utils';
+import { LayoutHistory } from './LayoutHistory';
+
+interface LayoutLibraryProps {
+  /** The document shown now, which "Save" adds to the library */
+  metadata: LayoutMetadata;
+  /** Name suggested when saving it */
+  suggestedName?: string;
+  /** Saved layout the document was opened from, if any */
+  activeId?: string;
+  onOpen: (layout: SavedLayout) => void;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const download = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * LayoutLibrary - The user's saved layouts
+ * Layouts can be saved, opened, renamed, duplicated and deleted, exchanged as
+ * .json files, and shared as links that carry the whole document. Each layout
+ * keeps its revisions, which can be compared and reverted to.
+ */
+export const LayoutLibrary = ({ metadata, suggestedName, activeId, onOpen }: LayoutLibraryProps) => {
+  const { toast } = useToast();
+  const { layouts, loading, error } = useLayoutLibrary();
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string }>();
+  const [deleting, setDeleting] = useState<SavedLayout>();
+  const [historyOf, setHistoryOf] = useState<SavedLayout>();
+  const active = layouts.find(layout => layout.id === activeId);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Library changes are made by the user, so failures are reported to them
+  const run = async (title: string, action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      if (success) toast({ title: success });
+    } catch (reason) {
+      console.error(`[LayoutLibrary] ${title}:`, reason);
+      toast({ title, description: describeError(reason), variant: 'destructive' });
+    }
+  };
+
+  const save = (event: FormEvent) => {
+    event.preventDefault();
+    const layoutName = name.trim() || suggestedName || '';
+    void run('Cannot save the layout', async () => {
+      const saved = await layoutLibraryService.save(layoutName, metadata);
+      setName('');
+      onOpen(saved);
+    }, 'Layout saved');
+  };
+
+  const saveChanges = () => {
+    if (!active) return;
+    void run('Cannot save the layout', () => layoutLibraryService.save(active.name, metadata, active.id), 'Changes saved');
+  };
+
+  const rename = (event: FormEvent) => {
+    event.preventDefault();
+    if (!renaming) return;
+    const { id, name: newName } = renaming;
+    setRenaming(undefined);
+    void run('Cannot rename the layout', () => layoutLibraryService.rename(id, newName));
+  };
+
+  const importFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // The same file can be picked again, e.g. after fixing it
+    event.target.value = '';
+    files.forEach(file => {
+      void run(`Cannot import ${file.name}`, async () => {
+        const imported = await layoutLibraryService.import(await file.text(), file.name);
+        toast({ title: 'Layout imported', description: imported.name });
+      });
+    });
+  };
+
+  const exportLayout = (layout: SavedLayout) => {
+    const { fileName, content } = layoutLibraryService.export(layout);
+    download(fileName, content);
+  };
+
+  const share = (layout: SavedLayout) =>
+    run('Cannot copy the link', () => navigator.clipboard.writeText(createShareUrl(layout.metadata)), 'Link copied to the clipboard');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <form className="flex flex-1 items-end gap-2 min-w-64" onSubmit={save}>
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="layout-name" className="text-xs text-muted-foreground">Save the current layout as</Label>
+            <Input
+              id="layout-name"
+              value={name}
+              placeholder={suggestedName || 'Layout name'}
+              onChange={event => setName(event.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="outline">
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </form>
+        {active && (
+          <Button variant="outline" onClick={saveChanges} disabled={isEqual(active.metadata, metadata)}>
+            <Save className="w-4 h-4 mr-2" />
+            Save changes to {active.name}
+          </Button>
+        )}
+        <Button variant="outline" onClick={() => fileInput.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          multiple
+          className="hidden"
+          aria-label="Import layout files"
+          onChange={importFiles}
+        />
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">Cannot load the saved layouts: {error.message}</p>
+      ) : loading ? (
+        <p className="text-sm text-muted-foreground">Loading saved layouts…</p>
+      ) : layouts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved layouts yet. Save the current one, or import a .json file.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-lg border border-border" aria-label="Saved layouts">
+          {layouts.map(layout => (
+            <li
+              key={layout.id}
+              className={cn('flex items-center gap-2 px-3 py-2', layout.id === activeId && 'bg-primary/5')}
+            >
+              {renaming?.id === layout.id ? (
+                <form className="flex flex-1 items-center gap-1" onSubmit={rename}>
+                  <Input
+                    autoFocus
+                    aria-label="Layout name"
+                    value={renaming.name}
+                    onChange={event => setRenaming({ id: layout.id, name: event.target.value })}
+                    onKeyDown={event => {
+                      if (event.key === 'Escape') setRenaming(undefined);
+                    }}
+                  />
+                  <Button type="submit" variant="ghost" size="icon" aria-label="Confirm name">
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" aria-label="Cancel renaming" onClick={() => setRenaming(undefined)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-sm font-medium">{layout.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Changed {new Date(layout.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+              )}
+              <div className="flex items-center">
+                <Button variant="ghost" size="icon" aria-label={`Open ${layout.name}`} onClick={() => onOpen(layout)}>
+                  <FolderOpen className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Rename ${layout.name}`}
+                  onClick={() => setRenaming({ id: layout.id, name: layout.name })}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Duplicate ${layout.name}`}
+                  onClick={() => void run('Cannot duplicate the layout', () => layoutLibraryService.duplicate(layout.id))}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" aria-label={`History of ${layout.name}`} onClick={() => setHistoryOf(layout)}>
+                  <History className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" aria-label={`Export ${layout.name}`} onClick={() => exportLayout(layout)}>
+                  <Download className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" aria-label={`Share ${layout.name}`} onClick={() => void share(layout)}>
+                  <Link2 className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" aria-label={`Delete ${layout.name}`} onClick={() => setDeleting(layout)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <LayoutHistory layout={historyOf} onClose={() => setHistoryOf(undefined)} onRevert={onOpen} />
+
+      <AlertDialog open={!!deleting} onOpenChange={open => !open && setDeleting(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The layout is removed from the library. Export it first to keep a copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const layout = deleting;
+                if (layout) void run('Cannot delete the layout', () => layoutLibraryService.remove(layout.id), 'Layout deleted');
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -101,3 +101,8 @@ export const useAuth = () => {
   }
   return context;
 };
+
+/**
+ * Like useAuth, but undefined outside an AuthProvider, for components that also render without one
+ */
+export const useOptionalAuth = () => useContext(AuthContext);
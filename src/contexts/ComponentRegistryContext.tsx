@@ -0,0 +1,17 @@
+import { ComponentRegistry } from '@/lib/engine/registry';
+import { ComponentRegistryContext } from '@/hooks/use-component-registry';
+
+/**
+ * ComponentRegistryProvider - Supplies a component registry to every LayoutEngine below it
+ */
+export const ComponentRegistryProvider = ({
+  registry,
+  children
+}: {
+  registry: ComponentRegistry;
+  children: React.ReactNode;
+}) => (
+  <ComponentRegistryContext.Provider value={registry}>
+    {children}
+  </ComponentRegistryContext.Provider>
+);
@@ -0,0 +1,15 @@
+import { LayoutStateContext, LayoutStateContextType } from '@/hooks/use-layout-state';
+
+/**
+ * LayoutStateProvider - Supplies a layout's state store and action runner to its components
+ * LayoutEngine renders one around every layout
+ */
+export const LayoutStateProvider = ({
+  store,
+  runActions,
+  children
+}: LayoutStateContextType & { children: React.ReactNode }) => (
+  <LayoutStateContext.Provider value={{ store, runActions }}>
+    {children}
+  </LayoutStateContext.Provider>
+);
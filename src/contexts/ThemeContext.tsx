@@ -36,4 +36,8 @@ export const useTheme = () => {
     throw new Error('useTheme must be used within a ThemeProvider');
   }
   return context;
-};
\ No newline at end of file
+};
+/**
+ * Like useTheme, but undefined outside a ThemeProvider, for components that also render without one
+ */
+export const useOptionalTheme = () => useContext(ThemeContext);
@@ -0,0 +1,41 @@
+import type { ComponentConfig, LayoutMetadata } from '@/lib/engine/types';
+import { defineLayout, LayoutNode } from '@/lib/engine/define';
+
+/**
+ * Generate a large layout for rendering benchmarks: sections of plain cards,
+ * with no data fetching, so that timings measure the engine alone
+ * @param sections - Number of section containers
+ * @param cardsPerSection - Cards in each section
+ * @param label - Text appended to card titles; change it to change every card
+ * @returns A document with sections * (cardsPerSection + 1) + 1 nodes
+ */
+export const createBenchmarkLayout = (sections: number, cardsPerSection: number, label = ''): LayoutMetadata => defineLayout({
+  layout: {
+    type: 'container',
+    className: 'p-6 space-y-6',
+    children: Array.from({ length: sections }, (_, section): LayoutNode => ({
+      type: 'container',
+      id: `section-${section}`,
+      className: 'grid grid-cols-1 md:grid-cols-4 gap-4',
+      children: Array.from({ length: cardsPerSection }, (_, card): LayoutNode => ({
+        type: 'card',
+        props: {
+          title: `Card ${section}.${card}${label}`,
+          description: `Section ${section}`,
+          showActions: false
+        }
+      }))
+    }))
+  },
+  metadata: {
+    title: 'Benchmark',
+    description: 'Generated layout for rendering benchmarks',
+    version: '1.0.0'
+  }
+});
+
+/**
+ * Count the nodes of a generated layout
+ */
+export const countNodes = (node: ComponentConfig): number =>
+  1 + (node.children ?? []).reduce((total, child) => total + countNodes(child), 0);
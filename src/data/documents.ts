@@ -0,0 +1,17 @@
+import { DocumentRegistry } from '@/lib/engine/documents';
+import defaultMetadata from './metadata.json';
+import alternativeMetadata from './alternativeMetadata.json';
+import projectManagementMetadata from './project-management-metadata.json';
+import backendConnectedMetadata from './backend-connected-metadata.json';
+import dashboardMetadata from './dashboard-metadata.json';
+
+/**
+ * The bundled metadata documents, by the name other documents use in
+ * "extends" and "name#/..." references
+ */
+export const bundledDocuments = new DocumentRegistry()
+  .register('default', defaultMetadata)
+  .register('alternative', alternativeMetadata)
+  .register('project-management', projectManagementMetadata)
+  .register('backend-connected', backendConnectedMetadata)
+  .register('dashboard', dashboardMetadata);
@@ -0,0 +1,57 @@
+import * as React from "react"
+import { useNavigate } from "react-router-dom"
+import { toast } from "@/hooks/use-toast"
+import { dataService } from "@/services/DataService"
+import type { ActionHandlers } from "@/lib/engine/actions"
+import type { StateStore } from "@/lib/engine/state"
+import type { UrlSource } from "@/lib/engine/types"
+
+export interface OpenDialog {
+  id: string
+  data: unknown
+}
+
+interface ActionHandlerOptions {
+  store: StateStore
+  /** Node id -> data URL, for "refetch" actions that target a node */
+  dataUrls: Map<string, string>
+  /** Show a dialog, or close it with null */
+  setDialog: (dialog: OpenDialog | null) => void
+  /** Build the URL of an action's url or dataUrl, e.g. a reference to a named endpoint */
+  resolveUrl: (source: UrlSource) => string
+}
+
+/**
+ * Connect metadata actions to the router, the state store, the data service,
+ * the layout's dialogs and the toaster
+ */
+export function useActionHandlers({ store, dataUrls, setDialog, resolveUrl }: ActionHandlerOptions): ActionHandlers {
+  const navigate = useNavigate()
+
+  return React.useMemo<ActionHandlers>(() => ({
+    navigate: (to, replace) => {
+      if (/^https?:\/\//.test(to)) {
+        window.location.assign(to)
+      } else {
+        navigate(to, { replace })
+      }
+    },
+    getState: store.getSnapshot,
+    setState: (key, value) => store.set(key, value),
+    refetch: (target, dataUrl) => {
+      const url = dataUrl !== undefined ? resolveUrl(dataUrl) : target ? dataUrls.get(target) : undefined
+      if (!url) {
+        console.warn(target ? `[Actions] No node with id "${target}" fetches data` : "[Actions] A refetch action needs a target or a dataUrl")
+        return
+      }
+      // Invalidating makes every node showing this data fetch it again
+      dataService.clearCache(url)
+    },
+    request: async (url, options) => dataService.request(resolveUrl(url), options),
+    openDialog: (id, data) => setDialog({ id, data }),
+    closeDialog: () => setDialog(null),
+    toast: (options) => {
+      toast(options)
+    },
+  }), [navigate, store, dataUrls, setDialog, resolveUrl])
+}
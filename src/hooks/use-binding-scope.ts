@@ -0,0 +1,87 @@
+import * as React from "react"
+import { useOptionalAuth } from "@/contexts/AuthContext"
+import { useOptionalTheme } from "@/contexts/ThemeContext"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { dataService } from "@/services/DataService"
+import type { Breakpoint, LayoutMetadata } from "@/lib/engine/types"
+import type { BindingScope } from "@/lib/engine/expressions"
+import type { RouteParams } from "@/lib/engine/routing"
+import type { LayoutState } from "@/lib/engine/state"
+
+interface BindingScopeOptions {
+  metadata: LayoutMetadata
+  page?: string
+  params?: RouteParams
+  /** Overrides for the feature flags declared in metadata */
+  featureFlags?: Record<string, boolean>
+  /** Node id -> data URL, for nodes whose data other nodes can bind to */
+  dataUrls: Map<string, string>
+  /** Current page state */
+  state: LayoutState
+  /** Breakpoint the layout renders at */
+  breakpoint: Breakpoint
+}
+
+/**
+ * Data of every node that others can bind to, as currently cached
+ * @param version - Bumped whenever any of that data changes, so that it is read again
+ */
+function readNodeData(dataUrls: Map<string, string>, version: number): Record<string, unknown> {
+  const data: Record<string, unknown> = {}
+  dataUrls.forEach((url, nodeId) => {
+    data[nodeId] = dataService.peek(url)
+  })
+  return data
+}
+
+/**
+ * Build the variables available to {{ }} bindings and visibility rules:
+ * user, params, data (by node id), engine, screen, flags and state.
+ * The scope is rebuilt whenever one of those inputs changes, but not for changes
+ * elsewhere in the document, so that nodes whose inputs are unchanged can skip rendering.
+ * Screen size is exposed as the breakpoint, not as a width, so that resizing the window
+ * only rebuilds the scope when the layout crosses a breakpoint.
+ * Without an AuthProvider nobody is signed in; without a ThemeProvider the theme is light.
+ */
+export function useBindingScope({
+  metadata,
+  page,
+  params,
+  featureFlags,
+  dataUrls,
+  state,
+  breakpoint,
+}: BindingScopeOptions): BindingScope {
+  const user = useOptionalAuth()?.user ?? null
+  const isDarkMode = useOptionalTheme()?.isDarkMode ?? false
+  const isMobile = useIsMobile()
+
+  const [dataVersion, setDataVersion] = React.useState(0)
+
+  React.useEffect(() => {
+    const watched = new Set(dataUrls.values())
+    return dataService.subscribe((url) => {
+      if (url === "*" || watched.has(url)) {
+        setDataVersion((version) => version + 1)
+      }
+    })
+  }, [dataUrls])
+
+  const data = React.useMemo(() => readNodeData(dataUrls, dataVersion), [dataUrls, dataVersion])
+
+  return React.useMemo(() => {
+    return {
+      user,
+      params: params ?? {},
+      data,
+      engine: {
+        page: page ?? null,
+        title: metadata?.metadata?.title,
+        darkMode: isDarkMode,
+      },
+      screen: { isMobile, breakpoint },
+      flags: { ...metadata?.featureFlags, ...featureFlags },
+      state,
+    }
+  }, [user, params, page, metadata?.metadata?.title, metadata?.featureFlags, isDarkMode, isMobile, breakpoint, featureFlags, data, state])
+}
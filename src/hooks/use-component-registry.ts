@@ -0,0 +1,12 @@
+import * as React from "react"
+import type { ComponentRegistry } from "@/lib/engine/registry"
+import { defaultRegistry } from "@/components/engine/default-registry"
+
+export const ComponentRegistryContext = React.createContext<ComponentRegistry | undefined>(undefined)
+
+/**
+ * Get the nearest component registry, falling back to the built-in one
+ */
+export function useComponentRegistry() {
+  return React.useContext(ComponentRegistryContext) ?? defaultRegistry
+}
@@ -0,0 +1,22 @@
+import * as React from "react"
+
+/**
+ * Width of an element in pixels, updated as it resizes
+ * @returns A ref callback for the element, and its width once measured
+ */
+export function useContainerWidth<T extends HTMLElement>(): [(element: T | null) => void, number | undefined] {
+  const [element, setElement] = React.useState<T | null>(null)
+  const [width, setWidth] = React.useState<number>()
+
+  React.useEffect(() => {
+    if (!element) return
+    setWidth(element.getBoundingClientRect().width || undefined)
+    if (typeof ResizeObserver === "undefined") return
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [element])
+
+  return [setElement, width]
+}
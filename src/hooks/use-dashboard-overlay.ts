@@ -0,0 +1,50 @@
+import * as React from "react"
+import { useOptionalAuth } from "@/contexts/AuthContext"
+import { dashboardService } from "@/services/DashboardService"
+import type { DashboardOptions, DashboardOverlay } from "@/lib/engine/dashboard"
+
+/**
+ * The current user's arrangement of a customizable dashboard, and a way to change it
+ * Changes are saved as they are made; the stored arrangement is loaded again when
+ * the user or the dashboard changes. Without an AuthProvider it is the anonymous user's.
+ */
+export function useDashboardOverlay(dashboard?: DashboardOptions) {
+  const userId = useOptionalAuth()?.user?.id
+  const id = dashboard?.id
+  const syncUrl = dashboard?.syncUrl
+
+  const [overlay, setOverlay] = React.useState<DashboardOverlay | undefined>(() =>
+    id ? dashboardService.getLocal(id, userId) : undefined
+  )
+
+  // Editors derive each change from the latest arrangement, even between renders
+  const latest = React.useRef(overlay)
+  latest.current = overlay
+
+  React.useEffect(() => {
+    if (!id) {
+      setOverlay(undefined)
+      return
+    }
+    let cancelled = false
+    setOverlay(dashboardService.getLocal(id, userId))
+    dashboardService.load(id, userId, syncUrl).then(loaded => {
+      // Changes made while the backend answered win over what it sent
+      const current = latest.current
+      if (!cancelled && (!current || (loaded && loaded.updatedAt > current.updatedAt))) setOverlay(loaded)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [id, userId, syncUrl])
+
+  const update = React.useCallback((change: (overlay: DashboardOverlay | undefined) => DashboardOverlay) => {
+    if (!id) return
+    const next = change(latest.current)
+    latest.current = next
+    setOverlay(next)
+    void dashboardService.save(id, userId, next, syncUrl)
+  }, [id, userId, syncUrl])
+
+  return { overlay, update }
+}
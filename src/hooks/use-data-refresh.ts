@@ -0,0 +1,20 @@
+import * as React from "react"
+import { dataService } from "@/services/DataService"
+
+/**
+ * Call refetch whenever the cached data for url is invalidated,
+ * e.g. by a refresh button or a metadata "refetch" action
+ */
+export function useDataRefresh(url: string | undefined, refetch: () => void) {
+  const refetchRef = React.useRef(refetch)
+  refetchRef.current = refetch
+
+  React.useEffect(() => {
+    if (!url) return
+    return dataService.subscribe((changed, event) => {
+      if (event === "invalidate" && (changed === url || changed === "*")) {
+        refetchRef.current()
+      }
+    })
+  }, [url])
+}
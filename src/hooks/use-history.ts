@@ -0,0 +1,63 @@
+import * as React from "react"
+
+const MAX_ENTRIES = 100
+
+interface HistoryState<T> {
+  past: T[]
+  present: T
+  future: T[]
+  /** Group of the last change, which the next change of the same group is merged into */
+  group?: string
+}
+
+/**
+ * A value with undo and redo
+ * Changes of the same group in a row, such as the keystrokes typed into one field,
+ * are undone together
+ */
+export function useHistory<T>(initial: T) {
+  const [state, setState] = React.useState<HistoryState<T>>({ past: [], present: initial, future: [] })
+
+  const set = React.useCallback((next: T | ((current: T) => T), group?: string) => {
+    setState(current => {
+      const value = typeof next === "function" ? (next as (current: T) => T)(current.present) : next
+      if (Object.is(value, current.present)) return current
+      if (group !== undefined && group === current.group) return { ...current, present: value }
+      return {
+        past: [...current.past, current.present].slice(-MAX_ENTRIES),
+        present: value,
+        future: [],
+        group
+      }
+    })
+  }, [])
+
+  const undo = React.useCallback(() => {
+    setState(current => current.past.length === 0 ? current : {
+      past: current.past.slice(0, -1),
+      present: current.past[current.past.length - 1],
+      future: [current.present, ...current.future]
+    })
+  }, [])
+
+  const redo = React.useCallback(() => {
+    setState(current => current.future.length === 0 ? current : {
+      past: [...current.past, current.present],
+      present: current.future[0],
+      future: current.future.slice(1)
+    })
+  }, [])
+
+  /** Start over from a value, forgetting every change */
+  const reset = React.useCallback((value: T) => setState({ past: [], present: value, future: [] }), [])
+
+  return {
+    value: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  }
+}
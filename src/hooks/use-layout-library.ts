@@ -0,0 +1,41 @@
+import * as React from "react"
+import { layoutLibraryService } from "@/services/LayoutLibraryService"
+import type { SavedLayout } from "@/services/LayoutStorage"
+
+/**
+ * The layouts saved in the library, listed again whenever the library changes
+ */
+export function useLayoutLibrary() {
+  const [layouts, setLayouts] = React.useState<SavedLayout[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<Error>()
+
+  React.useEffect(() => {
+    // Only the answer to the latest listing is kept
+    let request = 0
+    const load = () => {
+      const current = ++request
+      layoutLibraryService.list().then(
+        listed => {
+          if (current !== request) return
+          setLayouts(listed)
+          setError(undefined)
+          setLoading(false)
+        },
+        (reason: unknown) => {
+          if (current !== request) return
+          setError(reason instanceof Error ? reason : new Error(String(reason)))
+          setLoading(false)
+        }
+      )
+    }
+    load()
+    const unsubscribe = layoutLibraryService.subscribe(load)
+    return () => {
+      request++
+      unsubscribe()
+    }
+  }, [])
+
+  return { layouts, loading, error }
+}
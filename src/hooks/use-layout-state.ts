@@ -0,0 +1,37 @@
+import * as React from "react"
+import type { ActionList } from "@/lib/engine/types"
+import type { StateStore } from "@/lib/engine/state"
+
+export interface LayoutStateContextType {
+  store: StateStore
+  /** Run metadata actions in the scope of the layout, with an optional event payload */
+  runActions: (actions: ActionList, event?: unknown) => Promise<boolean>
+}
+
+export const LayoutStateContext = React.createContext<LayoutStateContextType | undefined>(undefined)
+
+function useLayoutStateContext() {
+  const context = React.useContext(LayoutStateContext)
+  if (context === undefined) {
+    throw new Error("Layout state is only available to components rendered by a LayoutEngine")
+  }
+  return context
+}
+
+/**
+ * Read and write a key of the page state, like useState
+ * The value is shared with every other node reading state.<key>
+ */
+export function useLayoutState<T = unknown>(key: string) {
+  const { store } = useLayoutStateContext()
+  const state = React.useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+  const setValue = React.useCallback((value: T) => store.set(key, value), [store, key])
+  return [state[key] as T | undefined, setValue] as const
+}
+
+/**
+ * Get a function that runs metadata actions, for custom components with their own events
+ */
+export function useLayoutActions() {
+  return useLayoutStateContext().runActions
+}
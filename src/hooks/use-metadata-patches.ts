@@ -0,0 +1,46 @@
+import * as React from "react"
+import { applyPatch, PatchOperation, PatchSource } from "@/lib/engine/patch"
+
+interface MetadataPatchOptions {
+  /** Patch applied on top of the current document each time a new array is passed */
+  patch?: PatchOperation[]
+  /** Source of patches applied as they arrive */
+  updates?: PatchSource
+  /** Called with the PatchError of a patch that could not be applied */
+  onError?: (error: Error) => void
+}
+
+/**
+ * Keep a document up to date with JSON Patches from a prop and/or a subscription
+ * Patches accumulate on top of source until a different source is passed, which
+ * starts over from it. A patch that fails leaves the document as it was.
+ */
+export function useMetadataPatches<T>(source: T, { patch, updates, onError }: MetadataPatchOptions): T {
+  const [patched, setPatched] = React.useState<{ source: T; document: T } | null>(null)
+  const document = patched?.source === source ? patched.document : source
+
+  // Patches arriving between renders apply on top of each other
+  const latest = React.useRef({ source, document })
+  latest.current = { source, document }
+  const onErrorRef = React.useRef(onError)
+  onErrorRef.current = onError
+
+  const apply = React.useCallback((operations: PatchOperation[]) => {
+    try {
+      const next = { source: latest.current.source, document: applyPatch(latest.current.document, operations) }
+      latest.current = next
+      setPatched(next)
+    } catch (error) {
+      console.warn("[LayoutEngine]", error instanceof Error ? error.message : error)
+      onErrorRef.current?.(error instanceof Error ? error : new Error(String(error)))
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (patch) apply(patch)
+  }, [patch, apply])
+
+  React.useEffect(() => updates?.subscribe(apply), [updates, apply])
+
+  return document
+}
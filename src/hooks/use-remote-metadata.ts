@@ -0,0 +1,40 @@
+import * as React from "react"
+import { metadataService, MetadataLoadOptions, MetadataLoadResult, MetadataSource } from "@/services/MetadataService"
+
+export type RemoteMetadata =
+  | { status: "loading" }
+  | { status: "ready"; result: MetadataLoadResult }
+  | { status: "error"; error: Error }
+
+/**
+ * Load a layout document from a URL or a layout name, with the cached and
+ * bundled versions as fallbacks; loads again whenever the source changes
+ */
+export function useRemoteMetadata(source: MetadataSource, options: MetadataLoadOptions = {}): RemoteMetadata {
+  const [remote, setRemote] = React.useState<RemoteMetadata>({ status: "loading" })
+  const optionsRef = React.useRef(options)
+  optionsRef.current = options
+
+  const url = "url" in source ? source.url : undefined
+  const name = "name" in source ? source.name : undefined
+
+  React.useEffect(() => {
+    let cancelled = false
+    setRemote({ status: "loading" })
+
+    metadataService
+      .load(url !== undefined ? { url } : { name: name ?? "" }, optionsRef.current)
+      .then(result => {
+        if (!cancelled) setRemote({ status: "ready", result })
+      })
+      .catch(error => {
+        if (!cancelled) setRemote({ status: "error", error: error instanceof Error ? error : new Error(String(error)) })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [url, name])
+
+  return remote
+}
@@ -0,0 +1,15 @@
+import * as React from "react"
+import { shareStructure } from "@/lib/engine/identity"
+
+/**
+ * Keep the parts of a value that did not change between renders identical,
+ * so that memoized consumers of an unchanged part skip their work
+ */
+export function useStructuralSharing<T>(value: T): T {
+  const previous = React.useRef<T>(value)
+
+  return React.useMemo(() => {
+    previous.current = shareStructure(previous.current, value)
+    return previous.current
+  }, [value])
+}
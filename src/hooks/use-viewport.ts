@@ -0,0 +1,19 @@
+import * as React from "react"
+
+/**
+ * Current window width in pixels, updated on resize
+ */
+export function useViewportWidth() {
+  const [width, setWidth] = React.useState<number>(() =>
+    typeof window === "undefined" ? 1024 : window.innerWidth
+  )
+
+  React.useEffect(() => {
+    const onResize = () => setWidth(window.innerWidth)
+    window.addEventListener("resize", onResize)
+    onResize()
+    return () => window.removeEventListener("resize", onResize)
+  }, [])
+
+  return width
+}
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ActionHandlers } from './actions';
+import { bindActions, collectActions, isActionKey, runActions } from './actions';
+import { StateStore } from './state';
+
+/** Handlers backed by a real state store, recording every other call */
+const createHandlers = (state = {}) => {
+  const store = new StateStore(state);
+  const handlers: ActionHandlers = {
+    navigate: vi.fn(),
+    getState: store.getSnapshot,
+    setState: (key, value) => store.set(key, value),
+    refetch: vi.fn(),
+    request: vi.fn(async () => ({ id: 7 })),
+    openDialog: vi.fn(),
+    closeDialog: vi.fn(),
+    toast: vi.fn()
+  };
+  return { store, handlers };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('isActionKey', () => {
+  it('matches on<Event> prop names only', () => {
+    expect(['onClick', 'onViewDetails'].every(isActionKey)).toBe(true);
+    expect(['on', 'once', 'onclick', 0].some(isActionKey)).toBe(false);
+  });
+});
+
+describe('runActions', () => {
+  it('runs a list in order, each action seeing the state the previous one wrote', async () => {
+    const { store, handlers } = createHandlers({ count: 1 });
+
+    const succeeded = await runActions([
+      { type: 'setState', key: 'count', value: '{{state.count + 1}}' },
+      { type: 'navigate', to: '/items/{{state.count}}?from={{params.page}}' }
+    ], { params: { page: 'home' } }, handlers);
+
+    expect(succeeded).toBe(true);
+    expect(store.get('count')).toBe(2);
+    expect(handlers.navigate).toHaveBeenCalledWith('/items/2?from=home', false);
+  });
+
+  it('stores API results and runs onSuccess with the result in scope', async () => {
+    const { store, handlers } = createHandlers();
+
+    await runActions({
+      type: 'callApi',
+      url: '/api/items',
+      method: 'POST',
+      body: { name: 'Item' },
+      resultKey: 'created',
+      onSuccess: { type: 'toast', title: 'Created {{result.id}}' }
+    }, {}, handlers);
+
+    expect(handlers.request).toHaveBeenCalledWith('/api/items', { method: 'POST', body: { name: 'Item' } });
+    expect(store.get('created')).toEqual({ id: 7 });
+    expect(handlers.toast).toHaveBeenCalledWith({ title: 'Created 7', description: undefined, variant: undefined });
+  });
+
+  it('stops at a failed request, running onError with the message or showing it', async () => {
+    const { handlers } = createHandlers();
+    vi.mocked(handlers.request).mockRejectedValue(new Error('Offline'));
+
+    expect(await runActions([
+      { type: 'callApi', url: '/api/items', onError: { type: 'setState', key: 'failure', value: '{{error.message}}' } },
+      { type: 'closeDialog' }
+    ], {}, handlers)).toBe(false);
+    expect(handlers.getState()).toEqual({ failure: 'Offline' });
+    expect(handlers.closeDialog).not.toHaveBeenCalled();
+
+    await runActions({ type: 'callApi', url: '/api/items' }, {}, handlers);
+    expect(handlers.toast).toHaveBeenCalledWith({ title: 'Request failed', description: 'Offline', variant: 'destructive' });
+  });
+
+  it('refetches a node or a URL, and refuses to refetch without either', async () => {
+    const { handlers } = createHandlers();
+
+    await runActions([{ type: 'refetch', target: 'sales' }, { type: 'refetch', dataUrl: '/api/sales' }], {}, handlers);
+    expect(handlers.refetch).toHaveBeenNthCalledWith(1, 'sales', undefined);
+    expect(handlers.refetch).toHaveBeenNthCalledWith(2, undefined, '/api/sales');
+
+    expect(await runActions({ type: 'refetch' }, {}, handlers)).toBe(false);
+    expect(handlers.refetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at unknown action types', async () => {
+    const { handlers } = createHandlers();
+
+    expect(await runActions([{ type: 'launch' } as never, { type: 'closeDialog' }], {}, handlers)).toBe(false);
+    expect(handlers.closeDialog).not.toHaveBeenCalled();
+  });
+});
+
+describe('bindActions', () => {
+  it('replaces action lists at any depth with handlers, leaving other values', () => {
+    const bind = vi.fn(() => () => undefined);
+    const props = { title: 'Sales', onClick: { type: 'closeDialog' }, items: [{ label: 'Open', onSelect: [{ type: 'closeDialog' }] }] };
+
+    const bound = bindActions(props, bind);
+
+    expect(bound.title).toBe('Sales');
+    expect(typeof bound.onClick).toBe('function');
+    expect(typeof bound.items[0].onSelect).toBe('function');
+    expect(bind).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('collectActions', () => {
+  it('finds every action list with its path', () => {
+    expect(collectActions({ onClick: { type: 'closeDialog' }, items: [{ onSelect: [] }] })).toEqual([
+      { actions: { type: 'closeDialog' }, path: ['onClick'] },
+      { actions: [], path: ['items', 0, 'onSelect'] }
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import type { ActionConfig, ActionList, UrlSource } from './types';
+import { BindingScope, resolveBindings } from './expressions';
+
+/**
+ * Actions - Declarative behaviour for metadata nodes
+ * Any prop named on<Event> holds an action or a list of actions. The engine turns it
+ * into a handler; the component calls the handler, optionally with an event payload.
+ */
+
+const ACTION_KEY = /^on[A-Z]/;
+
+/**
+ * Whether a prop name holds actions, e.g. onClick or onViewDetails
+ */
+export const isActionKey = (key: string | number): boolean =>
+  typeof key === 'string' && ACTION_KEY.test(key);
+
+/**
+ * What actions can do, supplied by the engine
+ */
+export interface ActionHandlers {
+  navigate: (to: string, replace: boolean) => void;
+  getState: () => Record<string, unknown>;
+  setState: (key: string, value: unknown) => void;
+  /** URLs may be endpoint references, resolved against the document's apiEndpoints */
+  refetch: (target?: string, dataUrl?: UrlSource) => void;
+  request: (url: UrlSource, options: { method?: ApiMethod; body?: unknown }) => Promise<unknown>;
+  openDialog: (dialog: string, data: unknown) => void;
+  closeDialog: () => void;
+  toast: (options: { title: string; description?: string; variant?: 'default' | 'destructive' }) => void;
+}
+
+export type ActionHandler = (event?: unknown) => void;
+
+type ApiMethod = Extract<ActionConfig, { type: 'callApi' }>['method'];
+
+/**
+ * Resolve the bindings of an action's own fields
+ * Nested action lists (onSuccess, onError) are resolved when they run, in their own scope
+ */
+const resolveActionFields = <T extends ActionConfig>(action: T, scope: BindingScope): T =>
+  Object.fromEntries(
+    Object.entries(action).map(([key, value]) => [key, isActionKey(key) ? value : resolveBindings(value, scope)])
+  ) as T;
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Run a single action
+ * @returns Whether the action succeeded; a failure stops the rest of its list
+ */
+const runAction = async (
+  action: ActionConfig,
+  scope: BindingScope,
+  handlers: ActionHandlers
+): Promise<boolean> => {
+  // Read state afresh so that each action sees what the previous one wrote
+  const resolved = resolveActionFields(action, { ...scope, state: handlers.getState() });
+
+  switch (resolved.type) {
+    case 'navigate':
+      handlers.navigate(String(resolved.to), resolved.replace ?? false);
+      return true;
+
+    case 'setState':
+      handlers.setState(resolved.key, resolved.value);
+      return true;
+
+    case 'refetch':
+      // Validation reports these; dropping all data is never what such an action meant
+      if (resolved.target === undefined && resolved.dataUrl === undefined) {
+        console.warn('[Actions] A refetch action needs a target or a dataUrl');
+        return false;
+      }
+      handlers.refetch(resolved.target, resolved.dataUrl);
+      return true;
+
+    case 'callApi': {
+      let result: unknown;
+      try {
+        result = await handlers.request(resolved.url, { method: resolved.method, body: resolved.body });
+      } catch (error) {
+        const message = errorMessage(error);
+        if (resolved.onError) {
+          await runActions(resolved.onError, { ...scope, error: { message } }, handlers);
+        } else {
+          handlers.toast({ title: 'Request failed', description: message, variant: 'destructive' });
+        }
+        return false;
+      }
+
+      if (resolved.resultKey) handlers.setState(resolved.resultKey, result);
+      return resolved.onSuccess ? runActions(resolved.onSuccess, { ...scope, result }, handlers) : true;
+    }
+
+    case 'openDialog':
+      handlers.openDialog(resolved.dialog, resolved.data);
+      return true;
+
+    case 'closeDialog':
+      handlers.closeDialog();
+      return true;
+
+    case 'toast':
+      handlers.toast({ title: String(resolved.title), description: resolved.description, variant: resolved.variant });
+      return true;
+
+    default:
+      console.warn(`[Actions] Unknown action type: ${(resolved as { type?: unknown }).type}`);
+      return false;
+  }
+};
+
+/**
+ * Run an action list in order, stopping at the first failure
+ * @param actions - One action or a list of actions
+ * @param scope - Variables the actions' bindings can read
+ * @param handlers - Engine operations the actions call
+ * @returns Whether every action succeeded
+ */
+export const runActions = async (
+  actions: ActionList,
+  scope: BindingScope,
+  handlers: ActionHandlers
+): Promise<boolean> => {
+  for (const action of Array.isArray(actions) ? actions : [actions]) {
+    try {
+      if (!(await runAction(action, scope, handlers))) return false;
+    } catch (error) {
+      console.error(`[Actions] "${action?.type}" action failed:`, error);
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Replace every action list in a props object with a handler
+ * @param value - Props, or any value nested inside them
+ * @param bind - Creates the handler for an action list
+ * @returns A copy of the value with handlers in place of actions
+ */
+export const bindActions = <T>(value: T, bind: (actions: ActionList) => ActionHandler): T => {
+  if (Array.isArray(value)) {
+    return value.map(item => bindActions(item, bind)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isActionKey(key) && typeof item === 'object' && item !== null
+          ? bind(item as ActionList)
+          : bindActions(item, bind)
+      ])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Find every action list within a props object
+ * @param value - Props, or any value nested inside them
+ * @param path - Path segments leading to the value
+ * @returns Action lists with their paths
+ */
+export const collectActions = (
+  value: unknown,
+  path: Array<string | number> = []
+): Array<{ actions: unknown; path: Array<string | number> }> => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectActions(item, [...path, index]));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      isActionKey(key) ? [{ actions: item, path: [...path, key] }] : collectActions(item, [...path, key])
+    );
+  }
+  return [];
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { checkLayoutSource } from './check';
+import { getLineColumn } from './source';
+
+/** Where each problem is, as line:column, with its message */
+const report = (text: string) =>
+  checkLayoutSource(text).problems.map(({ range, message }) => {
+    const { line, column } = getLineColumn(text, range.start);
+    return `${line}:${column} ${message}`;
+  });
+
+describe('checkLayoutSource', () => {
+  it('reports syntax errors where they are', () => {
+    const text = '{\n  "layout": { "type": "container", }\n}';
+    expect(checkLayoutSource(text)).toEqual({
+      valid: false,
+      problems: [{
+        range: { start: text.indexOf('}'), end: text.indexOf('}') + 1 },
+        message: 'Expected a property name but found "}"',
+        severity: 'error'
+      }]
+    });
+  });
+
+  it('locates values an upgrade moved where the document has them', () => {
+    const text = [
+      '{',
+      '  "layout": {',
+      '    "type": "page",',
+      '    "props": {',
+      '      "navbar": {',
+      '        "type": "navbar",',
+      '        "props": { "title": 42 }',
+      '      }',
+      '    }',
+      '  }',
+      '}'
+    ].join('\n');
+
+    const { valid, problems } = checkLayoutSource(text);
+
+    expect(valid).toBe(false);
+    expect(problems[0].path).toBe('layout.props.navbar.title');
+    expect(text.slice(problems[0].range.start, problems[0].range.end)).toBe('42');
+  });
+
+  it('lints the composed document, reporting what fragments bring in at their reference', () => {
+    const text = JSON.stringify({
+      schemaVersion: 2,
+      fragments: { stat: { type: 'card', props: { title: 'Total', colour: 'red' } } },
+      layout: { type: 'container', children: [{ $ref: '#/fragments/stat' }] }
+    }, null, 2);
+
+    const problems = report(text);
+
+    expect(problems).toEqual([expect.stringMatching(/^15:7 Unknown prop "colour"/)]);
+  });
+
+  it('refuses documents written for a newer engine at their schemaVersion', () => {
+    const text = '{ "schemaVersion": 99, "layout": { "type": "container" } }';
+    expect(report(text)).toEqual([expect.stringMatching(/^1:20 Metadata uses schema version 99/)]);
+  });
+});
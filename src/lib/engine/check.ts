@@ -0,0 +1,96 @@
+import type { LayoutMetadata } from './types';
+import type { SchemaResolver } from './registry';
+import type { DocumentResolver } from './documents';
+import { builtInSchemaResolver, validateMetadata } from './schema';
+import { composeMetadata } from './compose';
+import { migrateDocuments, migrateMetadata, toSourcePath } from './migrations';
+import { LintConfig, LintRuleId, lintMetadata } from './lint';
+import { locatePath, parseJsonSource, SourceRange } from './source';
+
+/**
+ * Check - Everything the engine has to say about a document's text
+ * Shared by the JSON editor and the command line, so both report the same
+ * problems at the same places.
+ */
+
+export interface LayoutProblem {
+  /** Where in the text the problem is */
+  range: SourceRange;
+  /** Path of the offending value, e.g. "layout.children[0].props.title"; syntax errors have none */
+  path?: string;
+  message: string;
+  /** Errors keep the document from being used, warnings do not */
+  severity: 'error' | 'warning';
+  /** Lint rule that reported the problem */
+  rule?: LintRuleId;
+}
+
+export interface LayoutCheck {
+  /** The document, when it parses */
+  value?: LayoutMetadata;
+  /** Whether the document parses and validates; lint findings do not count */
+  valid: boolean;
+  /** Syntax and validation errors first, then lint findings */
+  problems: LayoutProblem[];
+}
+
+export interface CheckOptions {
+  /** Where to look up component types and prop schemas */
+  resolver?: SchemaResolver;
+  /** Documents that $ref and extends can name */
+  documents?: DocumentResolver;
+  /** Severity per lint rule */
+  lintConfig?: LintConfig;
+}
+
+/**
+ * Check a document's text the way the engine will render it: parsed, upgraded,
+ * composed and validated, then linted
+ * @param text - JSON text of the document
+ * @param options - Resolver, documents it may reference and lint severities
+ * @returns The parsed document and every problem, located in the text
+ */
+export const checkLayoutSource = (text: string, options: CheckOptions = {}): LayoutCheck => {
+  const { resolver = builtInSchemaResolver, documents, lintConfig } = options;
+  const source = parseJsonSource(text);
+  if (source.error) {
+    const { offset, message } = source.error;
+    return { valid: false, problems: [{ range: { start: offset, end: offset + 1 }, message, severity: 'error' }] };
+  }
+
+  const value = source.value as LayoutMetadata;
+  try {
+    const migration = migrateMetadata(value);
+    const references = documents && migrateDocuments(documents);
+    const composition = composeMetadata(migration.metadata, references);
+    const issues = [...composition.issues, ...validateMetadata(composition.metadata, resolver).issues];
+    const lint = lintMetadata(migration.metadata, {
+      resolver,
+      documents: references,
+      composed: composition.metadata,
+      config: lintConfig
+    });
+    // Issues are found in the upgraded document; values the upgrade moved are located where they were written
+    const locate = (path: string) => locatePath(source, toSourcePath(path, migration.changes));
+    return {
+      value,
+      valid: issues.length === 0,
+      problems: [
+        ...issues.map(({ path, message }) => ({ range: locate(path), path, message, severity: 'error' as const })),
+        ...lint.issues.map(({ path, message, severity, rule }) => ({ range: locate(path), path, message, severity, rule }))
+      ]
+    };
+  } catch (error) {
+    // Documents written for a newer engine are refused as a whole
+    return {
+      value,
+      valid: false,
+      problems: [{
+        range: locatePath(source, 'schemaVersion'),
+        path: 'schemaVersion',
+        message: error instanceof Error ? error.message : String(error),
+        severity: 'error'
+      }]
+    };
+  }
+};
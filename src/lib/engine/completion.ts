@@ -0,0 +1,98 @@
+import type { LayoutMetadata } from './types';
+import type { SchemaResolver } from './registry';
+import type { CompletionContext } from './source';
+import { formatPath, NODE_FIELDS } from './schema';
+import { getPropFields } from './fields';
+import { listEndpoints } from './endpoints';
+import { getNodeSlots, NODE_SLOTS } from './traverse';
+import { getNodeAt } from './editor';
+
+/**
+ * Completion - Suggestions for a document being typed: component types,
+ * prop names and endpoint names
+ */
+
+export interface Completion {
+  label: string;
+  /** What the suggestion is, e.g. "component type" */
+  detail: string;
+}
+
+type Segment = string | number;
+
+const SLOT_NAMES = new Set(Object.values(NODE_SLOTS).flat());
+
+/**
+ * Tell whether an object at a path is a node: the layout, a child, a page's or
+ * dialog's component, or a slot
+ */
+const isNodePath = (path: readonly Segment[]): boolean => {
+  const last = path[path.length - 1];
+  const parent = path[path.length - 2];
+  if (path.length === 1) return last === 'layout';
+  if (typeof last === 'number') return parent === 'children' || parent === 'components';
+  return parent === 'props' && SLOT_NAMES.has(last) && isNodePath(path.slice(0, -2));
+};
+
+/**
+ * Read a node's type: as typed before the cursor, or from the last version of the document that parsed
+ */
+const getNodeType = (
+  path: readonly Segment[],
+  typed: string | undefined,
+  metadata: LayoutMetadata | undefined
+): string | undefined => {
+  if (typed) return typed;
+  const node = metadata && getNodeAt(metadata, formatPath('', path));
+  return typeof node?.type === 'string' ? node.type : undefined;
+};
+
+const rank = (candidates: Completion[], prefix: string): Completion[] => {
+  const needle = prefix.toLowerCase();
+  const starts = candidates.filter(candidate => candidate.label.toLowerCase().startsWith(needle));
+  const contains = candidates.filter(candidate =>
+    !candidate.label.toLowerCase().startsWith(needle) && candidate.label.toLowerCase().includes(needle)
+  );
+  return [...starts, ...contains].filter(candidate => candidate.label !== prefix);
+};
+
+/**
+ * List the suggestions for the string the cursor is in
+ * @param context - Where the cursor is, from getCompletionContext
+ * @param resolver - Component types and their prop schemas
+ * @param metadata - The last version of the document that parsed, for what the text
+ *   before the cursor does not tell, such as the document's endpoints
+ * @returns Suggestions, best first
+ */
+export const getCompletions = (
+  context: CompletionContext,
+  resolver: SchemaResolver,
+  metadata?: LayoutMetadata
+): Completion[] => {
+  const { kind, path, key, prefix, keys, types } = context;
+
+  if (kind === 'value' && key === 'type' && isNodePath(path)) {
+    return rank(resolver.types().map(type => ({ label: type, detail: 'component type' })), prefix);
+  }
+
+  if (kind === 'value' && key === 'endpoint') {
+    return rank(listEndpoints(metadata?.apiEndpoints).map(name => ({ label: name, detail: 'endpoint' })), prefix);
+  }
+
+  if (kind !== 'key') return [];
+  const unused = (names: string[]) => names.filter(name => !keys.includes(name));
+
+  if (isNodePath(path)) {
+    return rank(unused(NODE_FIELDS).map(name => ({ label: name, detail: 'node field' })), prefix);
+  }
+
+  // Props of a node: the object is at <node>.props
+  const owner = path.slice(0, -1);
+  if (path[path.length - 1] === 'props' && isNodePath(owner)) {
+    const type = getNodeType(owner, types[types.length - 2], metadata);
+    if (!type) return [];
+    const fields = getPropFields(type, resolver.getPropSchema(type)).map(field => field.name);
+    return rank(unused([...fields, ...getNodeSlots(type)]).map(name => ({ label: name, detail: `${type} prop` })), prefix);
+  }
+  return [];
+};
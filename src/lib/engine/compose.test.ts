@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { composeMetadata } from './compose';
+import { DocumentRegistry } from './documents';
+
+const messages = (issues: Array<{ message: string }>) => issues.map(issue => issue.message);
+
+describe('composeMetadata', () => {
+  it('expands fragments with params and merges the reference\'s other keys over them', () => {
+    const { metadata, issues } = composeMetadata({
+      fragments: {
+        stat: { type: 'card', props: { title: { $param: 'title' }, variant: { $param: 'variant', default: 'default' } } }
+      },
+      layout: {
+        type: 'container',
+        children: [{ $ref: '#/fragments/stat', params: { title: 'Revenue' }, id: 'revenue' }]
+      }
+    });
+
+    expect(issues).toEqual([]);
+    expect(metadata.layout.children).toEqual([
+      { type: 'card', id: 'revenue', props: { title: 'Revenue', variant: 'default' } }
+    ]);
+  });
+
+  it('expands the same fragment more than once without calling it a cycle', () => {
+    const { metadata, issues } = composeMetadata({
+      fragments: { label: { type: 'text', props: { content: 'Hi' } } },
+      layout: { type: 'container', children: [{ $ref: '#/fragments/label' }, { $ref: '#/fragments/label' }] }
+    });
+
+    expect(issues).toEqual([]);
+    expect(metadata.layout.children).toHaveLength(2);
+  });
+
+  it('reports fragments that reference each other', () => {
+    const { issues } = composeMetadata({
+      fragments: {
+        a: { type: 'container', children: [{ $ref: '#/fragments/b' }] },
+        b: { type: 'container', children: [{ $ref: '#/fragments/a' }] }
+      },
+      layout: { $ref: '#/fragments/a' }
+    });
+
+    expect(messages(issues)).toEqual(['Circular reference: #/fragments/a → #/fragments/b → #/fragments/a']);
+    expect(issues[0].path).toBe('layout.children[0].children[0].$ref');
+  });
+
+  it('reports cycles through other documents', () => {
+    const documents = new DocumentRegistry()
+      .register('shared', { fragments: { loop: { type: 'container', children: [{ $ref: 'shared#/fragments/loop' }] } } });
+
+    const { issues } = composeMetadata({ layout: { $ref: 'shared#/fragments/loop' } }, documents);
+
+    expect(messages(issues)).toEqual(['Circular reference: shared#/fragments/loop → shared#/fragments/loop']);
+  });
+
+  it('reports documents that extend each other', () => {
+    const documents = new DocumentRegistry()
+      .register('base', { extends: 'theme', layout: { type: 'container' } })
+      .register('theme', { extends: 'base' });
+
+    const { issues } = composeMetadata({ extends: 'base' }, documents);
+
+    expect(messages(issues)).toEqual(['Circular extends: base → theme → base']);
+  });
+
+  it('inherits a document and overrides or removes its nodes by id', () => {
+    const documents = new DocumentRegistry().register('base', {
+      layout: {
+        type: 'container',
+        children: [
+          { type: 'card', id: 'kept', props: { title: 'Kept', variant: 'default' } },
+          { type: 'card', id: 'removed' }
+        ]
+      }
+    });
+
+    const { metadata, issues } = composeMetadata({
+      extends: 'base',
+      overrides: { kept: { props: { title: 'Changed' } }, removed: null, missing: {} }
+    }, documents);
+
+    expect(metadata.layout.children).toEqual([{ type: 'card', id: 'kept', props: { title: 'Changed', variant: 'default' } }]);
+    expect(metadata).not.toHaveProperty('extends');
+    expect(messages(issues)).toEqual(['No node with id "missing" to override']);
+  });
+
+  it('reports references it cannot follow', () => {
+    const { issues } = composeMetadata({
+      layout: { type: 'container', children: [{ $ref: '#/fragments/none' }, { $ref: 'other#/layout' }] }
+    });
+
+    expect(messages(issues)).toEqual(['Nothing found at "#/fragments/none"', 'Unknown document "other"']);
+  });
+});
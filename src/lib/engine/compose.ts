@@ -0,0 +1,309 @@
+import type { FragmentParam, FragmentRef, LayoutMetadata } from './types';
+import type { DocumentResolver } from './documents';
+import { formatPath, ValidationIssue } from './schema';
+import { NODE_SLOTS } from './traverse';
+import { parsePointer } from './patch';
+
+/**
+ * Compose - Expands a document's fragments, $refs and inheritance into a plain document
+ * The engine composes metadata before validating and rendering it, so nothing
+ * downstream needs to know how a document was put together.
+ */
+
+export interface CompositionResult {
+  metadata: LayoutMetadata;
+  /** Unknown documents, unresolvable pointers, missing params and cycles */
+  issues: ValidationIssue[];
+}
+
+interface RefContext {
+  /** Document that "#/..." pointers resolve against */
+  root: Record<string, unknown>;
+  /** Name of that document; undefined for the one being composed */
+  documentName?: string;
+  /** References being expanded, outermost first */
+  refs: string[];
+  /** Params of the fragment being expanded; undefined outside fragments */
+  params?: Record<string, unknown>;
+}
+
+/** Sections that an extending document merges entry by entry instead of replacing */
+const MERGED_SECTIONS = ['pages', 'dialogs', 'fragments', 'featureFlags', 'state'];
+
+/** Sections that describe how the document is composed rather than what it renders */
+const COMPOSITION_SECTIONS = ['fragments', 'extends', 'overrides'];
+
+/** Sections holding nodes that overrides can target */
+const NODE_SECTIONS = ['layout', 'pages', 'dialogs'];
+
+const SLOT_PROPS = ['navbar', 'sidebar', ...Object.values(NODE_SLOTS).flat()];
+
+const NODE_POSITION = new RegExp(`(^layout|\\.(children|components)\\[\\d+\\]|\\.props\\.(${SLOT_PROPS.join('|')}))$`);
+
+const REMOVED = Symbol('removed');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasOwn = (value: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Whether a value is a reference to be replaced by what it points to
+ */
+export const isFragmentRef = (value: unknown): value is FragmentRef =>
+  isObject(value) && typeof value.$ref === 'string';
+
+const isFragmentParam = (value: unknown): value is FragmentParam =>
+  isObject(value) && typeof value.$param === 'string';
+
+/**
+ * Find the node a path lies within, so that issues render inline on that node
+ */
+const getOwnerNodePath = (path: string): string => {
+  let current = path;
+  while (current) {
+    if (NODE_POSITION.test(current)) return current;
+    const parent = current.replace(/(\.[^.[]+|\[\d+\])$/, '');
+    if (parent === current) break;
+    current = parent;
+  }
+  return path;
+};
+
+/**
+ * Follow a JSON pointer such as /fragments/statCard or /layout/children/0
+ * @returns The value pointed to, or undefined when the pointer leads nowhere
+ */
+const resolvePointer = (root: unknown, pointer: string): unknown =>
+  parsePointer(pointer)?.reduce<unknown>((current, segment) => {
+    if (Array.isArray(current)) return /^\d+$/.test(segment) ? current[Number(segment)] : undefined;
+    return isObject(current) && hasOwn(current, segment) ? current[segment] : undefined;
+  }, root);
+
+/**
+ * Apply changes to a node: props are merged, every other field is replaced
+ */
+const mergeNode = (node: Record<string, unknown>, changes: Record<string, unknown>): Record<string, unknown> => {
+  const merged = { ...node, ...changes };
+  if (isObject(node.props) && isObject(changes.props)) {
+    merged.props = { ...node.props, ...changes.props };
+  }
+  return merged;
+};
+
+const mergeDeep = (base: Record<string, unknown>, own: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries([
+    ...Object.entries(base),
+    ...Object.entries(own).map(([key, value]) => [
+      key,
+      isObject(base[key]) && isObject(value) ? mergeDeep(base[key] as Record<string, unknown>, value) : value
+    ])
+  ]);
+
+/**
+ * Layer a document over the one it extends
+ * Pages, dialogs, fragments, flags and state are merged by key, API endpoints deeply,
+ * every other section is replaced
+ */
+const mergeDocuments = (base: Record<string, unknown>, own: Record<string, unknown>): Record<string, unknown> => {
+  const merged = { ...base, ...own };
+  for (const section of MERGED_SECTIONS) {
+    if (isObject(base[section]) && isObject(own[section])) {
+      merged[section] = { ...base[section], ...own[section] };
+    }
+  }
+  if (isObject(base.apiEndpoints) && isObject(own.apiEndpoints)) {
+    merged.apiEndpoints = mergeDeep(base.apiEndpoints, own.apiEndpoints);
+  }
+  return merged;
+};
+
+/**
+ * Compose a metadata document into one without fragments, references or inheritance
+ * - { "$ref": "#/fragments/name" } is replaced by a copy of the fragment; "doc#/..." points into
+ *   another registered document. Other keys of the reference are merged over the copy.
+ * - { "$param": "name", "default": value } inside a fragment takes the value the reference
+ *   passes in its "params"
+ * - "extends": "doc" inherits every section of another document, then "overrides" changes or
+ *   removes its nodes by id
+ * @param metadata - The document to compose
+ * @param documents - Where to look up documents referenced by name
+ * @returns The composed document, with an issue for every reference that could not be expanded
+ */
+export const composeMetadata = (metadata: unknown, documents?: DocumentResolver): CompositionResult => {
+  const issues: ValidationIssue[] = [];
+
+  const report = (path: string, message: string, nodePath = getOwnerNodePath(path)) => {
+    issues.push({ path, nodePath, message });
+  };
+
+  /**
+   * Look up a document by name; resolvers may throw, e.g. for documents they cannot migrate
+   */
+  const loadDocument = (name: string, path: string, nodePath?: string): Record<string, unknown> | undefined => {
+    let document: unknown;
+    try {
+      document = documents?.get(name);
+    } catch (error) {
+      report(path, error instanceof Error ? error.message : String(error), nodePath);
+      return undefined;
+    }
+    if (!isObject(document)) {
+      report(path, `Unknown document "${name}"`, nodePath);
+      return undefined;
+    }
+    return document;
+  };
+
+  const expandRef = (ref: FragmentRef, path: string, context: RefContext): unknown => {
+    const { $ref, params, ...extra } = ref;
+    const refPath = formatPath(path, ['$ref']);
+
+    const hashIndex = $ref.indexOf('#');
+    const documentName = hashIndex === -1 ? $ref : $ref.slice(0, hashIndex);
+    const pointer = hashIndex === -1 ? '' : $ref.slice(hashIndex + 1);
+
+    let root = context.root;
+    if (documentName) {
+      const document = loadDocument(documentName, refPath);
+      if (!document) return ref;
+      root = document;
+    }
+    const rootName = documentName || context.documentName;
+
+    const key = `${rootName ?? ''}#${pointer}`;
+    if (context.refs.includes(key)) {
+      const cycle = [...context.refs.slice(context.refs.indexOf(key)), key];
+      report(refPath, `Circular reference: ${cycle.join(' → ')}`);
+      return ref;
+    }
+
+    const target = resolvePointer(root, pointer);
+    if (target === undefined) {
+      report(refPath, `Nothing found at "${$ref}"`);
+      return ref;
+    }
+
+    // Params and extra keys belong to the referencing document, so they expand where the reference is
+    const args = isObject(params) ? expand(params, formatPath(path, ['params']), context) as Record<string, unknown> : {};
+    const expanded = expand(target, path, { root, documentName: rootName, refs: [...context.refs, key], params: args });
+    if (Object.keys(extra).length === 0) return expanded;
+
+    if (!isObject(expanded)) {
+      report(refPath, `Only objects can be extended, "${$ref}" is not one`);
+      return expanded;
+    }
+    return mergeNode(expanded, expand(extra, path, context) as Record<string, unknown>);
+  };
+
+  const expand = (value: unknown, path: string, context: RefContext): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => expand(item, formatPath(path, [index]), context));
+    }
+    if (!isObject(value)) return value;
+
+    if (isFragmentParam(value)) {
+      if (!context.params) {
+        report(path, `"$param" can only be used inside a fragment`);
+        return undefined;
+      }
+      if (hasOwn(context.params, value.$param)) return context.params[value.$param];
+      if (hasOwn(value, 'default')) return value.default;
+      report(path, `Missing param "${value.$param}" for ${context.refs[context.refs.length - 1]}`);
+      return undefined;
+    }
+
+    if (isFragmentRef(value)) return expandRef(value, path, context);
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expand(item, formatPath(path, [key]), context)])
+    );
+  };
+
+  const overrideNodes = (
+    value: unknown,
+    overrides: Record<string, unknown>,
+    applied: Set<string>
+  ): unknown => {
+    if (Array.isArray(value)) {
+      return value
+        .map(item => overrideNodes(item, overrides, applied))
+        .filter(item => item !== REMOVED);
+    }
+    if (!isObject(value)) return value;
+
+    let node = value;
+    if (typeof value.type === 'string' && typeof value.id === 'string' && hasOwn(overrides, value.id)) {
+      applied.add(value.id);
+      const override = overrides[value.id];
+      if (override === null) return REMOVED;
+      if (isObject(override)) node = mergeNode(value, override);
+    }
+
+    return Object.fromEntries(
+      Object.entries(node)
+        .map(([key, item]) => [key, overrideNodes(item, overrides, applied)])
+        .filter(([, item]) => item !== REMOVED)
+    );
+  };
+
+  const composeDocument = (
+    document: Record<string, unknown>,
+    documentName: string | undefined,
+    chain: string[]
+  ): Record<string, unknown> => {
+    let base: Record<string, unknown> | undefined;
+    if (document.extends !== undefined) {
+      const baseName = document.extends;
+      if (typeof baseName !== 'string') {
+        report('extends', 'Expected the name of a registered document', '');
+      } else if (chain.includes(baseName)) {
+        report('extends', `Circular extends: ${[...chain, baseName].join(' → ')}`, '');
+      } else {
+        const baseDocument = loadDocument(baseName, 'extends', '');
+        if (baseDocument) {
+          base = composeDocument(baseDocument, baseName, [...chain, baseName]);
+        }
+      }
+    }
+
+    // Pointers see inherited sections too, so a document can reuse its base's fragments
+    const context: RefContext = {
+      root: base ? mergeDocuments(base, document) : document,
+      documentName,
+      refs: []
+    };
+    const own = Object.fromEntries(
+      Object.entries(document)
+        .filter(([section]) => !COMPOSITION_SECTIONS.includes(section))
+        .map(([section, value]) => [section, expand(value, section, context)])
+    );
+    if (document.fragments !== undefined) own.fragments = document.fragments;
+
+    const composed = base ? mergeDocuments(base, own) : own;
+
+    const { overrides } = document;
+    if (overrides !== undefined && !isObject(overrides)) {
+      report('overrides', 'Expected an object of node changes by node id', '');
+    } else if (isObject(overrides)) {
+      const applied = new Set<string>();
+      for (const section of NODE_SECTIONS) {
+        if (composed[section] !== undefined) {
+          composed[section] = overrideNodes(composed[section], overrides, applied);
+        }
+      }
+      Object.keys(overrides)
+        .filter(id => !applied.has(id))
+        .forEach(id => report(formatPath('overrides', [id]), `No node with id "${id}" to override`, ''));
+    }
+
+    delete composed.extends;
+    delete composed.overrides;
+    return composed;
+  };
+
+  // Anything but an object is left for validation to report
+  const composed = isObject(metadata) ? composeDocument(metadata, undefined, []) : metadata;
+  return { metadata: composed as LayoutMetadata, issues };
+};
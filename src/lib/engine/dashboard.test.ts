@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentConfig, LayoutMetadata } from './types';
+import type { DashboardOverlay } from './dashboard';
+import { addWidget, applyDashboardOverlay, clampPlacement, createWidgetId, placeWidget, removeWidget } from './dashboard';
+
+const card = (id: string): ComponentConfig => ({ type: 'card', id, props: { title: id } });
+
+const dashboard = (children: ComponentConfig[]): LayoutMetadata => ({
+  layout: { type: 'grid', id: 'main', props: { columns: 4, autoRows: 120, editable: true }, children }
+});
+
+describe('applyDashboardOverlay', () => {
+  it('returns the document itself without changes', () => {
+    const metadata = dashboard([card('a')]);
+    expect(applyDashboardOverlay(metadata)).toBe(metadata);
+    expect(applyDashboardOverlay(metadata, { grids: {}, updatedAt: 0 })).toBe(metadata);
+  });
+
+  it('places, removes and appends widgets without touching the document', () => {
+    const metadata = dashboard([card('a'), card('b'), card('c')]);
+    const overlay: DashboardOverlay = {
+      grids: {
+        main: {
+          placements: { c: { column: 1, row: 1, colSpan: 2, rowSpan: 1 }, d: { column: 3, row: 2 } },
+          removed: ['b'],
+          added: [card('d')]
+        }
+      },
+      updatedAt: 0
+    };
+
+    const arranged = applyDashboardOverlay(metadata, overlay);
+
+    expect(arranged.layout.children).toEqual([
+      card('a'),
+      { ...card('c'), gridItem: { column: 1, row: 1, colSpan: 2, rowSpan: 1 } },
+      { ...card('d'), gridItem: { column: 3, row: 2 } }
+    ]);
+    expect(metadata.layout.children).toEqual([card('a'), card('b'), card('c')]);
+  });
+
+  it('leaves grids that are not editable as they are', () => {
+    const metadata: LayoutMetadata = { layout: { type: 'grid', id: 'main', props: { columns: 4, autoRows: 120 }, children: [card('a')] } };
+    const overlay = removeWidget(undefined, 'main', 'a');
+    expect(applyDashboardOverlay(metadata, overlay).layout.children).toEqual([card('a')]);
+  });
+});
+
+describe('removeWidget', () => {
+  it('drops a widget the user added from the overlay', () => {
+    const overlay = placeWidget(addWidget(undefined, 'main', card('d')), 'main', 'd', { column: 2, row: 1 });
+
+    expect(removeWidget(overlay, 'main', 'd').grids.main).toEqual({ placements: {}, removed: [], added: [] });
+  });
+
+  it('records the removal of a document widget, forgetting its placement', () => {
+    const overlay = placeWidget(undefined, 'main', 'a', { column: 2, row: 1 });
+
+    expect(removeWidget(overlay, 'main', 'a').grids.main).toEqual({ placements: {}, removed: ['a'], added: [] });
+  });
+});
+
+describe('clampPlacement', () => {
+  it('keeps placements that fit as they are', () => {
+    expect(clampPlacement({ column: 2, row: 3, colSpan: 2, rowSpan: 2 }, 4)).toEqual({ column: 2, row: 3, colSpan: 2, rowSpan: 2 });
+  });
+
+  it('keeps widgets between the first and last column and below the first row', () => {
+    expect(clampPlacement({ column: 0, row: 0, colSpan: 1, rowSpan: 0 }, 4)).toEqual({ column: 1, row: 1, colSpan: 1, rowSpan: 1 });
+    expect(clampPlacement({ column: 4, row: 1, colSpan: 2, rowSpan: 1 }, 4)).toEqual({ column: 3, row: 1, colSpan: 2, rowSpan: 1 });
+  });
+
+  it('narrows spans wider than the grid to its width', () => {
+    expect(clampPlacement({ column: 3, row: 1, colSpan: 6, rowSpan: 1 }, 4)).toEqual({ column: 1, row: 1, colSpan: 4, rowSpan: 1 });
+  });
+});
+
+describe('createWidgetId', () => {
+  it('skips ids used by the document, by added widgets and by removed widgets', () => {
+    const metadata = dashboard([card('chart-1'), card('chart-3')]);
+    const overlay = removeWidget(addWidget(undefined, 'main', card('chart-2')), 'main', 'chart-3');
+    const arranged = applyDashboardOverlay(metadata, overlay);
+
+    expect(createWidgetId('chart', arranged, overlay)).toBe('chart-4');
+    expect(createWidgetId('card', arranged, overlay)).toBe('card-1');
+  });
+});
@@ -0,0 +1,194 @@
+import type { ComponentConfig, GridItem, LayoutMetadata } from './types';
+import { walkMetadata } from './traverse';
+
+/**
+ * Dashboard - Per-user arrangements of editable grids
+ * A grid with props.editable lets users move, resize, add and remove its widgets.
+ * Their changes are kept apart from the document, as an overlay applied on top of it,
+ * so that later versions of the document still reach every user.
+ */
+
+/**
+ * One user's changes to one editable grid
+ */
+export interface GridOverlay {
+  /** Placement of every widget the user moved or resized, by widget id */
+  placements: Record<string, GridItem>;
+  /** Ids of the document's widgets the user removed */
+  removed: string[];
+  /** Widgets the user added, in the order they were added */
+  added: ComponentConfig[];
+}
+
+/**
+ * One user's changes to the editable grids of a document
+ */
+export interface DashboardOverlay {
+  /** Changes per grid, by grid id */
+  grids: Record<string, GridOverlay>;
+  /** When the overlay last changed, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+export interface DashboardOptions {
+  /** Identifies the arrangement among the user's saved ones, e.g. the document's name */
+  id: string;
+  /** Show the controls for moving, resizing, adding and removing widgets */
+  editing?: boolean;
+  /** Endpoint that stores arrangements on the backend, besides the browser's storage */
+  syncUrl?: string;
+}
+
+/**
+ * Geometry of an editable grid, which positions are computed from
+ */
+export interface EditableGrid {
+  id: string;
+  columns: number;
+  /** Height of a row in pixels */
+  rowHeight: number;
+}
+
+const emptyGrid: GridOverlay = { placements: {}, removed: [], added: [] };
+
+/**
+ * Read the geometry of a grid whose widgets users can rearrange
+ * @returns The geometry, or undefined for grids that are not editable
+ */
+export const getEditableGrid = (node: ComponentConfig): EditableGrid | undefined => {
+  const { columns, autoRows, editable } = node.props ?? {};
+  if (node.type !== 'grid' || editable !== true || typeof node.id !== 'string') return undefined;
+  if (typeof columns !== 'number' || typeof autoRows !== 'number') return undefined;
+  return { id: node.id, columns, rowHeight: autoRows };
+};
+
+/**
+ * Apply a user's overlay to a document
+ * @param metadata - The document, left untouched
+ * @param overlay - The user's changes, if any
+ * @returns The document as the user arranged it
+ */
+export const applyDashboardOverlay = (metadata: LayoutMetadata, overlay?: DashboardOverlay): LayoutMetadata => {
+  if (!metadata || !overlay || Object.keys(overlay.grids).length === 0) return metadata;
+
+  const arranged = structuredClone(metadata);
+  walkMetadata(arranged, node => {
+    const grid = getEditableGrid(node);
+    const changes = grid && overlay.grids[grid.id];
+    if (!changes) return;
+
+    const children = [
+      ...(node.children ?? []).filter(child => !child.id || !changes.removed.includes(child.id)),
+      ...structuredClone(changes.added)
+    ];
+    node.children = children.map(child => {
+      const placement = child.id ? changes.placements[child.id] : undefined;
+      return placement ? { ...child, gridItem: placement } : child;
+    });
+  });
+  return arranged;
+};
+
+/**
+ * Map every widget of the document's editable grids to its grid
+ * @returns Grid geometry by widget id
+ */
+export const getDashboardWidgets = (metadata: LayoutMetadata): Map<string, EditableGrid> => {
+  const widgets = new Map<string, EditableGrid>();
+  walkMetadata(metadata, node => {
+    const grid = getEditableGrid(node);
+    if (!grid) return;
+    node.children?.forEach(child => {
+      if (typeof child?.id === 'string') widgets.set(child.id, grid);
+    });
+  });
+  return widgets;
+};
+
+/**
+ * Keep a placement inside the grid's columns and below its first row
+ * @param placement - Requested position and size, in grid lines and tracks
+ * @param columns - Number of columns of the grid
+ * @returns A placement that fits the grid
+ */
+export const clampPlacement = (
+  { column, row, colSpan, rowSpan }: Required<Pick<GridItem, 'colSpan' | 'rowSpan'>> & { column: number; row: number },
+  columns: number
+): GridItem => {
+  const span = Math.min(Math.max(1, Math.round(colSpan)), columns);
+  return {
+    column: Math.min(Math.max(1, Math.round(column)), columns - span + 1),
+    row: Math.max(1, Math.round(row)),
+    colSpan: span,
+    rowSpan: Math.max(1, Math.round(rowSpan))
+  };
+};
+
+const updateGrid = (
+  overlay: DashboardOverlay | undefined,
+  gridId: string,
+  update: (grid: GridOverlay) => GridOverlay
+): DashboardOverlay => ({
+  grids: { ...overlay?.grids, [gridId]: update(overlay?.grids[gridId] ?? emptyGrid) },
+  updatedAt: Date.now()
+});
+
+/**
+ * Move or resize a widget
+ * @returns The updated overlay
+ */
+export const placeWidget = (
+  overlay: DashboardOverlay | undefined,
+  gridId: string,
+  widgetId: string,
+  placement: GridItem
+): DashboardOverlay =>
+  updateGrid(overlay, gridId, grid => ({ ...grid, placements: { ...grid.placements, [widgetId]: placement } }));
+
+/**
+ * Add a widget to the end of a grid
+ * @param widget - The widget, with an id unique in the document
+ * @returns The updated overlay
+ */
+export const addWidget = (overlay: DashboardOverlay | undefined, gridId: string, widget: ComponentConfig): DashboardOverlay =>
+  updateGrid(overlay, gridId, grid => ({ ...grid, added: [...grid.added, widget] }));
+
+/**
+ * Remove a widget, whether it came from the document or was added by the user
+ * @returns The updated overlay
+ */
+export const removeWidget = (overlay: DashboardOverlay | undefined, gridId: string, widgetId: string): DashboardOverlay =>
+  updateGrid(overlay, gridId, grid => {
+    const { [widgetId]: _removed, ...placements } = grid.placements;
+    const added = grid.added.filter(widget => widget.id !== widgetId);
+    return {
+      placements,
+      added,
+      removed: added.length === grid.added.length ? [...grid.removed, widgetId] : grid.removed
+    };
+  });
+
+/**
+ * Forget a user's changes to one grid, restoring the document's arrangement
+ * @returns The updated overlay
+ */
+export const resetGrid = (overlay: DashboardOverlay | undefined, gridId: string): DashboardOverlay => {
+  const { [gridId]: _reset, ...grids } = overlay?.grids ?? {};
+  return { grids, updatedAt: Date.now() };
+};
+
+/**
+ * Create an id for a new widget that no node of the document uses
+ * @param type - Component type of the widget
+ * @param metadata - The document as currently arranged
+ * @param overlay - The user's changes, whose removed widgets keep their ids
+ */
+export const createWidgetId = (type: string, metadata: LayoutMetadata, overlay?: DashboardOverlay): string => {
+  const used = new Set(Object.values(overlay?.grids ?? {}).flatMap(grid => grid.removed));
+  walkMetadata(metadata, node => {
+    if (typeof node.id === 'string') used.add(node.id);
+  });
+  let count = 1;
+  while (used.has(`${type}-${count}`)) count++;
+  return `${type}-${count}`;
+};
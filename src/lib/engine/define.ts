@@ -0,0 +1,139 @@
+import type { z, ZodTypeAny } from 'zod';
+import type {
+  ActionList,
+  Breakpoint,
+  BreakpointOverride,
+  ComponentConfig,
+  DialogConfig,
+  LayoutMetadata,
+  PageConfig
+} from './types';
+import type { componentPropSchemas } from './schema';
+
+/**
+ * Define - Layouts written in TypeScript, checked by the compiler
+ * Each node's props are typed from the schema its component type registers, so
+ * an unknown prop, a misspelt enum value or a missing required prop fails to
+ * compile instead of failing validation at runtime. Typed layouts are plain
+ * documents: defineLayout returns them as LayoutMetadata for LayoutEngine.
+ */
+
+/** A value computed when the node renders, e.g. "{{state.limit}}" */
+export type Binding = `{{${string}}}`;
+
+/** Actions, allowed on every component as props named on<Event>, e.g. onClick */
+export type ActionProps = { [event: `on${Capitalize<string>}`]: ActionList | undefined };
+
+/** The schema itself, without the refinements wrapped around it */
+type BaseSchema<S> = S extends z.ZodEffects<infer Inner> ? BaseSchema<Inner> : S;
+
+type OptionalKeys<Shape> = {
+  [K in keyof Shape]: Shape[K] extends z.ZodOptional<ZodTypeAny> | z.ZodDefault<ZodTypeAny> ? K : never;
+}[keyof Shape];
+
+type InputOf<T> = T extends ZodTypeAny ? z.input<T> : never;
+
+/**
+ * Only the declared props; schemas let others through for validation's sake
+ * Which props are required is read from the shape, so that it holds without strictNullChecks too
+ */
+type DeclaredProps<S> = BaseSchema<S> extends z.ZodObject<infer Shape>
+  ? { [K in Exclude<keyof Shape, OptionalKeys<Shape>>]: InputOf<Shape[K]> } & { [K in OptionalKeys<Shape>]?: InputOf<Shape[K]> }
+  : z.input<S & ZodTypeAny>;
+
+/**
+ * Props a component type accepts, from the schema it registers
+ * Any of them can be a binding instead, and any component can be given actions.
+ * @example interface ComponentPropTypes { gauge: SchemaProps<typeof gaugeSchema> }
+ */
+export type SchemaProps<S extends ZodTypeAny> = {
+  [K in keyof DeclaredProps<S>]: DeclaredProps<S>[K] | Binding;
+} & ActionProps;
+
+type BuiltInProps<T extends keyof typeof componentPropSchemas> = SchemaProps<(typeof componentPropSchemas)[T]>;
+
+/** A page's navbar, sidebar and content; the schemas only check them for being objects */
+interface PageSlots {
+  navbar?: ComponentPropTypes['navbar'];
+  sidebar?: ComponentPropTypes['sidebar'];
+  content?: LayoutNode;
+}
+
+/** What a repeat renders for each item, and instead of them */
+interface RepeatSlots {
+  template: LayoutNode;
+  empty?: LayoutNode;
+  loading?: LayoutNode;
+  error?: LayoutNode;
+}
+
+/**
+ * Props of every component type, by type
+ * Apps that register their own types add them here, typed from the same schema:
+ *
+ *   declare module '@/lib/engine/define' {
+ *     interface ComponentPropTypes { gauge: SchemaProps<typeof gaugeSchema> }
+ *   }
+ */
+export interface ComponentPropTypes {
+  navbar: BuiltInProps<'navbar'>;
+  sidebar: BuiltInProps<'sidebar'>;
+  card: BuiltInProps<'card'>;
+  chart: BuiltInProps<'chart'>;
+  projectList: BuiltInProps<'projectList'>;
+  projectUpdates: BuiltInProps<'projectUpdates'>;
+  page: Omit<BuiltInProps<'page'>, keyof PageSlots> & PageSlots;
+  container: BuiltInProps<'container'>;
+  text: BuiltInProps<'text'>;
+  grid: BuiltInProps<'grid'>;
+  repeat: Omit<BuiltInProps<'repeat'>, keyof RepeatSlots> & RepeatSlots;
+}
+
+export type ComponentType = keyof ComponentPropTypes;
+
+/** Props may be left out when the type requires none of them */
+type PropsField<P> = Record<never, never> extends P ? { props?: P } : { props: P };
+
+/**
+ * A node of one component type
+ */
+export type NodeOf<T extends ComponentType> = Omit<ComponentConfig, 'type' | 'props' | 'children' | 'responsive'> & {
+  type: T;
+  children?: LayoutNode[];
+  responsive?: Partial<Record<Breakpoint, Omit<BreakpointOverride, 'props'> & { props?: Partial<ComponentPropTypes[T]> }>>;
+} & PropsField<ComponentPropTypes[T]>;
+
+/**
+ * Any node, told apart by its type
+ * Fragments and $ref are left to JSON documents; in TypeScript, share nodes as constants or functions.
+ */
+export type LayoutNode = { [T in ComponentType]: NodeOf<T> }[ComponentType];
+
+export interface PageDefinition extends Omit<PageConfig, 'components'> {
+  components: LayoutNode[];
+}
+
+export interface DialogDefinition extends Omit<DialogConfig, 'components'> {
+  components: LayoutNode[];
+}
+
+/**
+ * A document whose nodes are typed; fragments, extends and overrides are not available
+ */
+export interface LayoutDefinition extends Omit<LayoutMetadata, 'layout' | 'pages' | 'dialogs' | 'fragments' | 'extends' | 'overrides'> {
+  layout: LayoutNode;
+  pages?: Record<string, PageDefinition>;
+  dialogs?: Record<string, DialogDefinition>;
+}
+
+/**
+ * Type-check a node outside a layout, e.g. one shared by several of them
+ */
+export const defineNode = <T extends ComponentType>(node: NodeOf<T>): NodeOf<T> => node;
+
+/**
+ * Type-check a layout written in TypeScript
+ * @param layout - The document
+ * @returns The same document, for LayoutEngine and everything else that takes metadata
+ */
+export const defineLayout = (layout: LayoutDefinition): LayoutMetadata => layout as LayoutMetadata;
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentConfig, LayoutMetadata } from './types';
+import { diffLayouts } from './diff';
+
+const card = (id: string, title = id): ComponentConfig => ({ type: 'card', id, props: { title } });
+
+const page = (children: ComponentConfig[], extra: Partial<LayoutMetadata> = {}): LayoutMetadata => ({
+  layout: { type: 'page', props: { title: 'App', content: { type: 'container', id: 'main', children } } },
+  ...extra
+});
+
+/** Kind and path of every node change */
+const summary = (before: LayoutMetadata, after: LayoutMetadata) =>
+  diffLayouts(before, after).nodes.map(({ kind, path }) => `${kind} ${path}`);
+
+describe('diffLayouts', () => {
+  it('reports nothing for equal documents', () => {
+    expect(diffLayouts(page([card('a')]), page([card('a')]))).toEqual({ nodes: [], settings: [] });
+  });
+
+  it('reports the props and fields of a node that changed, not of the nodes around it', () => {
+    const after = page([card('a', 'Renamed')]);
+    after.layout.props!.content.children[0].className = 'col-span-2';
+
+    const { nodes } = diffLayouts(page([card('a')]), after);
+
+    expect(nodes).toEqual([{
+      kind: 'changed',
+      node: after.layout.props!.content.children[0],
+      path: 'layout.props.content.children[0]',
+      from: 'layout.props.content.children[0]',
+      changes: [
+        { path: 'className', before: undefined, after: 'col-span-2' },
+        { path: 'props.title', before: 'a', after: 'Renamed' }
+      ]
+    }]);
+  });
+
+  it('reports added and removed subtrees once, at their top', () => {
+    const group = { type: 'container', id: 'group', children: [card('x'), card('y')] };
+
+    expect(summary(page([card('a')]), page([card('a'), group]))).toEqual(['added layout.props.content.children[1]']);
+    expect(summary(page([card('a'), group]), page([card('a')]))).toEqual(['removed layout.props.content.children[1]']);
+  });
+
+  it('reports only the nodes that left their order as moved', () => {
+    const before = page([card('a'), card('b'), card('c'), card('d')]);
+    const after = page([card('d'), card('a'), card('b'), card('c')]);
+
+    expect(summary(before, after)).toEqual(['moved layout.props.content.children[0]']);
+  });
+
+  it('follows nodes with an id into another list, with what changed on the way', () => {
+    const before = page([card('a'), { type: 'container', id: 'group', children: [] }]);
+    const after = page([{ type: 'container', id: 'group', children: [card('a', 'Moved')] }]);
+
+    const [change] = diffLayouts(before, after).nodes;
+
+    expect(change).toMatchObject({
+      kind: 'moved',
+      path: 'layout.props.content.children[0].children[0]',
+      from: 'layout.props.content.children[0]',
+      changes: [{ path: 'props.title', before: 'a', after: 'Moved' }]
+    });
+  });
+
+  it('matches nodes without an id by type and position among siblings of their type', () => {
+    const before = page([{ type: 'card', props: { title: 'A' } }, { type: 'chart', props: { chartType: 'bar' } }]);
+    const after = page([{ type: 'chart', props: { chartType: 'line' } }, { type: 'card', props: { title: 'A' } }]);
+
+    const { nodes } = diffLayouts(before, after);
+
+    // Of two swapped nodes, one keeps its place among the other's siblings
+    expect(nodes.map(({ kind, from, changes }) => ({ kind, from, changes }))).toEqual([
+      { kind: 'changed', from: 'layout.props.content.children[1]', changes: [{ path: 'props.chartType', before: 'bar', after: 'line' }] },
+      { kind: 'moved', from: 'layout.props.content.children[0]', changes: [] }
+    ]);
+  });
+
+  it('reports settings outside nodes, one member deep, and page settings next to their components', () => {
+    const before = page([], {
+      apiEndpoints: { projects: { list: '/api/projects' } },
+      pages: { home: { path: '/', title: 'Home', components: [card('a')] } }
+    });
+    const after = page([], {
+      apiEndpoints: { projects: { list: '/api/v2/projects' } },
+      pages: { home: { path: '/', title: 'Start', components: [card('a')] } }
+    });
+
+    expect(diffLayouts(before, after)).toEqual({
+      nodes: [],
+      settings: [
+        { path: 'apiEndpoints.projects', before: { list: '/api/projects' }, after: { list: '/api/v2/projects' } },
+        { path: 'pages.home.title', before: 'Home', after: 'Start' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import type { ComponentConfig, LayoutMetadata } from './types';
+import { getNodeKeys } from './identity';
+import { isEqual } from './patch';
+import { getNodeSlots } from './traverse';
+
+/**
+ * Diff - What changed between two versions of a document, in terms people edit in
+ * Nodes are matched across versions by id, or, for nodes without one, by their
+ * parent and their type and position among siblings of that type, the same way
+ * the engine keys them when rendering. Matched nodes report their changed props
+ * and fields; unmatched ones were added or removed, whole subtrees at a time.
+ */
+
+export interface ValueChange {
+  /** JSON path of the value; relative to its node for node changes, e.g. "props.title" */
+  path: string;
+  /** The older value, undefined when it was added */
+  before?: unknown;
+  /** The newer value, undefined when it was removed */
+  after?: unknown;
+}
+
+export type NodeChangeKind = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface NodeChange {
+  kind: NodeChangeKind;
+  /** The node, as in the newer version unless it was removed */
+  node: ComponentConfig;
+  /** JSON path of the node, in the newer version unless it was removed */
+  path: string;
+  /** JSON path of the node in the older version, for moved and changed nodes */
+  from?: string;
+  /** Props and fields that changed, for moved and changed nodes */
+  changes: ValueChange[];
+}
+
+export interface LayoutDiff {
+  nodes: NodeChange[];
+  /** Changes outside nodes, such as endpoints, state or page titles */
+  settings: ValueChange[];
+}
+
+interface NodeEntry {
+  node: ComponentConfig;
+  path: string;
+  /** Identity of the list or slot holding the node */
+  parent: string;
+  /** Identity of the node holding it, for nodes that are not at the top of a section */
+  owner?: string;
+}
+
+interface NodeIndex {
+  /** Every node by identity, in document order */
+  nodes: Map<string, NodeEntry>;
+  /** Identities of the nodes of every list, in order */
+  lists: Map<string, string[]>;
+}
+
+/** Sections of a document that hold nodes rather than settings */
+const NODE_SECTIONS = ['layout', 'pages', 'dialogs'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNode = (value: unknown): value is ComponentConfig => isObject(value);
+
+const indexNodes = (metadata: LayoutMetadata): NodeIndex => {
+  const nodes = new Map<string, NodeEntry>();
+  const lists = new Map<string, string[]>();
+  const ids = new Set<string>();
+
+  // Ids identify a node wherever it moves; a repeated id only identifies its first node
+  const identify = (node: ComponentConfig, fallback: string) => {
+    if (typeof node.id !== 'string' || !node.id || ids.has(node.id)) return fallback;
+    ids.add(node.id);
+    return `#${node.id}`;
+  };
+
+  const visit = (node: ComponentConfig, key: string, path: string, parent: string, owner?: string) => {
+    nodes.set(key, { node, path, parent, owner });
+    for (const slot of getNodeSlots(node.type)) {
+      const slotNode = node.props?.[slot];
+      if (isNode(slotNode)) visitSingle(slotNode, `${key}/${slot}`, `${path}.props.${slot}`, key);
+    }
+    if (Array.isArray(node.children)) visitList(node.children, `${key}/children`, `${path}.children`, key);
+  };
+
+  // Slots and the layout hold a single node, which is a list of one for ordering
+  const visitSingle = (node: ComponentConfig, parent: string, path: string, owner?: string) => {
+    const key = identify(node, parent);
+    lists.set(parent, [key]);
+    visit(node, key, path, parent, owner);
+  };
+
+  const visitList = (list: unknown[], parent: string, path: string, owner?: string) => {
+    const siblingKeys = getNodeKeys(list.map(node => (isNode(node) ? node : undefined)));
+    const order: string[] = [];
+    list.forEach((node, index) => {
+      if (!isNode(node)) return;
+      const key = identify(node, `${parent}/${siblingKeys[index]}`);
+      order.push(key);
+      visit(node, key, `${path}[${index}]`, parent, owner);
+    });
+    lists.set(parent, order);
+  };
+
+  if (isNode(metadata?.layout)) visitSingle(metadata.layout, 'layout', 'layout');
+  for (const section of ['pages', 'dialogs'] as const) {
+    Object.entries(metadata?.[section] ?? {}).forEach(([id, entry]) => {
+      if (Array.isArray(entry?.components)) visitList(entry.components, `${section}.${id}`, `${section}.${id}.components`);
+    });
+  }
+  return { nodes, lists };
+};
+
+/**
+ * Find the items that kept their relative order, as the longest common subsequence
+ * Items outside it are the ones that were moved
+ */
+const keepOrder = (before: string[], after: string[]): Set<string> => {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const kept = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+};
+
+/**
+ * Compare two members of an object, one level deep, e.g. each endpoint of apiEndpoints
+ */
+const diffMembers = (path: string, before: unknown, after: unknown, skip: string[] = []): ValueChange[] => {
+  if (isEqual(before, after)) return [];
+  if (!isObject(before) || !isObject(after)) return [{ path, before, after }];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter(key => !skip.includes(key) && !isEqual(before[key], after[key]))
+    .map(key => ({ path: path ? `${path}.${key}` : key, before: before[key], after: after[key] }));
+};
+
+/**
+ * Compare the fields and props of two versions of a node, leaving out its children and slots
+ */
+const diffNode = (before: ComponentConfig, after: ComponentConfig): ValueChange[] => {
+  const slots = new Set([...getNodeSlots(before.type), ...getNodeSlots(after.type)]);
+  return [
+    ...diffMembers('', { ...before, props: undefined }, { ...after, props: undefined }, ['children']),
+    ...diffMembers('props', before.props ?? {}, after.props ?? {}, [...slots])
+  ];
+};
+
+/**
+ * Compare the sections of two documents that do not hold nodes
+ */
+const diffSettings = (before: LayoutMetadata, after: LayoutMetadata): ValueChange[] => {
+  const changes: ValueChange[] = [];
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  keys.forEach(key => {
+    if (!NODE_SECTIONS.includes(key)) changes.push(...diffMembers(key, before?.[key as keyof LayoutMetadata], after?.[key as keyof LayoutMetadata]));
+  });
+
+  // Pages and dialogs have settings of their own next to their components
+  for (const section of ['pages', 'dialogs'] as const) {
+    const beforeEntries: Record<string, unknown> = before?.[section] ?? {};
+    const afterEntries: Record<string, unknown> = after?.[section] ?? {};
+    const withoutComponents = (entry: unknown) => (isObject(entry) ? { ...entry, components: undefined } : entry);
+    new Set([...Object.keys(beforeEntries), ...Object.keys(afterEntries)]).forEach(id => {
+      changes.push(...diffMembers(`${section}.${id}`, withoutComponents(beforeEntries[id]), withoutComponents(afterEntries[id])));
+    });
+  }
+  return changes;
+};
+
+/**
+ * Compare two versions of a document
+ * @param before - The older version
+ * @param after - The newer version
+ * @returns Nodes added, removed, moved or changed, in the newer version's order
+ * with removed nodes last, and changed settings
+ */
+export const diffLayouts = (before: LayoutMetadata, after: LayoutMetadata): LayoutDiff => {
+  const previous = indexNodes(before);
+  const next = indexNodes(after);
+  const nodes: NodeChange[] = [];
+
+  // Per list, the nodes that stayed in it and kept their order among each other
+  const ordered = new Map<string, Set<string>>();
+  const isInOrder = (key: string, parent: string) => {
+    if (!ordered.has(parent)) {
+      const stayed = (list?: string[]) => (list ?? []).filter(item => previous.nodes.get(item)?.parent === next.nodes.get(item)?.parent);
+      ordered.set(parent, keepOrder(stayed(previous.lists.get(parent)), stayed(next.lists.get(parent))));
+    }
+    return ordered.get(parent)!.has(key);
+  };
+
+  next.nodes.forEach((entry, key) => {
+    const old = previous.nodes.get(key);
+    if (!old) {
+      // Descendants of an added node were added with it
+      if (!entry.owner || previous.nodes.has(entry.owner)) nodes.push({ kind: 'added', node: entry.node, path: entry.path, changes: [] });
+      return;
+    }
+    const changes = diffNode(old.node, entry.node);
+    const moved = old.parent !== entry.parent || !isInOrder(key, entry.parent);
+    if (moved || changes.length > 0) {
+      nodes.push({ kind: moved ? 'moved' : 'changed', node: entry.node, path: entry.path, from: old.path, changes });
+    }
+  });
+
+  previous.nodes.forEach((entry, key) => {
+    if (next.nodes.has(key) || (entry.owner && !next.nodes.has(entry.owner))) return;
+    nodes.push({ kind: 'removed', node: entry.node, path: entry.path, changes: [] });
+  });
+
+  return { nodes, settings: diffSettings(before, after) };
+};
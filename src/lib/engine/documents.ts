@@ -0,0 +1,79 @@
+/**
+ * DocumentRegistry - Named metadata documents that others can reference
+ * Documents point at each other with "name#/pointer" $refs and "extends": "name"
+ */
+
+/**
+ * Read-only view of a registry, all that composition needs
+ */
+export interface DocumentResolver {
+  get(name: string): unknown;
+}
+
+type Listener = () => void;
+
+export class DocumentRegistry implements DocumentResolver {
+  private documents = new Map<string, unknown>();
+  private listeners = new Set<Listener>();
+  private version = 0;
+
+  /**
+   * Register a document, replacing any existing one with that name
+   * @param name - Name other documents use to reference it
+   * @param document - The metadata document, as parsed JSON
+   * @returns The registry, for chaining
+   */
+  register(name: string, document: unknown): this {
+    if (!name || name.includes('#')) {
+      throw new Error(`[DocumentRegistry] Invalid document name: "${name}"`);
+    }
+    this.documents.set(name, document);
+    this.notify();
+    return this;
+  }
+
+  /**
+   * Remove a document from the registry
+   * @param name - Document name
+   * @returns Whether the document was registered
+   */
+  unregister(name: string): boolean {
+    const removed = this.documents.delete(name);
+    if (removed) this.notify();
+    return removed;
+  }
+
+  get(name: string): unknown {
+    return this.documents.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.documents.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /**
+   * Subscribe to registry changes
+   * @param listener - Called after every register/unregister
+   * @returns Unsubscribe function
+   */
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Monotonic change counter, suitable for useSyncExternalStore
+   */
+  getVersion = (): number => this.version;
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+}
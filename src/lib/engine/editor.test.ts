@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentConfig, LayoutMetadata } from './types';
+import { canMoveNode, duplicateNode, getNodeAt, getOutline, moveNode, removeNode } from './editor';
+
+const card = (id: string): ComponentConfig => ({ type: 'card', id, props: { title: id } });
+
+const document = (): LayoutMetadata => ({
+  layout: {
+    type: 'container',
+    children: [
+      card('a'),
+      card('b'),
+      { type: 'container', id: 'group', children: [card('c'), card('d')] },
+      { type: 'container', id: 'empty' }
+    ]
+  },
+  pages: {
+    home: { path: '/', components: [card('e')] }
+  }
+});
+
+const ids = (nodes: ComponentConfig[] | undefined) => (nodes ?? []).map(node => node.id);
+
+describe('moveNode', () => {
+  it('moves forward within a list, to the index it had before the move', () => {
+    const result = moveNode(document(), 'layout.children[0]', { list: 'layout.children', index: 2 });
+    expect(ids(result?.metadata.layout.children)).toEqual(['b', 'a', 'group', 'empty']);
+    expect(result?.path).toBe('layout.children[1]');
+  });
+
+  it('moves backward within a list', () => {
+    const result = moveNode(document(), 'layout.children[1]', { list: 'layout.children', index: 0 });
+    expect(ids(result?.metadata.layout.children)).toEqual(['b', 'a', 'group', 'empty']);
+    expect(result?.path).toBe('layout.children[0]');
+  });
+
+  it('leaves the document alone when the node stays where it is', () => {
+    const metadata = document();
+    expect(moveNode(metadata, 'layout.children[1]', { list: 'layout.children', index: 1 })?.metadata).toBe(metadata);
+    expect(moveNode(metadata, 'layout.children[1]', { list: 'layout.children', index: 2 })?.metadata).toBe(metadata);
+  });
+
+  it('shifts a target list nested in a later sibling', () => {
+    const result = moveNode(document(), 'layout.children[0]', { list: 'layout.children[2].children', index: 1 });
+    expect(result?.path).toBe('layout.children[1].children[1]');
+    expect(ids(result?.metadata.layout.children)).toEqual(['b', 'group', 'empty']);
+    expect(ids(result?.metadata.layout.children[1].children)).toEqual(['c', 'a', 'd']);
+  });
+
+  it('moves out of a nested list into an earlier position of its parent list', () => {
+    const result = moveNode(document(), 'layout.children[2].children[1]', { list: 'layout.children', index: 0 });
+    expect(ids(result?.metadata.layout.children)).toEqual(['d', 'a', 'b', 'group', 'empty']);
+    expect(ids(getNodeAt(result!.metadata, 'layout.children[3]')?.children)).toEqual(['c']);
+  });
+
+  it('creates the list of a node without children, and moves between sections', () => {
+    const result = moveNode(document(), 'pages.home.components[0]', { list: 'layout.children[3].children', index: 5 });
+    expect(result?.path).toBe('layout.children[3].children[0]');
+    expect(ids(result?.metadata.layout.children[3].children)).toEqual(['e']);
+    expect(result?.metadata.pages?.home.components).toEqual([]);
+  });
+
+  it('refuses moves into the node itself and moves of nodes outside a list', () => {
+    expect(canMoveNode('layout.children[2]', { list: 'layout.children[2].children', index: 0 })).toBe(false);
+    expect(moveNode(document(), 'layout.children[2]', { list: 'layout.children[2].children', index: 0 })).toBeUndefined();
+    expect(moveNode(document(), 'layout', { list: 'layout.children', index: 0 })).toBeUndefined();
+  });
+});
+
+describe('duplicateNode', () => {
+  it('inserts a copy after the node with new ids throughout', () => {
+    const first = duplicateNode(document(), 'layout.children[2]')!;
+    const second = duplicateNode(first.metadata, 'layout.children[2]')!;
+
+    expect(first.path).toBe('layout.children[3]');
+    expect(ids(first.metadata.layout.children)).toEqual(['a', 'b', 'group', 'group-copy', 'empty']);
+    expect(ids(first.metadata.layout.children[3].children)).toEqual(['c-copy', 'd-copy']);
+    expect(ids(second.metadata.layout.children)).toEqual(['a', 'b', 'group', 'group-copy-2', 'group-copy', 'empty']);
+  });
+});
+
+describe('removeNode', () => {
+  it('removes nodes but never the layout', () => {
+    const metadata = document();
+    expect(ids(removeNode(metadata, 'layout.children[0]').layout.children)).toEqual(['b', 'group', 'empty']);
+    expect(removeNode(metadata, 'layout')).toBe(metadata);
+  });
+});
+
+describe('getOutline', () => {
+  it('lists the layout and the components of every page with their positions', () => {
+    const outline = getOutline(document());
+    expect(outline.map(entry => entry.path)).toEqual(['layout', 'pages.home.components[0]']);
+    expect(outline[0].children[2].children.map(entry => entry.position)).toEqual([
+      { list: 'layout.children[2].children', index: 0 },
+      { list: 'layout.children[2].children', index: 1 }
+    ]);
+  });
+});
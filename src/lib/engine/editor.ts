@@ -0,0 +1,243 @@
+import type { ComponentConfig, LayoutMetadata } from './types';
+import { applyPatch, PatchOperation } from './patch';
+import { getNodeSlots, walkMetadata, walkNode } from './traverse';
+
+/**
+ * Editor - Structural edits to a document, as made by the visual builder
+ * Nodes are addressed by the JSON paths validation and traversal use, e.g.
+ * "layout.children[0].children[2]". Every edit is applied as a JSON Patch, so
+ * the parts of the document it does not touch keep their identity.
+ */
+
+/**
+ * A place in a list of nodes: some node's children, or a page's or dialog's components
+ */
+export interface NodePosition {
+  /** JSON path of the list, e.g. "layout.children" */
+  list: string;
+  index: number;
+}
+
+/**
+ * Result of an edit that leaves a node worth selecting
+ */
+export interface EditResult {
+  metadata: LayoutMetadata;
+  /** JSON path of the inserted, copied or moved node */
+  path: string;
+}
+
+/**
+ * A node of the document outline, with the nodes nested in it
+ */
+export interface OutlineEntry {
+  path: string;
+  node: ComponentConfig;
+  depth: number;
+  /** Where the node sits in its list; slot nodes and the layout itself sit in none */
+  position?: NodePosition;
+  children: OutlineEntry[];
+}
+
+const toSegments = (path: string): string[] => path.replace(/\[(\d+)\]/g, '.$1').split('.');
+
+const toPointer = (path: string): string =>
+  '/' + toSegments(path).map(segment => segment.replace(/~/g, '~0').replace(/\//g, '~1')).join('/');
+
+const getValueAt = (metadata: LayoutMetadata, path: string): unknown => {
+  let current: unknown = metadata;
+  for (const segment of toSegments(path)) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+};
+
+/**
+ * Read the node at a path
+ * @returns The node, or undefined when the path leads nowhere
+ */
+export const getNodeAt = (metadata: LayoutMetadata, path: string): ComponentConfig | undefined => {
+  const value = getValueAt(metadata, path);
+  return typeof value === 'object' && value !== null ? value as ComponentConfig : undefined;
+};
+
+/**
+ * Find where a node sits in its list
+ * @returns The position, or undefined for slot nodes and the layout itself
+ */
+export const getPosition = (path: string): NodePosition | undefined => {
+  const match = /^(.*\.(?:children|components))\[(\d+)\]$/.exec(path);
+  return match ? { list: match[1], index: Number(match[2]) } : undefined;
+};
+
+const getList = (metadata: LayoutMetadata, list: string): unknown[] | undefined => {
+  const value = getValueAt(metadata, list);
+  return Array.isArray(value) ? value : undefined;
+};
+
+/**
+ * Operations inserting a node into a list, creating the list when the owner has none
+ */
+const insertOperations = (metadata: LayoutMetadata, { list, index }: NodePosition, node: unknown): PatchOperation[] =>
+  getList(metadata, list)
+    ? [{ op: 'add', path: `${toPointer(list)}/${index}`, value: node }]
+    : [{ op: 'add', path: toPointer(list), value: [node] }];
+
+/**
+ * List the nodes of a document as a tree: the layout, then every page's and dialog's components
+ */
+export const getOutline = (metadata: LayoutMetadata): OutlineEntry[] => {
+  const build = (node: ComponentConfig, path: string, depth: number): OutlineEntry => {
+    const children: OutlineEntry[] = [];
+    for (const slot of getNodeSlots(node.type)) {
+      const slotNode = node.props?.[slot];
+      if (slotNode && typeof slotNode === 'object') children.push(build(slotNode, `${path}.props.${slot}`, depth + 1));
+    }
+    if (Array.isArray(node.children)) {
+      node.children.forEach((child, index) => {
+        if (child && typeof child === 'object') children.push(build(child, `${path}.children[${index}]`, depth + 1));
+      });
+    }
+    return { path, node, depth, position: getPosition(path), children };
+  };
+
+  const roots: OutlineEntry[] = [];
+  if (metadata?.layout) roots.push(build(metadata.layout, 'layout', 0));
+  for (const section of ['pages', 'dialogs'] as const) {
+    Object.entries(metadata?.[section] ?? {}).forEach(([id, entry]) => {
+      if (!Array.isArray(entry?.components)) return;
+      entry.components.forEach((component, index) => {
+        if (component && typeof component === 'object') {
+          roots.push(build(component, `${section}.${id}.components[${index}]`, 0));
+        }
+      });
+    });
+  }
+  return roots;
+};
+
+/**
+ * Set or clear some of a node's own fields
+ * @param changes - Fields to set; undefined clears a field
+ */
+export const updateNode = (metadata: LayoutMetadata, path: string, changes: Partial<ComponentConfig>): LayoutMetadata => {
+  const node = getNodeAt(metadata, path);
+  if (!node) return metadata;
+  const pointer = toPointer(path);
+  const operations = Object.entries(changes).flatMap(([key, value]): PatchOperation[] => {
+    const exists = Object.prototype.hasOwnProperty.call(node, key);
+    if (value === undefined) return exists ? [{ op: 'remove', path: `${pointer}/${key}` }] : [];
+    return [{ op: exists ? 'replace' : 'add', path: `${pointer}/${key}`, value }];
+  });
+  return applyPatch(metadata, operations);
+};
+
+/**
+ * Set or clear one prop of a node
+ * @param value - New value; undefined removes the prop
+ */
+export const setNodeProp = (metadata: LayoutMetadata, path: string, name: string, value: unknown): LayoutMetadata => {
+  const node = getNodeAt(metadata, path);
+  if (!node) return metadata;
+  const pointer = toPointer(path);
+  const escaped = name.replace(/~/g, '~0').replace(/\//g, '~1');
+
+  if (!node.props || typeof node.props !== 'object') {
+    return value === undefined ? metadata : applyPatch(metadata, [{ op: 'add', path: `${pointer}/props`, value: { [name]: value } }]);
+  }
+  const exists = Object.prototype.hasOwnProperty.call(node.props, name);
+  if (value === undefined) {
+    return exists ? applyPatch(metadata, [{ op: 'remove', path: `${pointer}/props/${escaped}` }]) : metadata;
+  }
+  return applyPatch(metadata, [{ op: exists ? 'replace' : 'add', path: `${pointer}/props/${escaped}`, value }]);
+};
+
+/**
+ * Insert a node into a list
+ * @returns The document and the path of the inserted node
+ */
+export const insertNode = (metadata: LayoutMetadata, position: NodePosition, node: ComponentConfig): EditResult => {
+  const length = getList(metadata, position.list)?.length ?? 0;
+  const index = Math.min(Math.max(0, position.index), length);
+  return {
+    metadata: applyPatch(metadata, insertOperations(metadata, { ...position, index }, node)),
+    path: `${position.list}[${index}]`
+  };
+};
+
+/**
+ * Remove a node; the layout itself cannot be removed
+ */
+export const removeNode = (metadata: LayoutMetadata, path: string): LayoutMetadata =>
+  path === 'layout' || !getNodeAt(metadata, path)
+    ? metadata
+    : applyPatch(metadata, [{ op: 'remove', path: toPointer(path) }]);
+
+/**
+ * Create an id no node of the document uses, based on another one
+ * @param base - The id to derive from, e.g. "sales-chart" gives "sales-chart-copy"
+ * @param used - Ids already taken; the new id is added to them
+ */
+const createUniqueId = (base: string, used: Set<string>): string => {
+  const root = `${base.replace(/-copy(-\d+)?$/, '')}-copy`;
+  let id = root;
+  for (let count = 2; used.has(id); count++) id = `${root}-${count}`;
+  used.add(id);
+  return id;
+};
+
+/**
+ * Insert a copy of a node right after it; the copy and its descendants get new ids,
+ * so that actions and saved arrangements keep targeting the original
+ * @returns The document and the path of the copy, or undefined for nodes outside a list
+ */
+export const duplicateNode = (metadata: LayoutMetadata, path: string): EditResult | undefined => {
+  const node = getNodeAt(metadata, path);
+  const position = getPosition(path);
+  if (!node || !position) return undefined;
+
+  const used = new Set<string>();
+  walkMetadata(metadata, other => {
+    if (typeof other.id === 'string') used.add(other.id);
+  });
+  const copy = structuredClone(node);
+  walkNode(copy, '', child => {
+    if (typeof child.id === 'string') child.id = createUniqueId(child.id, used);
+  });
+  return insertNode(metadata, { ...position, index: position.index + 1 }, copy);
+};
+
+/**
+ * Tell whether a node can be moved to a position: it must sit in a list itself,
+ * and cannot move into its own subtree
+ */
+export const canMoveNode = (path: string, position: NodePosition): boolean =>
+  getPosition(path) !== undefined && position.list !== path && !position.list.startsWith(`${path}.`);
+
+/**
+ * Move a node to another position, in the same list or another one
+ * @param position - Where the node goes, as the document is before the move
+ * @returns The document and the new path of the node, or undefined when the move is not possible
+ */
+export const moveNode = (metadata: LayoutMetadata, path: string, position: NodePosition): EditResult | undefined => {
+  const from = getPosition(path);
+  const node = getNodeAt(metadata, path);
+  if (!from || !node || !canMoveNode(path, position)) return undefined;
+
+  // Removing the node shifts the lists and siblings that follow it in its list
+  const shift = (target: string) => {
+    const prefix = `${from.list}[`;
+    if (!target.startsWith(prefix)) return target;
+    const end = target.indexOf(']', prefix.length);
+    const index = Number(target.slice(prefix.length, end));
+    return index > from.index ? `${prefix}${index - 1}${target.slice(end)}` : target;
+  };
+  const requested = Math.min(position.index, getList(metadata, position.list)?.length ?? 0);
+  const list = shift(position.list);
+  const index = list === from.list && requested > from.index ? requested - 1 : requested;
+  if (list === from.list && index === from.index) return { metadata, path };
+
+  const removed = removeNode(metadata, path);
+  return insertNode(removed, { list, index }, node);
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { getEndpointTemplate, getMissingEndpointParams, isEndpointRef, listEndpoints, resolveUrlSources } from './endpoints';
+import { resolveRouteParams } from './routing';
+
+const endpoints = {
+  projects: {
+    list: '/api/projects',
+    get: '/api/projects/{id}'
+  }
+};
+
+describe('isEndpointRef', () => {
+  it('matches references of exactly the reference shape', () => {
+    expect(isEndpointRef({ endpoint: 'projects.list' })).toBe(true);
+    expect(isEndpointRef({ endpoint: 'projects.get', params: { id: 7, draft: false } })).toBe(true);
+  });
+
+  it('leaves data objects that merely have an endpoint key alone', () => {
+    expect(isEndpointRef({ endpoint: 'projects.get', label: 'Project' })).toBe(false);
+    expect(isEndpointRef({ endpoint: 'projects.get', params: { id: { nested: true } } })).toBe(false);
+    expect(isEndpointRef({ endpoint: 42 })).toBe(false);
+    expect(isEndpointRef([{ endpoint: 'projects.list' }])).toBe(false);
+  });
+});
+
+describe('getEndpointTemplate', () => {
+  it('looks up dotted names', () => {
+    expect(getEndpointTemplate(endpoints, 'projects.get')).toBe('/api/projects/{id}');
+    expect(getEndpointTemplate(endpoints, 'projects')).toBeUndefined();
+    expect(getEndpointTemplate(endpoints, 'projects.toString')).toBeUndefined();
+  });
+
+  it('lists every name in declaration order', () => {
+    expect(listEndpoints(endpoints)).toEqual(['projects.list', 'projects.get']);
+  });
+});
+
+describe('getMissingEndpointParams', () => {
+  it('counts empty params as missing', () => {
+    expect(getMissingEndpointParams('/api/{team}/projects/{id}', { team: 'core', id: '' })).toEqual(['id']);
+  });
+});
+
+describe('resolveUrlSources', () => {
+  it('replaces references anywhere and the strings of url keys only', () => {
+    const resolve = (source: unknown) => `resolved:${JSON.stringify(source)}`;
+    const props = {
+      title: '/api/not-a-url',
+      dataUrl: '/api/projects',
+      actions: [{ type: 'request', url: { endpoint: 'projects.list' } }],
+      item: { endpoint: 'projects.list', label: 'kept' }
+    };
+
+    expect(resolveUrlSources(props, resolve)).toEqual({
+      title: '/api/not-a-url',
+      dataUrl: 'resolved:"/api/projects"',
+      actions: [{ type: 'request', url: 'resolved:{"endpoint":"projects.list"}' }],
+      item: { endpoint: 'projects.list', label: 'kept' }
+    });
+  });
+});
+
+describe('resolveRouteParams', () => {
+  it('fills text raw and leaves URL sources to be encoded when the URL is built', () => {
+    const props = {
+      title: 'Project {id}',
+      dataUrl: '/api/projects/{id}',
+      source: { endpoint: 'projects.get', params: { id: '{id}' } }
+    };
+
+    expect(resolveRouteParams(props, { id: 'a b' })).toEqual({
+      title: 'Project a b',
+      dataUrl: '/api/projects/{id}',
+      source: { endpoint: 'projects.get', params: { id: '{id}' } }
+    });
+  });
+
+  it('leaves bindings and unknown placeholders alone', () => {
+    expect(resolveRouteParams('{{ params.id }} {other}', { id: '1' })).toBe('{{ params.id }} {other}');
+  });
+});
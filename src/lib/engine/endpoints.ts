@@ -0,0 +1,111 @@
+import type { ApiEndpointMap, EndpointRef, UrlSource } from './types';
+import { getTemplateParams } from './routing';
+
+/**
+ * Endpoints - Named API endpoints declared in a document's apiEndpoints map
+ * Props and actions reference them as { endpoint: "projects.get", params: { id } };
+ * DataService turns references into URLs
+ */
+
+/** Keys whose values are URL sources: a URL, possibly with {name} placeholders, or an endpoint reference */
+export const URL_SOURCE_KEYS = ['dataUrl', 'url'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isParamValue = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Whether a value is an endpoint reference rather than a plain value
+ * Only objects of exactly the reference's shape count, so that props which merely
+ * have an "endpoint" key are left alone.
+ */
+export const isEndpointRef = (value: unknown): value is EndpointRef =>
+  isObject(value) &&
+  typeof value.endpoint === 'string' &&
+  Object.keys(value).every(key => key === 'endpoint' || key === 'params') &&
+  (value.params === undefined || (isObject(value.params) && Object.values(value.params).every(isParamValue)));
+
+/**
+ * Look up the URL template of a named endpoint
+ * @param endpoints - The document's apiEndpoints map
+ * @param name - Dotted endpoint name, e.g. projects.get
+ * @returns The template, or undefined when there is no such endpoint
+ */
+export const getEndpointTemplate = (endpoints: ApiEndpointMap | undefined, name: string): string | undefined => {
+  let current: unknown = endpoints;
+  for (const segment of name.split('.')) {
+    if (!isObject(current) || !Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+    current = current[segment];
+  }
+  return typeof current === 'string' ? current : undefined;
+};
+
+/**
+ * List every endpoint name of a map, in declaration order
+ * @param endpoints - The document's apiEndpoints map
+ * @returns Dotted names such as projects.get
+ */
+export const listEndpoints = (endpoints: ApiEndpointMap | undefined, prefix = ''): string[] =>
+  Object.entries(endpoints ?? {}).flatMap(([key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'string') return [name];
+    return isObject(value) ? listEndpoints(value, name) : [];
+  });
+
+/**
+ * Find the placeholders of a template that a reference leaves unset
+ * @param template - Endpoint URL template
+ * @param params - Params given by the reference
+ * @returns Names of the missing params
+ */
+export const getMissingEndpointParams = (template: string, params: EndpointRef['params'] = {}): string[] =>
+  getTemplateParams(template).filter(name => params[name] === undefined || params[name] === '');
+
+/**
+ * Replace the URL sources within a props object with URLs: endpoint references
+ * anywhere, and the strings of dataUrl and url values
+ * @param value - Props, or any value nested inside them
+ * @param resolve - Builds the URL of a source, e.g. DataService.resolveUrl
+ * @returns A copy of the value with URLs in place of sources
+ */
+export const resolveUrlSources = <T>(value: T, resolve: (source: UrlSource) => string): T => {
+  if (isEndpointRef(value)) {
+    return resolve(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveUrlSources(item, resolve)) as T;
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        typeof item === 'string' && URL_SOURCE_KEYS.includes(key) ? resolve(item) : resolveUrlSources(item, resolve)
+      ])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Find every endpoint reference within a value
+ * @param value - Props, or any value nested inside them
+ * @param path - Path segments leading to the value
+ * @returns References with their paths
+ */
+export const collectEndpointRefs = (
+  value: unknown,
+  path: Array<string | number> = []
+): Array<{ ref: EndpointRef; path: Array<string | number> }> => {
+  if (isEndpointRef(value)) {
+    return [{ ref: value, path }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectEndpointRefs(item, [...path, index]));
+  }
+  if (isObject(value)) {
+    return Object.entries(value).flatMap(([key, item]) => collectEndpointRefs(item, [...path, key]));
+  }
+  return [];
+};
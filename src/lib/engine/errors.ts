@@ -0,0 +1,121 @@
+import type { ValidationIssue } from './schema';
+
+/**
+ * Errors reported through LayoutEngine's onError callback
+ */
+
+/**
+ * Error passed to onError when metadata fails validation
+ */
+export class MetadataValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Invalid layout metadata (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n` +
+      issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'MetadataValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error raised for documents written for a newer schema than the engine supports
+ */
+export class UnsupportedSchemaVersionError extends Error {
+  readonly version: number;
+  readonly supportedVersion: number;
+
+  constructor(version: number, supportedVersion: number) {
+    super(
+      `Metadata uses schema version ${version}, but this engine supports up to version ${supportedVersion}. ` +
+      'Upgrade the engine to render it.'
+    );
+    this.name = 'UnsupportedSchemaVersionError';
+    this.version = version;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+/**
+ * Error passed to onError when a JSON Patch cannot be applied; none of its operations are
+ */
+export class PatchError extends Error {
+  /** Position of the failed operation in its patch */
+  readonly operation: number;
+
+  constructor(operation: number, message: string) {
+    super(`Cannot apply patch operation ${operation}: ${message}`);
+    this.name = 'PatchError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Error thrown when an imported file or a shared link does not hold a layout document
+ */
+export class LayoutImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutImportError';
+  }
+}
+
+/**
+ * Error thrown when an endpoint reference cannot be turned into a URL
+ */
+export class EndpointError extends Error {
+  readonly endpoint: string;
+
+  constructor(endpoint: string, message: string) {
+    super(message);
+    this.name = 'EndpointError';
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Error thrown when a backend answers a request with an error status
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly url: string;
+
+  constructor(status: number, url: string, message: string = `HTTP error! status: ${status}`) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.url = url;
+  }
+}
+
+/**
+ * Error passed to onError when a single node throws while rendering
+ */
+export class NodeRenderError extends Error {
+  readonly nodeId?: string;
+  readonly nodeType: string;
+  /** JSON path of the node in the metadata document */
+  readonly path: string;
+  /** React component stack at the point of failure */
+  readonly componentStack?: string;
+  readonly cause: unknown;
+
+  constructor(
+    cause: unknown,
+    node: { id?: string; type: string; path: string; componentStack?: string }
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Failed to render ${node.type}${node.id ? ` "${node.id}"` : ''} at ${node.path}: ${reason}`);
+    this.name = 'NodeRenderError';
+    this.nodeId = node.id;
+    this.nodeType = node.type;
+    this.path = node.path;
+    this.componentStack = node.componentStack;
+    this.cause = cause;
+    if (cause instanceof Error && cause.stack) {
+      this.stack = cause.stack;
+    }
+  }
+}
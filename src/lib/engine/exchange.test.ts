@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { LayoutMetadata } from './types';
+import { createShareUrl, decodeLayout, encodeLayout, getLayoutFileName, parseLayoutFile, readShareUrl } from './exchange';
+import { LayoutImportError, UnsupportedSchemaVersionError } from './errors';
+
+const metadata: LayoutMetadata = {
+  metadata: { title: 'Ventes — 2024 ✓', description: '', version: '1.0.0' },
+  layout: { type: 'card', props: { title: 'Chiffre d\'affaires' } }
+};
+
+describe('parseLayoutFile', () => {
+  it('reads documents with a layout or that extend another', () => {
+    expect(parseLayoutFile(JSON.stringify(metadata, null, 2))).toEqual(metadata);
+    expect(parseLayoutFile('{ "extends": "base" }')).toEqual({ extends: 'base' });
+  });
+
+  it('refuses text that is not a layout document', () => {
+    expect(() => parseLayoutFile('{ "layout": ')).toThrow(LayoutImportError);
+    expect(() => parseLayoutFile('[]')).toThrow(LayoutImportError);
+    expect(() => parseLayoutFile('{ "schemaVersion": 99, "layout": { "type": "card" } }')).toThrow(UnsupportedSchemaVersionError);
+  });
+});
+
+describe('getLayoutFileName', () => {
+  it('names files after the layout, in lower case with dashes', () => {
+    expect(getLayoutFileName('  Sales overview (Q1) ')).toBe('sales-overview-q1.json');
+    expect(getLayoutFileName('✓')).toBe('layout.json');
+  });
+});
+
+describe('shared links', () => {
+  it('carry documents, including text outside ASCII, in a URL-safe fragment', () => {
+    const encoded = encodeLayout(metadata);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeLayout(encoded)).toEqual(metadata);
+  });
+
+  it('read back the document of a link, replacing the fragment of the page it opens', () => {
+    const url = new URL(createShareUrl(metadata, 'https://example.com/builder?tab=json#old'));
+
+    expect(`${url.origin}${url.pathname}${url.search}`).toBe('https://example.com/builder?tab=json');
+    expect(readShareUrl(url.hash)).toEqual(metadata);
+  });
+
+  it('carry no document without the parameter, and report damaged ones', () => {
+    expect(readShareUrl('')).toBeUndefined();
+    expect(readShareUrl('#section')).toBeUndefined();
+    expect(() => readShareUrl('#layout=%%%')).toThrow(LayoutImportError);
+    expect(() => readShareUrl(`#layout=${encodeLayout({ title: 'Sales' } as unknown as LayoutMetadata)}`)).toThrow(LayoutImportError);
+  });
+});
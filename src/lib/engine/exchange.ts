@@ -0,0 +1,101 @@
+import type { LayoutMetadata } from './types';
+import { LayoutImportError, UnsupportedSchemaVersionError } from './errors';
+import { getSchemaVersion, SCHEMA_VERSION } from './migrations';
+
+/**
+ * Exchange - Layout documents as files and links
+ * Exported files hold the document itself, so they can be bundled or served as
+ * they are. Shared links carry the document in the URL fragment, which browsers
+ * never send to the server.
+ */
+
+/** Name of the URL fragment parameter holding a shared layout */
+export const SHARE_PARAM = 'layout';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check that a value is a layout document this engine can open
+ * Documents are only checked for their shape here; validation reports the rest
+ * once they are rendered
+ * @throws LayoutImportError for values that are not layout documents
+ * @throws UnsupportedSchemaVersionError for documents written for a newer engine
+ */
+export const toLayoutDocument = (value: unknown): LayoutMetadata => {
+  if (!isObject(value) || (!isObject(value.layout) && typeof value.extends !== 'string')) {
+    throw new LayoutImportError('The file is not a layout document: it has neither a "layout" nor an "extends" section');
+  }
+  const version = getSchemaVersion(value);
+  if (version > SCHEMA_VERSION) throw new UnsupportedSchemaVersionError(version, SCHEMA_VERSION);
+  return value as unknown as LayoutMetadata;
+};
+
+/**
+ * Read a layout document from the text of a .json file
+ * @throws LayoutImportError or UnsupportedSchemaVersionError
+ */
+export const parseLayoutFile = (text: string): LayoutMetadata => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new LayoutImportError(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return toLayoutDocument(value);
+};
+
+/**
+ * Name a file for a layout, e.g. "Sales overview" gives "sales-overview.json"
+ */
+export const getLayoutFileName = (name: string): string =>
+  `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'layout'}.json`;
+
+/**
+ * Encode a document for a URL, as base64url of its UTF-8 JSON
+ */
+export const encodeLayout = (metadata: LayoutMetadata): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(metadata));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Decode a document encoded by encodeLayout
+ * @throws LayoutImportError or UnsupportedSchemaVersionError
+ */
+export const decodeLayout = (encoded: string): LayoutMetadata => {
+  let text: string;
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    text = new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, character => character.charCodeAt(0)));
+  } catch {
+    throw new LayoutImportError('The shared link is damaged: its layout cannot be decoded');
+  }
+  return parseLayoutFile(text);
+};
+
+/**
+ * Build a link that opens a layout
+ * @param metadata - The document
+ * @param base - Page the link opens, defaults to the current one
+ */
+export const createShareUrl = (metadata: LayoutMetadata, base: string = window.location.href): string => {
+  const url = new URL(base);
+  url.hash = `${SHARE_PARAM}=${encodeLayout(metadata)}`;
+  return url.toString();
+};
+
+/**
+ * Read the layout a link carries, if any
+ * @param hash - The URL fragment, e.g. window.location.hash
+ * @returns The document, or undefined when the link carries none
+ * @throws LayoutImportError or UnsupportedSchemaVersionError for damaged links
+ */
+export const readShareUrl = (hash: string): LayoutMetadata | undefined => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  return encoded ? decodeLayout(encoded) : undefined;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compileExpression,
+  evaluateCondition,
+  evaluateExpression,
+  ExpressionError,
+  getExpressionRoots,
+  resolveTemplateBindings
+} from './expressions';
+
+describe('evaluateExpression', () => {
+  const scope = { user: { name: 'Ada', roles: ['admin'] }, data: { count: 3 } };
+
+  it('reads the scope with member access and optional chaining', () => {
+    expect(evaluateExpression('user.name', scope)).toBe('Ada');
+    expect(evaluateExpression("user['roles'][0]", scope)).toBe('admin');
+    expect(evaluateExpression('user.team?.name', scope)).toBeUndefined();
+  });
+
+  it('applies operator precedence', () => {
+    expect(evaluateExpression('1 + 2 * 3', {})).toBe(7);
+    expect(evaluateExpression('data.count > 2 && user.name', scope)).toBe('Ada');
+    expect(evaluateExpression("user.team ?? 'none'", scope)).toBe('none');
+  });
+
+  it('reads "?." followed by a digit as a conditional, not optional chaining', () => {
+    expect(evaluateExpression('data.count ?.5 : 1', scope)).toBe(0.5);
+    expect(evaluateExpression('false?.5:1', {})).toBe(1);
+  });
+
+  it('hides prototype properties and refuses calls', () => {
+    expect(evaluateExpression('user.constructor', scope)).toBeUndefined();
+    expect(evaluateExpression("user['__proto__']", scope)).toBeUndefined();
+    expect(evaluateExpression('user.name.toString', scope)).toBeUndefined();
+    expect(() => evaluateExpression('user.name.toUpperCase()', scope)).toThrow(ExpressionError);
+  });
+});
+
+describe('compileExpression', () => {
+  it('reuses the parsed expression', () => {
+    expect(compileExpression('user.name')).toBe(compileExpression('user.name'));
+  });
+
+  it('forgets the least recently used expressions', () => {
+    const first = compileExpression('params.first');
+    const kept = compileExpression('params.kept');
+    // Far more distinct expressions than the cache holds, using "kept" all along
+    for (let index = 0; index < 1000; index++) {
+      compileExpression(`params.value + ${index}`);
+      compileExpression('params.kept');
+    }
+    expect(compileExpression('params.kept')).toBe(kept);
+    expect(compileExpression('params.first')).not.toBe(first);
+  });
+});
+
+describe('resolveTemplateBindings', () => {
+  it('keeps the type of a lone binding and interpolates the others as text', () => {
+    const scope = { data: { count: 3, tags: ['a'] } };
+    expect(resolveTemplateBindings('{{ data.count }}', scope)).toBe(3);
+    expect(resolveTemplateBindings('{{ data.count }} items, {{ data.missing }}', scope)).toBe('3 items, ');
+    expect(resolveTemplateBindings('Tags: {{ data.tags }}', scope)).toBe('Tags: ["a"]');
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('accepts conditions with or without braces', () => {
+    expect(evaluateCondition('{{ user.is_anonymous }}', { user: { is_anonymous: true } })).toBe(true);
+    expect(evaluateCondition('flags.beta', { flags: {} })).toBe(false);
+  });
+});
+
+describe('getExpressionRoots', () => {
+  it('lists the variables an expression reads, including computed keys', () => {
+    expect(getExpressionRoots('data[params.id].title ?? user.name').sort()).toEqual(['data', 'params', 'user']);
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Expressions - Sandboxed data binding for metadata props
+ * A prop string may contain {{ expression }} blocks, e.g. "Hello {{ user.name }}"
+ *
+ * Expressions are parsed and evaluated here rather than by the JS engine, so only
+ * the following is possible: literals, property access on the scope, arithmetic,
+ * comparison, logical operators, ?? and the ternary operator. There are no function
+ * calls, assignments or access to prototypes.
+ */
+
+export type BindingScope = Record<string, unknown>;
+
+/**
+ * Variables LayoutEngine provides to every binding
+ */
+export const BINDING_ROOTS = ['user', 'params', 'data', 'engine', 'screen', 'flags', 'state'];
+
+export class ExpressionError extends Error {
+  readonly expression: string;
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = 'ExpressionError';
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'identifier'; value: string; pos: number }
+  | { kind: 'operator'; value: string; pos: number }
+  | { kind: 'end'; pos: number };
+
+type Node =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: Node; property: Node; computed: boolean }
+  | { kind: 'unary'; operator: string; argument: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', '[', ']', '(', ')'];
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+/** Properties that could reach outside the data, never readable from an expression */
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] ?? ''))) {
+      const match = /^\d*\.?\d+(?:[eE][+-]?\d+)?/.exec(source.slice(pos))!;
+      tokens.push({ kind: 'number', value: Number(match[0]), pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = pos + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) end++;
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) throw new ExpressionError('Unterminated string', source, pos);
+      tokens.push({ kind: 'string', value, pos });
+      pos = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(pos))!;
+      tokens.push({ kind: 'identifier', value: match[0], pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    // "a ?.5 : 1" is a conditional with a decimal, not optional chaining
+    const operator = OPERATORS.find(op => source.startsWith(op, pos) && !(op === '?.' && /[0-9]/.test(source[pos + 2] ?? '')));
+    if (!operator) throw new ExpressionError(`Unexpected character "${char}"`, source, pos);
+    tokens.push({ kind: 'operator', value: operator, pos });
+    pos += operator.length;
+  }
+
+  tokens.push({ kind: 'end', pos });
+  return tokens;
+};
+
+/**
+ * Recursive descent parser with precedence climbing for binary operators
+ */
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.kind === 'operator' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new ExpressionError(`Expected "${value}"`, source, peek().pos);
+    }
+    index++;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { kind: 'literal', value: KEYWORDS[token.value] };
+        }
+        return { kind: 'identifier', name: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const expression = parseExpression();
+          expect(')');
+          return expression;
+        }
+        break;
+    }
+    throw new ExpressionError(
+      token.kind === 'end' ? 'Unexpected end of expression' : 'Unexpected token',
+      source,
+      token.pos
+    );
+  };
+
+  const parseMember = (): Node => {
+    let node = parsePrimary();
+    for (;;) {
+      if (isOperator('.') || isOperator('?.')) {
+        index++;
+        const token = tokens[index++];
+        if (token.kind !== 'identifier') {
+          throw new ExpressionError('Expected property name', source, token.pos);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value }, computed: false };
+      } else if (isOperator('[')) {
+        index++;
+        const property = parseExpression();
+        expect(']');
+        node = { kind: 'member', object: node, property, computed: true };
+      } else if (isOperator('(')) {
+        throw new ExpressionError('Function calls are not allowed', source, peek().pos);
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): Node => {
+    if (isOperator('!') || isOperator('-') || isOperator('+')) {
+      const operator = (tokens[index++] as { value: string }).value;
+      return { kind: 'unary', operator, argument: parseUnary() };
+    }
+    return parseMember();
+  };
+
+  const parseBinary = (minPrecedence: number): Node => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const precedence = token.kind === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      index++;
+      const right = parseBinary(precedence + 1);
+      left = { kind: 'binary', operator: (token as { value: string }).value, left, right };
+    }
+  };
+
+  const parseExpression = (): Node => {
+    const test = parseBinary(1);
+    if (!isOperator('?')) return test;
+    index++;
+    const consequent = parseExpression();
+    expect(':');
+    const alternate = parseExpression();
+    return { kind: 'conditional', test, consequent, alternate };
+  };
+
+  const ast = parseExpression();
+  if (peek().kind !== 'end') {
+    throw new ExpressionError('Unexpected token', source, peek().pos);
+  }
+  return ast;
+};
+
+const readProperty = (object: unknown, property: unknown): unknown => {
+  if (object === null || object === undefined) return undefined;
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) return undefined;
+  if (typeof object === 'string' && key === 'length') return object.length;
+  if (typeof object !== 'object') return undefined;
+  // Only own data is visible, never inherited members such as toString
+  return Object.prototype.hasOwnProperty.call(object, key)
+    ? (object as Record<string, unknown>)[key]
+    : undefined;
+};
+
+const evaluateNode = (node: Node, scope: BindingScope): unknown => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      return readProperty(scope, node.name);
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+    case 'unary': {
+      const argument = evaluateNode(node.argument, scope);
+      if (node.operator === '!') return !argument;
+      if (node.operator === '-') return -Number(argument);
+      return Number(argument);
+    }
+    case 'conditional':
+      return evaluateNode(node.test, scope)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+    case 'binary': {
+      // Short-circuit operators only evaluate the right side when needed
+      if (node.operator === '&&') return evaluateNode(node.left, scope) && evaluateNode(node.right, scope);
+      if (node.operator === '||') return evaluateNode(node.left, scope) || evaluateNode(node.right, scope);
+      if (node.operator === '??') return evaluateNode(node.left, scope) ?? evaluateNode(node.right, scope);
+
+      const left = evaluateNode(node.left, scope) as never;
+      const right = evaluateNode(node.right, scope) as never;
+      switch (node.operator) {
+        case '+': return (left as number) + (right as number);
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '===': return left === right;
+        case '!==': return left !== right;
+      }
+    }
+  }
+  return undefined;
+};
+
+const MAX_COMPILED = 500;
+
+/** Parsed expressions, least recently used first */
+const compiled = new Map<string, Node>();
+
+/**
+ * Parse an expression, caching the result
+ * Only the most recently used expressions are kept, so that documents generating
+ * many distinct expressions do not grow the cache without bound.
+ * @param expression - Expression source without the surrounding braces
+ * @throws ExpressionError when the expression is invalid
+ */
+export const compileExpression = (expression: string): Node => {
+  let ast = compiled.get(expression);
+  if (ast) {
+    compiled.delete(expression);
+  } else {
+    ast = parse(expression);
+    if (compiled.size >= MAX_COMPILED) {
+      compiled.delete(compiled.keys().next().value!);
+    }
+  }
+  compiled.set(expression, ast);
+  return ast;
+};
+
+/**
+ * Evaluate an expression against a scope
+ * @param expression - Expression source, e.g. user.name ?? 'Guest'
+ * @param scope - Variables the expression can read
+ * @returns The value of the expression
+ */
+export const evaluateExpression = (expression: string, scope: BindingScope): unknown =>
+  evaluateNode(compileExpression(expression), scope);
+
+/**
+ * Root variable names referenced by an expression, e.g. ["user", "data"]
+ */
+export const getExpressionRoots = (expression: string): string[] => {
+  const roots = new Set<string>();
+  const visit = (node: Node) => {
+    switch (node.kind) {
+      case 'identifier': roots.add(node.name); break;
+      case 'member': visit(node.object); if (node.computed) visit(node.property); break;
+      case 'unary': visit(node.argument); break;
+      case 'binary': visit(node.left); visit(node.right); break;
+      case 'conditional': visit(node.test); visit(node.consequent); visit(node.alternate); break;
+    }
+  };
+  visit(compileExpression(expression));
+  return Array.from(roots);
+};
+
+const BINDING = /\{\{([\s\S]+?)\}\}/g;
+const SINGLE_BINDING = /^\{\{([\s\S]+?)\}\}$/;
+
+/**
+ * List the expressions inside a string's {{ }} blocks
+ */
+export const extractBindings = (template: string): string[] =>
+  Array.from(template.matchAll(BINDING), match => match[1].trim());
+
+export const hasBindings = (value: unknown): value is string =>
+  typeof value === 'string' && value.includes('{{');
+
+/**
+ * Resolve the bindings in a string
+ * A string that is exactly one binding keeps the expression's type,
+ * otherwise each binding is interpolated as text
+ * @param template - String with {{ }} blocks
+ * @param scope - Variables the expressions can read
+ */
+export const resolveTemplateBindings = (template: string, scope: BindingScope): unknown => {
+  const single = SINGLE_BINDING.exec(template.trim());
+  if (single && !single[1].includes('}}')) {
+    return evaluateExpression(single[1].trim(), scope);
+  }
+  return template.replace(BINDING, (_, expression: string) => {
+    const value = evaluateExpression(expression.trim(), scope);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+};
+
+/**
+ * Strip the optional {{ }} around a condition
+ * Conditions may be written either as "user.is_anonymous" or "{{ user.is_anonymous }}"
+ */
+export const unwrapCondition = (condition: string): string => {
+  const single = SINGLE_BINDING.exec(condition.trim());
+  return single ? single[1].trim() : condition.trim();
+};
+
+/**
+ * Evaluate a condition to a boolean
+ * @param condition - Expression, with or without surrounding {{ }}
+ * @param scope - Variables the expression can read
+ */
+export const evaluateCondition = (condition: string, scope: BindingScope): boolean =>
+  Boolean(evaluateExpression(unwrapCondition(condition), scope));
+
+/**
+ * Recursively resolve bindings in every string of a props object
+ * @param value - Props, or any value nested inside them
+ * @param scope - Variables the expressions can read
+ * @returns A copy of the value with bindings resolved
+ */
+export const resolveBindings = <T>(value: T, scope: BindingScope): T => {
+  if (hasBindings(value)) {
+    return resolveTemplateBindings(value, scope) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveBindings(item, scope)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveBindings(item, scope)])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Find every string containing bindings within a value
+ * @param value - Props, or any value nested inside them
+ * @param path - Path segments leading to the value
+ * @returns Binding strings with their paths
+ */
+export const collectBindings = (
+  value: unknown,
+  path: Array<string | number> = []
+): Array<{ template: string; path: Array<string | number> }> => {
+  if (hasBindings(value)) {
+    return [{ template: value, path }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectBindings(item, [...path, index]));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) => collectBindings(item, [...path, key]));
+  }
+  return [];
+};
@@ -0,0 +1,108 @@
+import { z, ZodTypeAny } from 'zod';
+import { getNodeSlots } from './traverse';
+
+/**
+ * Fields - Editable fields derived from a component's prop schema
+ * The visual builder's inspector renders one field per prop the schema declares.
+ */
+
+/**
+ * How a prop's value is edited; values that fit no other kind are edited as JSON
+ */
+export type PropFieldKind = 'text' | 'number' | 'boolean' | 'enum' | 'json';
+
+export interface PropField {
+  name: string;
+  /** Kinds the prop's value may take, preferred first, e.g. a URL or an endpoint reference */
+  kinds: PropFieldKind[];
+  /** Allowed values, for enum fields */
+  options?: string[];
+  required: boolean;
+  description?: string;
+}
+
+/** Wrappers that do not change which values a field edits */
+const unwrap = (schema: ZodTypeAny): { schema: ZodTypeAny; optional: boolean } => {
+  let current = schema;
+  let optional = false;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      optional = true;
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      optional = true;
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else if (current instanceof z.ZodLazy) {
+      current = current.schema;
+    } else {
+      return { schema: current, optional };
+    }
+  }
+};
+
+const getKinds = (schema: ZodTypeAny): { kinds: PropFieldKind[]; options?: string[] } => {
+  const { schema: inner } = unwrap(schema);
+  if (inner instanceof z.ZodString) return { kinds: ['text'] };
+  if (inner instanceof z.ZodNumber) return { kinds: ['number'] };
+  if (inner instanceof z.ZodBoolean) return { kinds: ['boolean'] };
+  if (inner instanceof z.ZodEnum) return { kinds: ['enum'], options: [...inner.options] };
+  if (inner instanceof z.ZodLiteral && typeof inner.value === 'string') return { kinds: ['enum'], options: [inner.value] };
+  if (inner instanceof z.ZodUnion) {
+    const members = (inner.options as ZodTypeAny[]).map(getKinds);
+    const options = members.flatMap(member => member.options ?? []);
+    const kinds = [...new Set(members.flatMap(member => member.kinds))];
+    return kinds.length === 1 && kinds[0] === 'enum' ? { kinds, options } : { kinds };
+  }
+  return { kinds: ['json'] };
+};
+
+/**
+ * List the editable props of a component type
+ * Slot props are left out, as they hold nodes, and so is className, which belongs
+ * to the node itself
+ * @param type - Component type
+ * @param schema - The type's prop schema; types without one have no fields
+ * @returns One field per declared prop, in declaration order
+ */
+export const getPropFields = (type: string, schema: ZodTypeAny | undefined): PropField[] => {
+  const object = schema && unwrap(schema).schema;
+  if (!(object instanceof z.ZodObject)) return [];
+
+  const slots = getNodeSlots(type);
+  return Object.entries(object.shape as Record<string, ZodTypeAny>)
+    .filter(([name]) => name !== 'className' && !slots.includes(name))
+    .map(([name, propSchema]) => ({
+      name,
+      ...getKinds(propSchema),
+      required: !unwrap(propSchema).optional,
+      description: propSchema.description
+    }));
+};
+
+/**
+ * List every prop a component type's schema declares, slots and className included
+ * @param schema - The type's prop schema
+ * @returns The names, or undefined when the schema does not list its props
+ */
+export const getDeclaredProps = (schema: ZodTypeAny | undefined): string[] | undefined => {
+  const object = schema && unwrap(schema).schema;
+  return object instanceof z.ZodObject ? Object.keys(object.shape) : undefined;
+};
+
+/**
+ * Pick how to edit a prop's current value: the field's first kind that fits it,
+ * or text for strings, which may be bindings such as "{data.total}"
+ */
+export const getFieldKind = (field: PropField, value: unknown): PropFieldKind => {
+  if (value === undefined) return field.kinds[0];
+  const fits: Record<PropFieldKind, boolean> = {
+    text: typeof value === 'string',
+    enum: typeof value === 'string' && !!field.options?.includes(value),
+    number: typeof value === 'number',
+    boolean: typeof value === 'boolean',
+    json: true
+  };
+  return field.kinds.find(kind => fits[kind]) ?? (typeof value === 'string' ? 'text' : 'json');
+};
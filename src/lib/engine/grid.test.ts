@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getGridItemStyle } from './grid';
+
+/** Only the placement, without the wrapper's own display and sizing */
+const placement = (...args: Parameters<typeof getGridItemStyle>) => {
+  const { gridArea, gridColumn, gridRow } = getGridItemStyle(...args);
+  return { gridArea, gridColumn, gridRow };
+};
+
+describe('getGridItemStyle', () => {
+  it('starts numeric lines where given and spans from them', () => {
+    expect(placement({ column: 2, colSpan: 3, row: 1, rowSpan: 2 })).toEqual({
+      gridArea: undefined,
+      gridColumn: '2 / span 3',
+      gridRow: '1 / span 2'
+    });
+  });
+
+  it('places spans without a line automatically, and lines without a span in one track', () => {
+    expect(placement({ colSpan: 2, row: 4 })).toEqual({ gridArea: undefined, gridColumn: 'auto / span 2', gridRow: '4' });
+  });
+
+  it('uses string lines as they are, ignoring spans', () => {
+    expect(placement({ column: '1 / -1', colSpan: 2, row: 'header', rowSpan: 3 })).toEqual({
+      gridArea: undefined,
+      gridColumn: '1 / -1',
+      gridRow: 'header'
+    });
+  });
+
+  it('places nothing without a placement, leaving the wrapper stretched to its cell', () => {
+    expect(getGridItemStyle({})).toEqual({ display: 'grid', minWidth: 0 });
+    expect(placement({ area: 'sidebar' })).toEqual({ gridArea: 'sidebar', gridColumn: undefined, gridRow: undefined });
+  });
+});
@@ -0,0 +1,31 @@
+import type { CSSProperties } from 'react';
+import type { GridItem } from './types';
+
+/**
+ * Grid - Placement of a grid's children, as inline styles
+ * Inline styles accept any value, unlike class names, which must be known when
+ * the CSS is built.
+ */
+
+/**
+ * One axis of a placement, e.g. "2 / span 3"
+ * A string line is a complete grid-column or grid-row value, so a span cannot be added to it.
+ */
+const toPlacement = (line: number | string | undefined, span: number | undefined): string | undefined => {
+  if (typeof line === 'string') return line;
+  if (line === undefined && !span) return undefined;
+  return `${line ?? 'auto'}${span ? ` / span ${span}` : ''}`;
+};
+
+/**
+ * Inline style for a grid placement
+ * @param item - Placement of a grid's child
+ */
+export const getGridItemStyle = ({ area, colSpan, rowSpan, column, row }: GridItem): CSSProperties => ({
+  gridArea: area,
+  gridColumn: toPlacement(column, colSpan),
+  gridRow: toPlacement(row, rowSpan),
+  // A one-cell grid stretches the node to its cell, as it would be without the wrapper
+  display: 'grid',
+  minWidth: 0
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentConfig } from './types';
+import { getNodeKeys, shareStructure } from './identity';
+
+describe('getNodeKeys', () => {
+  it('keys nodes by id, and the others by type and position among their type', () => {
+    expect(getNodeKeys([
+      { type: 'card', id: 'total' },
+      { type: 'card' },
+      { type: 'chart' },
+      { type: 'card' }
+    ])).toEqual(['#total', 'card:0', 'chart:0', 'card:1']);
+  });
+
+  it('keeps the keys of nodes when a sibling of another type or without a type is inserted before them', () => {
+    const nodes: ComponentConfig[] = [{ type: 'card' }, { type: 'chart' }];
+    const before = getNodeKeys(nodes);
+
+    expect(getNodeKeys([{ type: 'container' }, ...nodes]).slice(1)).toEqual(before);
+    expect(getNodeKeys([{} as ComponentConfig, undefined, ...nodes])).toEqual(['unknown:0', 'unknown:1', ...before]);
+  });
+
+  it('gives repeated ids a suffix, and falls back to type and position without a usable id', () => {
+    expect(getNodeKeys([
+      { type: 'card', id: 'a' },
+      { type: 'card', id: 'a' },
+      { type: 'card', id: '' },
+      { type: 'card', id: 'a' }
+    ])).toEqual(['#a', '#a:1', 'card:0', '#a:2']);
+  });
+});
+
+describe('shareStructure', () => {
+  const previous = {
+    layout: {
+      type: 'container',
+      children: [
+        { type: 'card', props: { title: 'A' } },
+        { type: 'chart', props: { chartType: 'bar', data: [1, 2] } }
+      ]
+    }
+  };
+
+  it('returns the previous value when nothing changed', () => {
+    expect(shareStructure(previous, structuredClone(previous))).toBe(previous);
+  });
+
+  it('keeps unchanged subtrees and gives new identities along the changed path', () => {
+    const next = structuredClone(previous);
+    next.layout.children[1].props.chartType = 'line';
+
+    const shared = shareStructure(previous, next);
+
+    expect(shared).toEqual(next);
+    expect(shared).not.toBe(previous);
+    expect(shared.layout).not.toBe(previous.layout);
+    expect(shared.layout.children).not.toBe(previous.layout.children);
+    expect(shared.layout.children[0]).toBe(previous.layout.children[0]);
+    expect(shared.layout.children[1]).not.toBe(previous.layout.children[1]);
+    expect(shared.layout.children[1].props.data).toBe(previous.layout.children[1].props.data);
+  });
+
+  it('treats added and removed members and items as changes', () => {
+    const added = shareStructure(previous, { ...structuredClone(previous), title: 'Sales' });
+    const removed = shareStructure(previous.layout.children, structuredClone(previous.layout.children).slice(0, 1));
+
+    expect(added).not.toBe(previous);
+    expect(added.layout).toBe(previous.layout);
+    expect(removed).toEqual([previous.layout.children[0]]);
+    expect(removed[0]).toBe(previous.layout.children[0]);
+  });
+
+  it('compares Maps by content and other objects by identity', () => {
+    const map = new Map([['a', { count: 1 }]]);
+    const date = new Date(0);
+
+    expect(shareStructure(map, new Map([['a', { count: 1 }]]))).toBe(map);
+    expect(shareStructure(date, new Date(0))).not.toBe(date);
+  });
+});
@@ -0,0 +1,77 @@
+import type { ComponentConfig } from './types';
+
+/**
+ * Identity - Stable keys for nodes and structural sharing between document versions
+ * Together they let React keep, and skip re-rendering, every node that did not
+ * change when a new version of a document replaces the old one.
+ */
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Derive a React key for each node of a list of siblings
+ * Nodes with an id are keyed by it; the others by type and position among siblings
+ * of the same type, so that adding or removing a node of another type does not
+ * remount them. Repeated ids get a suffix rather than colliding.
+ * @param nodes - Sibling nodes, in render order
+ * @returns One key per node
+ */
+export const getNodeKeys = (nodes: ReadonlyArray<ComponentConfig | undefined>): string[] => {
+  const counts = new Map<string, number>();
+  const next = (base: string) => {
+    const count = counts.get(base) ?? 0;
+    counts.set(base, count + 1);
+    return count;
+  };
+
+  return nodes.map(node => {
+    if (typeof node?.id === 'string' && node.id) {
+      const count = next(`#${node.id}`);
+      return count === 0 ? `#${node.id}` : `#${node.id}:${count}`;
+    }
+    const type = typeof node?.type === 'string' ? node.type : 'unknown';
+    return `${type}:${next(type)}`;
+  });
+};
+
+/**
+ * Return next, reusing every part of previous that is deeply equal to it
+ * Plain objects, arrays and Maps are compared by content; anything else by identity.
+ * When nothing changed, previous itself is returned.
+ * @param previous - Earlier version of the value
+ * @param next - New version of the value
+ * @returns A value equal to next that shares unchanged parts with previous
+ */
+export const shareStructure = <T>(previous: unknown, next: T): T => {
+  if (Object.is(previous, next)) return next;
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const shared = next.map((item, index) => shareStructure(previous[index], item));
+    const unchanged = previous.length === next.length && shared.every((item, index) => item === previous[index]);
+    return (unchanged ? previous : shared) as T;
+  }
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const keys = Object.keys(next);
+    const shared: Record<string, unknown> = {};
+    keys.forEach(key => {
+      shared[key] = shareStructure(previous[key], next[key]);
+    });
+    const unchanged = Object.keys(previous).length === keys.length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(previous, key) && shared[key] === previous[key]);
+    return (unchanged ? previous : shared) as T;
+  }
+
+  if (previous instanceof Map && next instanceof Map) {
+    const shared = new Map(Array.from(next, ([key, value]) => [key, shareStructure(previous.get(key), value)]));
+    const unchanged = previous.size === next.size &&
+      Array.from(shared).every(([key, value]) => previous.has(key) && previous.get(key) === value);
+    return (unchanged ? previous : shared) as T;
+  }
+
+  return next;
+};
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import type { LayoutMetadata } from './types';
+import type { LintRuleId } from './lint';
+import { lintMetadata } from './lint';
+
+/** Path of every issue a rule reports */
+const paths = (metadata: LayoutMetadata, rule: LintRuleId) =>
+  lintMetadata(metadata).issues.filter(issue => issue.rule === rule).map(issue => issue.path);
+
+const container = (...children: LayoutMetadata['layout'][]): LayoutMetadata => ({
+  layout: { type: 'container', children }
+});
+
+describe('lintMetadata', () => {
+  describe('unknown-prop', () => {
+    it('reports props the component does not declare', () => {
+      expect(paths(container({ type: 'card', props: { title: 'Sales', colour: 'red' } }), 'unknown-prop'))
+        .toEqual(['layout.children[0].props.colour']);
+    });
+
+    it('accepts declared props and actions', () => {
+      expect(paths(container({ type: 'card', props: { title: 'Sales', onClick: { type: 'navigate', to: '/' } } }), 'unknown-prop'))
+        .toEqual([]);
+    });
+  });
+
+  describe('duplicate-id', () => {
+    it('reports every node after the first that uses an id', () => {
+      const metadata = container({ type: 'card', id: 'total', props: { title: 'A' } }, { type: 'card', id: 'total', props: { title: 'B' } });
+
+      expect(lintMetadata(metadata).issues.filter(issue => issue.rule === 'duplicate-id')).toEqual([{
+        rule: 'duplicate-id',
+        severity: 'error',
+        path: 'layout.children[1].id',
+        nodePath: 'layout.children[1]',
+        message: 'Id "total" is already used by layout.children[0]'
+      }]);
+    });
+
+    it('accepts distinct ids', () => {
+      expect(paths(container({ type: 'card', id: 'a', props: { title: 'A' } }, { type: 'card', id: 'b', props: { title: 'B' } }), 'duplicate-id'))
+        .toEqual([]);
+    });
+  });
+
+  describe('hardcoded-id', () => {
+    it('reports record ids in URLs, endpoint params and endpoints', () => {
+      const metadata: LayoutMetadata = {
+        apiEndpoints: { projects: { get: '/api/projects/42' } },
+        layout: {
+          type: 'container',
+          children: [
+            { type: 'table', props: { title: 'Tasks', dataUrl: '/api/projects/507f1f77bcf86cd799439011/tasks' } },
+            { type: 'card', props: { title: 'Project', data: { endpoint: 'projects.get', params: { id: '123e4567-e89b-12d3-a456-426614174000' } } } }
+          ]
+        }
+      };
+
+      expect(paths(metadata, 'hardcoded-id')).toEqual([
+        'layout.children[0].props.dataUrl',
+        'layout.children[1].props.data.params.id',
+        'apiEndpoints.projects.get'
+      ]);
+    });
+
+    it('accepts ids taken from route parameters and placeholders', () => {
+      const metadata: LayoutMetadata = {
+        apiEndpoints: { projects: { get: '/api/projects/{id}' } },
+        layout: { type: 'table', props: { title: 'Tasks', dataUrl: '/api/projects/{{params.id}}/tasks' } }
+      };
+
+      expect(paths(metadata, 'hardcoded-id')).toEqual([]);
+    });
+  });
+
+  describe('unreachable-page', () => {
+    const pages: LayoutMetadata['pages'] = {
+      home: { path: '/', title: 'Home', components: [] },
+      reports: { path: '/reports', title: 'Reports', components: [] },
+      project: { path: '/projects/{id}', title: 'Project', components: [] }
+    };
+
+    it('reports pages nothing links to, except the home page', () => {
+      expect(paths({ layout: { type: 'container' }, pages }, 'unreachable-page')).toEqual(['pages.reports.path', 'pages.project.path']);
+    });
+
+    it('accepts pages a sidebar item or navigate action leads to', () => {
+      const metadata: LayoutMetadata = {
+        pages,
+        layout: {
+          type: 'page',
+          props: {
+            sidebar: { items: [{ label: 'Reports', href: '/reports/' }] },
+            content: { type: 'button', props: { label: 'Open', onClick: { type: 'navigate', to: '/projects/{{row.id}}' } } }
+          }
+        }
+      };
+
+      expect(paths(metadata, 'unreachable-page')).toEqual([]);
+    });
+  });
+
+  describe('missing-title', () => {
+    it('reports blank titles, untitled pages and sidebar links without a label', () => {
+      const metadata: LayoutMetadata = {
+        pages: { home: { path: '/', title: ' ', components: [] } },
+        layout: {
+          type: 'page',
+          props: {
+            sidebar: { items: [{ label: '', href: '/' }] },
+            content: { type: 'card', props: { title: '' } }
+          }
+        }
+      };
+
+      expect(paths(metadata, 'missing-title')).toEqual([
+        'layout.props.sidebar.items[0].label',
+        'layout.props.content.props.title',
+        'pages.home.title'
+      ]);
+    });
+
+    it('accepts titled components and sidebar entries that are not links', () => {
+      const metadata: LayoutMetadata = {
+        layout: {
+          type: 'page',
+          props: {
+            sidebar: { items: [{ label: 'Home', href: '/' }, { label: '' }] },
+            content: { type: 'card', props: { title: 'Total' } }
+          }
+        }
+      };
+
+      expect(paths(metadata, 'missing-title')).toEqual([]);
+    });
+  });
+
+  describe('unused-fragment', () => {
+    it('reports fragments no $ref points to, including ones that only refer to themselves', () => {
+      const metadata = {
+        schemaVersion: 2,
+        fragments: {
+          stat: { type: 'card', props: { title: 'Total' } },
+          loop: { type: 'container', children: [{ $ref: '#/fragments/loop' }] }
+        },
+        layout: { type: 'container' }
+      } as unknown as LayoutMetadata;
+
+      expect(paths(metadata, 'unused-fragment')).toEqual(['fragments.stat', 'fragments.loop']);
+    });
+
+    it('accepts fragments that are referenced', () => {
+      const metadata = {
+        schemaVersion: 2,
+        fragments: { stat: { type: 'card', props: { title: 'Total' } } },
+        layout: { type: 'container', children: [{ $ref: '#/fragments/stat' }] }
+      } as unknown as LayoutMetadata;
+
+      expect(paths(metadata, 'unused-fragment')).toEqual([]);
+    });
+  });
+
+  describe('config', () => {
+    const metadata = container(
+      { type: 'card', id: 'a', props: { title: 'A', colour: 'red' } },
+      { type: 'card', id: 'a', props: { title: 'B' } }
+    );
+
+    it('leaves out rules set to "off"', () => {
+      const report = lintMetadata(metadata, { config: { 'unknown-prop': 'off' } });
+
+      expect(report.issues.map(issue => issue.rule)).toEqual(['duplicate-id']);
+      expect(report).toMatchObject({ errorCount: 1, warningCount: 0 });
+    });
+
+    it('reports rules at the severity it sets, and counts them by it', () => {
+      const report = lintMetadata(metadata, { config: { 'duplicate-id': 'warning', 'unknown-prop': 'error' } });
+
+      expect(report.issues.map(({ rule, severity }) => `${rule} ${severity}`)).toEqual(['unknown-prop error', 'duplicate-id warning']);
+      expect(report).toMatchObject({ errorCount: 1, warningCount: 1 });
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import type { ComponentConfig, LayoutMetadata } from './types';
+import type { SchemaResolver } from './registry';
+import type { DocumentResolver } from './documents';
+import { builtInSchemaResolver, formatPath, ValidationIssue } from './schema';
+import { composeMetadata, isFragmentRef } from './compose';
+import { getNodeSlots, walkMetadata } from './traverse';
+import { getDeclaredProps } from './fields';
+import { isEndpointRef } from './endpoints';
+import { getTemplateParams } from './routing';
+import { isActionKey } from './actions';
+
+/**
+ * Lint - Checks for documents that are valid but probably not what was meant
+ * Validation rejects documents the engine cannot render; lint rules point out
+ * ones it renders in ways their authors likely did not intend, such as props a
+ * component ignores or pages nothing links to. Each rule has a severity that
+ * can be changed, or set to "off", per call.
+ */
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+export type LintRuleId =
+  | 'unknown-prop'
+  | 'duplicate-id'
+  | 'hardcoded-id'
+  | 'unreachable-page'
+  | 'missing-title'
+  | 'unused-fragment';
+
+/** Severity per rule; rules left out keep their default */
+export type LintConfig = Partial<Record<LintRuleId, LintSeverity>>;
+
+export interface LintIssue extends ValidationIssue {
+  rule: LintRuleId;
+  severity: Exclude<LintSeverity, 'off'>;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+interface LintContext {
+  /** The document as written, with its fragments and references */
+  source: LayoutMetadata;
+  /** The document as rendered, composed */
+  metadata: LayoutMetadata;
+  resolver: SchemaResolver;
+}
+
+export interface LintRule {
+  id: LintRuleId;
+  description: string;
+  severity: Exclude<LintSeverity, 'off'>;
+  check: (context: LintContext) => ValidationIssue[];
+}
+
+export interface LintOptions {
+  /** Where to look up component types and prop schemas */
+  resolver?: SchemaResolver;
+  /** Severity per rule */
+  config?: LintConfig;
+  /** Documents that $ref and extends can name */
+  documents?: DocumentResolver;
+  /** The document as composed, when the caller has composed it already; otherwise it is composed here */
+  composed?: LayoutMetadata;
+}
+
+type Segment = string | number;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Visit every value inside a value, with its path relative to it
+ */
+const visitValues = (value: unknown, visit: (value: unknown, path: Segment[]) => void, path: Segment[] = []) => {
+  visit(value, path);
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => visitValues(item, visit, [...path, index]));
+  } else if (isObject(value)) {
+    Object.entries(value).forEach(([key, item]) => visitValues(item, visit, [...path, key]));
+  }
+};
+
+/**
+ * The props a node renders with itself; slot nodes are walked as nodes of their own
+ */
+const getOwnProps = (node: ComponentConfig): Record<string, unknown> => {
+  if (!isObject(node.props)) return {};
+  const slots = getNodeSlots(node.type);
+  return Object.fromEntries(Object.entries(node.props).filter(([key]) => !slots.includes(key)));
+};
+
+const checkUnknownProps = ({ metadata, resolver }: LintContext): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const check = (type: string, props: unknown, base: string, nodePath: string) => {
+    const declared = getDeclaredProps(resolver.getPropSchema(type));
+    if (!declared || !isObject(props)) return;
+    for (const name of Object.keys(props)) {
+      // Any component can be given actions, as on<Event> props
+      if (declared.includes(name) || isActionKey(name)) continue;
+      issues.push({
+        path: `${base}.${name}`,
+        nodePath,
+        message: `Unknown prop "${name}": ${type} components ignore it. Known props: ${declared.join(', ')}`
+      });
+    }
+  };
+
+  walkMetadata(metadata, (node, path) => {
+    check(node.type, node.props, `${path}.props`, path);
+    // A page's navbar and sidebar are rendered as components of their own
+    if (node.type === 'page' && isObject(node.props)) {
+      check('navbar', node.props.navbar, `${path}.props.navbar`, path);
+      check('sidebar', node.props.sidebar, `${path}.props.sidebar`, path);
+    }
+    Object.entries(node.responsive ?? {}).forEach(([breakpoint, override]) =>
+      check(node.type, override?.props, `${path}.responsive.${breakpoint}.props`, path)
+    );
+  });
+  return issues;
+};
+
+const checkDuplicateIds = ({ metadata }: LintContext): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const first = new Map<string, string>();
+  walkMetadata(metadata, (node, path) => {
+    if (typeof node.id !== 'string') return;
+    const existing = first.get(node.id);
+    if (existing === undefined) {
+      first.set(node.id, path);
+    } else {
+      issues.push({ path: `${path}.id`, nodePath: path, message: `Id "${node.id}" is already used by ${existing}` });
+    }
+  });
+  return issues;
+};
+
+/** Values of these props are URLs */
+const URL_KEYS = ['dataUrl', 'url', 'href', 'to'];
+
+/** UUIDs, 24-digit hex object ids, and whole numbers */
+const ID_SEGMENT = /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24}|\d+)$/i;
+const ID_VALUE = /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24})$/i;
+
+const findHardcodedId = (url: string): string | undefined =>
+  url
+    .replace(/\{\{.*?\}\}/g, '')
+    .split(/[?#]/)[0]
+    .split('/')
+    .find(segment => ID_SEGMENT.test(segment));
+
+const checkHardcodedIds = ({ metadata }: LintContext): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const check = (value: unknown, base: string, nodePath: string) => {
+    visitValues(value, (item, path) => {
+      const key = path[path.length - 1];
+      if (typeof item === 'string' && typeof key === 'string' && URL_KEYS.includes(key)) {
+        const id = findHardcodedId(item);
+        if (id) {
+          issues.push({
+            path: formatPath(base, path),
+            nodePath,
+            message: `URL "${item}" contains the hardcoded id "${id}". Take it from a route parameter, a binding or endpoint params`
+          });
+        }
+      }
+      if (isEndpointRef(item)) {
+        Object.entries(item.params ?? {}).forEach(([name, param]) => {
+          if (typeof param !== 'string' || !ID_VALUE.test(param)) return;
+          issues.push({
+            path: formatPath(base, [...path, 'params', name]),
+            nodePath,
+            message: `Parameter "${name}" of endpoint "${item.endpoint}" is the hardcoded id "${param}". Take it from a route parameter or a binding`
+          });
+        });
+      }
+    });
+  };
+
+  walkMetadata(metadata, (node, path) => check(getOwnProps(node), `${path}.props`, path));
+  visitValues(metadata.apiEndpoints, (item, path) => {
+    const id = typeof item === 'string' ? findHardcodedId(item) : undefined;
+    if (id) {
+      issues.push({
+        path: formatPath('apiEndpoints', path),
+        nodePath: '',
+        message: `Endpoint "${item}" contains the hardcoded id "${id}". Use a {name} placeholder set by the references' params`
+      });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Match a link against a page path; placeholders and bindings match any segment
+ */
+const linksTo = (link: string, pagePath: string): boolean => {
+  const pattern = pagePath
+    .split(/\{\w+\}/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]+');
+  const path = link.replace(/\{\{.*?\}\}/g, 'x').split(/[?#]/)[0].replace(/(.)\/$/, '$1');
+  return new RegExp(`^${pattern}$`).test(path);
+};
+
+const checkUnreachablePages = ({ metadata }: LintContext): ValidationIssue[] => {
+  const links: string[] = [];
+  walkMetadata(metadata, node => {
+    visitValues(getOwnProps(node), (item, path) => {
+      const key = path[path.length - 1];
+      if (typeof item === 'string' && (key === 'href' || key === 'to')) links.push(item);
+    });
+  });
+
+  return Object.entries(metadata.pages ?? {})
+    .filter(([, page]) => typeof page?.path === 'string' && page.path !== '/' && !links.some(link => linksTo(link, page.path)))
+    .map(([pageId, page]) => ({
+      path: `pages.${pageId}.path`,
+      nodePath: '',
+      message: `Nothing links to page "${pageId}" (${page.path})` +
+        (getTemplateParams(page.path).length ? '' : '; add a sidebar item or a navigate action for it')
+    }));
+};
+
+const checkMissingTitles = ({ metadata, resolver }: LintContext): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const isBlank = (value: unknown) => typeof value !== 'string' || !value.trim();
+
+  walkMetadata(metadata, (node, path) => {
+    const declaresTitle = getDeclaredProps(resolver.getPropSchema(node.type))?.includes('title');
+    const title = node.props?.title;
+    // Missing required titles are reported by validation, optional ones may be left out
+    if (declaresTitle && typeof title === 'string' && isBlank(title)) {
+      issues.push({
+        path: `${path}.props.title`,
+        nodePath: path,
+        message: `The ${node.type} has no title, so assistive technology has no name to announce for it`
+      });
+    }
+
+    const sidebar = node.type === 'sidebar' ? node.props : node.type === 'page' && isObject(node.props) ? node.props.sidebar : undefined;
+    const base = node.type === 'sidebar' ? `${path}.props` : `${path}.props.sidebar`;
+    if (isObject(sidebar) && Array.isArray(sidebar.items)) {
+      sidebar.items.forEach((item, index) => {
+        // Separators and other entries without a link need no label
+        if (!isObject(item) || item.href === undefined || !isBlank(item.label)) return;
+        issues.push({
+          path: `${base}.items[${index}].label`,
+          nodePath: path,
+          message: 'The sidebar item has no label; links shown as an icon alone still need one for screen readers'
+        });
+      });
+    }
+  });
+
+  Object.entries(metadata.pages ?? {}).forEach(([pageId, page]) => {
+    if (!isObject(page) || !isBlank(page.title)) return;
+    issues.push({
+      path: `pages.${pageId}.title`,
+      nodePath: '',
+      message: `Page "${pageId}" has no title, which names the browser tab and is announced when the page opens`
+    });
+  });
+  return issues;
+};
+
+const checkUnusedFragments = ({ source }: LintContext): ValidationIssue[] => {
+  if (!isObject(source?.fragments)) return [];
+  const used = new Set<string>();
+  visitValues(source, (item, path) => {
+    if (!isFragmentRef(item)) return;
+    const match = /^#\/fragments\/([^/]+)/.exec(item.$ref);
+    // A fragment that only refers to itself is still unused
+    const name = match?.[1].replace(/~1/g, '/').replace(/~0/g, '~');
+    if (name && !(path[0] === 'fragments' && path[1] === name)) used.add(name);
+  });
+
+  return Object.keys(source.fragments)
+    .filter(name => !used.has(name))
+    .map(name => ({ path: `fragments.${name}`, nodePath: '', message: `Fragment "${name}" is never referenced` }));
+};
+
+/**
+ * Every lint rule, with its default severity
+ */
+export const LINT_RULES: readonly LintRule[] = [
+  { id: 'unknown-prop', description: 'Props the component does not declare, which it ignores', severity: 'warning', check: checkUnknownProps },
+  { id: 'duplicate-id', description: 'Ids used by more than one node', severity: 'error', check: checkDuplicateIds },
+  { id: 'hardcoded-id', description: 'Record ids written into URLs and endpoint params', severity: 'warning', check: checkHardcodedIds },
+  { id: 'unreachable-page', description: 'Pages no link or navigate action leads to', severity: 'warning', check: checkUnreachablePages },
+  { id: 'missing-title', description: 'Blank titles, pages without a title and sidebar links without a label', severity: 'warning', check: checkMissingTitles },
+  { id: 'unused-fragment', description: 'Fragments no $ref points to', severity: 'warning', check: checkUnusedFragments }
+];
+
+/**
+ * Lint a document
+ * @param metadata - The document as written, at the current schema version
+ * @param options - Resolver, severities and documents it may reference
+ * @returns Every issue found, grouped by rule
+ */
+export const lintMetadata = (metadata: LayoutMetadata, options: LintOptions = {}): LintReport => {
+  const { resolver = builtInSchemaResolver, config = {}, documents, composed } = options;
+  const context: LintContext = {
+    source: metadata,
+    metadata: composed ?? composeMetadata(metadata, documents).metadata,
+    resolver
+  };
+
+  const issues = LINT_RULES.flatMap(rule => {
+    const severity = config[rule.id] ?? rule.severity;
+    if (severity === 'off') return [];
+    return rule.check(context).map(issue => ({ ...issue, rule: rule.id, severity }));
+  });
+
+  return {
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length
+  };
+};
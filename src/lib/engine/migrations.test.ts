@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { Migration, migrateMetadata, SCHEMA_VERSION, toSourcePath } from './migrations';
+import { UnsupportedSchemaVersionError } from './errors';
+
+const unversioned = () => ({
+  layout: {
+    type: 'page',
+    props: {
+      navbar: { type: 'navbar', props: { title: 'App', logo: '/logo.svg' } },
+      content: {
+        type: 'container',
+        props: { className: 'grid gap-4' },
+        children: [
+          { type: 'chart', props: { type: 'line' } },
+          { type: 'card', props: { title: 'Total', variant: 'outline' } }
+        ]
+      }
+    }
+  }
+});
+
+const withNavbarClass = () => {
+  const document = unversioned();
+  Object.assign(document.layout.props.navbar, { className: 'border-b-0' });
+  return document;
+};
+
+describe('migrateMetadata', () => {
+  it('upgrades unversioned documents and reports every change', () => {
+    const document = unversioned();
+    const { metadata, fromVersion, toVersion, changes } = migrateMetadata(document);
+
+    expect([fromVersion, toVersion]).toEqual([1, SCHEMA_VERSION]);
+    expect(metadata.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(metadata.layout.props.navbar).toEqual({ title: 'App', logo: '/logo.svg' });
+    const [chart, card] = metadata.layout.props.content.children;
+    expect(metadata.layout.props.content.className).toBe('grid gap-4');
+    expect(chart.props).toEqual({ chartType: 'line' });
+    expect(card.props.variant).toBe('default');
+    expect(changes.map(change => change.path)).toEqual([
+      'layout.props.navbar',
+      'layout.props.content.props.className',
+      'layout.props.content.children[0].props.type',
+      'layout.props.content.children[1].props.variant'
+    ]);
+  });
+
+  it('leaves the given document untouched', () => {
+    const document = unversioned();
+    migrateMetadata(document);
+    expect(document).toEqual(unversioned());
+  });
+
+  it('leaves current documents as they are', () => {
+    const document = { schemaVersion: SCHEMA_VERSION, layout: { type: 'container', props: { className: 'kept' } } };
+    const result = migrateMetadata(document);
+    expect(result.metadata).toBe(document);
+    expect(result.changes).toEqual([]);
+  });
+
+  it('refuses documents newer than the engine', () => {
+    expect(() => migrateMetadata({ schemaVersion: SCHEMA_VERSION + 1, layout: { type: 'container' } }))
+      .toThrow(UnsupportedSchemaVersionError);
+  });
+
+  it('moves the className of a wrapped navbar into its props', () => {
+    const { metadata, changes } = migrateMetadata(withNavbarClass());
+
+    expect(metadata.layout.props.navbar).toEqual({ title: 'App', logo: '/logo.svg', className: 'border-b-0' });
+    expect(changes.slice(0, 2).map(change => change.path)).toEqual(['layout.props.navbar.className', 'layout.props.navbar']);
+  });
+
+  it('keeps wrapped slots whose other fields unwrapping would lose, and reports them', () => {
+    const document = unversioned();
+    Object.assign(document.layout.props.navbar, { id: 'top', visibleWhen: { $eq: [1, 1] } });
+    const sidebar = { type: 'sidebar', className: 'w-72', props: { className: 'border-r-0', items: [] } };
+
+    const { metadata, changes } = migrateMetadata({ layout: { ...document.layout, props: { ...document.layout.props, sidebar } } });
+
+    expect(metadata.layout.props.navbar).toEqual(document.layout.props.navbar);
+    expect(metadata.layout.props.sidebar).toEqual(sidebar);
+    expect(changes.slice(0, 2)).toEqual([
+      { path: 'layout.props.navbar', message: 'Kept the navbar node as it is: unwrapping it into its props would lose its id, visibleWhen' },
+      { path: 'layout.props.sidebar', message: 'Kept the sidebar node as it is: unwrapping it into its props would lose its className' }
+    ]);
+  });
+
+  it('runs every step in order', () => {
+    const rename = (version: number, from: string, to: string): Migration => ({
+      version,
+      description: `${from} to ${to}`,
+      migrate: (document, report) => {
+        document[to] = document[from];
+        delete document[from];
+        report(from, `Renamed to ${to}`, { from, to });
+      }
+    });
+
+    const { metadata, changes } = migrateMetadata({ first: 1 }, [rename(3, 'second', 'third'), rename(2, 'first', 'second')]);
+    expect(metadata).toEqual({ third: 1, schemaVersion: 3 });
+    expect(toSourcePath('third', changes)).toBe('first');
+  });
+});
+
+describe('toSourcePath', () => {
+  const { changes } = migrateMetadata(unversioned());
+
+  it('traces moved values back to where they were written', () => {
+    expect(toSourcePath('layout.props.navbar.logo', changes)).toBe('layout.props.navbar.props.logo');
+    expect(toSourcePath('layout.props.navbar', changes)).toBe('layout.props.navbar.props');
+    expect(toSourcePath('layout.props.content.className', changes)).toBe('layout.props.content.props.className');
+    expect(toSourcePath('layout.props.content.children[0].props.chartType', changes))
+      .toBe('layout.props.content.children[0].props.type');
+  });
+
+  it('traces the className of a wrapped navbar back to the node', () => {
+    const moved = migrateMetadata(withNavbarClass()).changes;
+    expect(toSourcePath('layout.props.navbar.className', moved)).toBe('layout.props.navbar.className');
+    expect(toSourcePath('layout.props.navbar.title', moved)).toBe('layout.props.navbar.props.title');
+  });
+
+  it('leaves paths that only share a prefix with a moved value', () => {
+    expect(toSourcePath('layout.props.navbarTitle', changes)).toBe('layout.props.navbarTitle');
+    expect(toSourcePath('layout.props.content.children[1].props.variant', changes))
+      .toBe('layout.props.content.children[1].props.variant');
+  });
+});
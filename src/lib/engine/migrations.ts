@@ -0,0 +1,204 @@
+import type { ComponentConfig, LayoutMetadata } from './types';
+import type { DocumentResolver } from './documents';
+import { UnsupportedSchemaVersionError } from './errors';
+import { walkMetadata, walkNode } from './traverse';
+
+/**
+ * Migrations - Upgrade documents written for older versions of the metadata schema
+ * A document declares the schema it was written for in "schemaVersion"; documents
+ * without one predate versioning and are treated as version 1. Each migration
+ * upgrades by exactly one version, so old documents pass through every step in order.
+ */
+
+/** Schema version this engine renders */
+export const SCHEMA_VERSION = 2;
+
+/** Version assumed for documents without a schemaVersion */
+const UNVERSIONED = 1;
+
+/**
+ * A value that a migration moved to another place in the document
+ */
+export interface MovedValue {
+  /** JSON path of the value before the change */
+  from: string;
+  /** JSON path of the value after the change */
+  to: string;
+}
+
+export interface MigrationChange {
+  /** JSON path of the changed value, as it was before the change */
+  path: string;
+  message: string;
+  /** Set when the change moved a value, so that paths into the upgraded document can be traced back */
+  moved?: MovedValue;
+}
+
+export interface Migration {
+  /** Version the migration produces; it applies to documents one version older */
+  version: number;
+  description: string;
+  /** Change the document in place, reporting every change made */
+  migrate: (document: Record<string, unknown>, report: (path: string, message: string, moved?: MovedValue) => void) => void;
+}
+
+export interface MigrationResult {
+  metadata: LayoutMetadata;
+  /** Version the document declared, or 1 when it declared none */
+  fromVersion: number;
+  toVersion: number;
+  changes: MigrationChange[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Visit every node of a document, including the nodes kept as fragments
+ */
+const walkDocument = (document: Record<string, unknown>, visit: (node: ComponentConfig, path: string) => void) => {
+  walkMetadata(document as unknown as LayoutMetadata, visit);
+  if (isObject(document.fragments)) {
+    for (const [name, fragment] of Object.entries(document.fragments)) {
+      if (isObject(fragment) && typeof fragment.type === 'string') {
+        walkNode(fragment as unknown as ComponentConfig, `fragments.${name}`, visit);
+      }
+    }
+  }
+};
+
+/**
+ * Every migration, in version order
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 2,
+    description: 'Settle node shapes that earlier documents disagreed on',
+    migrate: (document, report) => {
+      walkDocument(document, (node, path) => {
+        const props = node.props;
+        if (!isObject(props)) return;
+
+        // className belongs to the node; in props it used to win over the node's own
+        if (typeof props.className === 'string') {
+          node.className = props.className;
+          delete props.className;
+          report(`${path}.props.className`, 'Moved to the node\'s className', {
+            from: `${path}.props.className`,
+            to: `${path}.className`
+          });
+        }
+
+        if (node.type === 'chart' && typeof props.type === 'string' && props.chartType === undefined) {
+          props.chartType = props.type;
+          delete props.type;
+          report(`${path}.props.type`, 'Renamed to chartType', { from: `${path}.props.type`, to: `${path}.props.chartType` });
+        }
+
+        if (node.type === 'card' && (props.variant === 'secondary' || props.variant === 'outline')) {
+          report(`${path}.props.variant`, `Card variant "${props.variant}" does not exist, replaced with "default"`);
+          props.variant = 'default';
+        }
+
+        // Page navbars and sidebars are given as their props, not as whole nodes
+        if (node.type === 'page') {
+          for (const slot of ['navbar', 'sidebar']) {
+            const config = props[slot];
+            if (!isObject(config) || config.type !== slot || !isObject(config.props)) continue;
+
+            const base = `${path}.props.${slot}`;
+            const { type: _type, props: slotProps, className, ...fields } = config;
+            // Only the className has a place among the props; unwrapping must not lose the rest
+            const stranded = [
+              ...(className !== undefined && slotProps.className !== undefined ? ['className'] : []),
+              ...Object.keys(fields)
+            ];
+            if (stranded.length > 0) {
+              report(base, `Kept the ${slot} node as it is: unwrapping it into its props would lose its ${stranded.join(', ')}`);
+              continue;
+            }
+
+            if (className !== undefined) {
+              slotProps.className = className;
+              report(`${base}.className`, `Moved into the ${slot}'s props`, { from: `${base}.className`, to: `${base}.props.className` });
+            }
+            props[slot] = slotProps;
+            report(base, `Unwrapped the ${slot} node into its props`, { from: `${base}.props`, to: base });
+          }
+        }
+      });
+    }
+  }
+];
+
+/**
+ * Read the schema version a document was written for
+ * @param document - Metadata document
+ * @returns The declared version, or 1 for documents that declare none
+ */
+export const getSchemaVersion = (document: unknown): number =>
+  isObject(document) && typeof document.schemaVersion === 'number' ? document.schemaVersion : UNVERSIONED;
+
+/**
+ * Upgrade a document to the current schema version
+ * The document itself is left untouched; malformed documents are returned as they are,
+ * for validation to report
+ * @param document - Metadata document, as parsed JSON
+ * @param migrations - Migration steps, defaults to the engine's own
+ * @returns The upgraded document and every change made to it
+ * @throws UnsupportedSchemaVersionError when the document is newer than the engine
+ */
+export const migrateMetadata = (
+  document: unknown,
+  migrations: readonly Migration[] = MIGRATIONS
+): MigrationResult => {
+  const fromVersion = getSchemaVersion(document);
+  const toVersion = migrations.reduce((latest, migration) => Math.max(latest, migration.version), UNVERSIONED);
+
+  if (fromVersion > toVersion) {
+    throw new UnsupportedSchemaVersionError(fromVersion, toVersion);
+  }
+  if (!isObject(document) || fromVersion === toVersion || !Number.isInteger(fromVersion) || fromVersion < UNVERSIONED) {
+    return { metadata: document as LayoutMetadata, fromVersion, toVersion: fromVersion, changes: [] };
+  }
+
+  const migrated = structuredClone(document);
+  const changes: MigrationChange[] = [];
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const migration = migrations.find(candidate => candidate.version === version);
+    if (!migration) {
+      throw new Error(`[Migrations] No migration to schema version ${version}`);
+    }
+    migration.migrate(migrated, (path, message, moved) => changes.push(moved ? { path, message, moved } : { path, message }));
+    migrated.schemaVersion = version;
+  }
+
+  return { metadata: migrated as unknown as LayoutMetadata, fromVersion, toVersion, changes };
+};
+
+/**
+ * Wrap a document resolver so that documents are upgraded as they are referenced
+ * @param documents - Registered documents, in whatever version they were written for
+ * @returns Resolver returning upgraded documents; it throws for documents newer than the engine
+ */
+export const migrateDocuments = (documents: DocumentResolver): DocumentResolver => ({
+  get: name => {
+    const document = documents.get(name);
+    return document === undefined ? undefined : migrateMetadata(document).metadata;
+  }
+});
+
+/**
+ * Trace a path of an upgraded document back to the document as it was written
+ * e.g. layout.props.navbar.logo is layout.props.navbar.props.logo in a version 1 document
+ * @param path - JSON path into the upgraded document
+ * @param changes - Changes the upgrade made
+ * @returns The path of the same value before the upgrade
+ */
+export const toSourcePath = (path: string, changes: readonly MigrationChange[]): string =>
+  changes.reduceRight((current, { moved }) => {
+    if (!moved) return current;
+    const rest = current.slice(moved.to.length);
+    const within = current.startsWith(moved.to) && (rest === '' || rest.startsWith('.') || rest.startsWith('['));
+    return within ? moved.from + rest : current;
+  }, path);
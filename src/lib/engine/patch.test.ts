@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, createPatch, parsePointer } from './patch';
+import { PatchError } from './errors';
+
+const document = () => ({
+  layout: {
+    type: 'container',
+    children: [
+      { type: 'card', id: 'a', props: { title: 'A' } },
+      { type: 'card', id: 'b', props: { title: 'B' } },
+      { type: 'card', id: 'c', props: { title: 'C' } }
+    ]
+  },
+  featureFlags: { 'beta/charts': true }
+});
+
+const ids = (value: ReturnType<typeof document>) => value.layout.children.map(child => child.id);
+
+describe('parsePointer', () => {
+  it('unescapes segments', () => {
+    expect(parsePointer('')).toEqual([]);
+    expect(parsePointer('/featureFlags/beta~1charts/~0x')).toEqual(['featureFlags', 'beta/charts', '~x']);
+    expect(parsePointer('layout')).toBeUndefined();
+  });
+});
+
+describe('applyPatch', () => {
+  it('copies only the containers on the changed path', () => {
+    const original = document();
+    const patched = applyPatch(original, [{ op: 'replace', path: '/layout/children/1/props/title', value: 'Beta' }]);
+
+    expect(patched.layout.children[1].props.title).toBe('Beta');
+    expect(original.layout.children[1].props.title).toBe('B');
+    expect(patched.layout.children[0]).toBe(original.layout.children[0]);
+    expect(patched.featureFlags).toBe(original.featureFlags);
+  });
+
+  it('adds at an index, at the end with "-", and removes by index', () => {
+    const added = applyPatch(document(), [
+      { op: 'add', path: '/layout/children/1', value: { type: 'card', id: 'x' } },
+      { op: 'add', path: '/layout/children/-', value: { type: 'card', id: 'y' } },
+      { op: 'remove', path: '/layout/children/0' }
+    ]);
+    expect(ids(added)).toEqual(['x', 'b', 'c', 'y']);
+  });
+
+  it('moves within an array by removing first, as RFC 6902 specifies', () => {
+    expect(ids(applyPatch(document(), [{ op: 'move', from: '/layout/children/0', path: '/layout/children/2' }])))
+      .toEqual(['b', 'c', 'a']);
+    expect(ids(applyPatch(document(), [{ op: 'move', from: '/layout/children/2', path: '/layout/children/0' }])))
+      .toEqual(['c', 'a', 'b']);
+  });
+
+  it('copies values without sharing them', () => {
+    const patched = applyPatch(document(), [{ op: 'copy', from: '/layout/children/0', path: '/layout/children/-' }]);
+    expect(patched.layout.children[3]).toEqual(patched.layout.children[0]);
+    expect(patched.layout.children[3]).not.toBe(patched.layout.children[0]);
+  });
+
+  it('applies all operations or none', () => {
+    const original = document();
+    const apply = () => applyPatch(original, [
+      { op: 'replace', path: '/layout/type', value: 'grid' },
+      { op: 'test', path: '/layout/children/0/id', value: 'b' }
+    ]);
+
+    expect(apply).toThrow(PatchError);
+    expect(apply).toThrow('Cannot apply patch operation 1: Test failed');
+    expect(original.layout.type).toBe('container');
+  });
+
+  it('refuses paths that do not exist and moves into the value itself', () => {
+    expect(() => applyPatch(document(), [{ op: 'replace', path: '/layout/props/title', value: 'x' }])).toThrow(PatchError);
+    expect(() => applyPatch(document(), [{ op: 'remove', path: '/layout/children/3' }])).toThrow('out of bounds');
+    expect(() => applyPatch(document(), [{ op: 'add', path: '/layout/children/01', value: {} }])).toThrow('out of bounds');
+    expect(() => applyPatch(document(), [{ op: 'move', from: '/layout', path: '/layout/children/0' }])).toThrow('into itself');
+  });
+});
+
+describe('createPatch', () => {
+  it('produces a patch that turns one document into the other', () => {
+    const previous = document();
+    const next = document();
+    next.layout.children.splice(0, 1);
+    next.layout.children[0].props.title = 'Beta';
+    next.featureFlags = { 'beta/charts': false };
+
+    const patch = createPatch(previous, next);
+
+    expect(applyPatch(previous, patch)).toEqual(next);
+    expect(patch).toContainEqual({ op: 'replace', path: '/featureFlags/beta~1charts', value: false });
+  });
+
+  it('is empty for equal documents', () => {
+    expect(createPatch(document(), document())).toEqual([]);
+  });
+});
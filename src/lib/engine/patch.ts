@@ -0,0 +1,275 @@
+import { PatchError } from './errors';
+
+/**
+ * Patch - Incremental updates to metadata documents, as RFC 6902 JSON Patch
+ * Patches are applied without mutating the document: only the objects and arrays on
+ * the paths they touch are copied, every other part keeps its identity, so the
+ * engine re-renders and refetches only the nodes a patch changed.
+ */
+
+export type PatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/**
+ * Anything that delivers patches over time, e.g. a socket or an editor
+ */
+export interface PatchSource {
+  /**
+   * @param listener - Called with every patch, in order
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (patch: PatchOperation[]) => void): () => void;
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Split a JSON pointer such as /layout/children/0 into its unescaped segments
+ * @param pointer - JSON pointer; "" points at the whole document
+ * @returns Segments, or undefined for strings that are not pointers
+ */
+export const parsePointer = (pointer: string): string[] | undefined => {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) return undefined;
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const getSegments = (pointer: unknown, operation: number, field = 'path'): string[] => {
+  const segments = typeof pointer === 'string' ? parsePointer(pointer) : undefined;
+  if (!segments) {
+    throw new PatchError(operation, `Invalid JSON pointer in "${field}": ${JSON.stringify(pointer)}`);
+  }
+  return segments;
+};
+
+/**
+ * Read the array index a segment names
+ * @param allowEnd - Whether "-" and the array's length, both meaning "append", are valid
+ */
+const toIndex = (array: unknown[], segment: string, allowEnd: boolean, operation: number): number => {
+  if (allowEnd && segment === '-') return array.length;
+  const index = /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    throw new PatchError(operation, `Array index "${segment}" is out of bounds`);
+  }
+  return index;
+};
+
+const getValue = (document: unknown, segments: string[], operation: number): unknown =>
+  segments.reduce<unknown>((current, segment, depth) => {
+    if (Array.isArray(current)) return current[toIndex(current, segment, false, operation)];
+    if (isObject(current) && hasOwn(current, segment)) return current[segment];
+    throw new PatchError(operation, `Path "/${segments.slice(0, depth + 1).join('/')}" does not exist`);
+  }, document);
+
+/**
+ * Replace the value at a path, copying every container on the way to it
+ * @param update - Receives the parent container's copy and the last segment, and changes the copy
+ */
+const updateIn = (
+  document: unknown,
+  segments: string[],
+  operation: number,
+  update: (parent: Container, segment: string) => void
+): unknown => {
+  const [segment, ...rest] = segments;
+  let copy: Container;
+  if (Array.isArray(document)) copy = [...document];
+  else if (isObject(document)) copy = { ...document };
+  else throw new PatchError(operation, `Cannot change "${segment}" of a ${document === null ? 'null' : typeof document}`);
+
+  if (rest.length === 0) {
+    update(copy, segment);
+  } else if (Array.isArray(copy)) {
+    const index = toIndex(copy, segment, false, operation);
+    copy[index] = updateIn(copy[index], rest, operation, update);
+  } else {
+    if (!hasOwn(copy, segment)) {
+      throw new PatchError(operation, `Path segment "${segment}" does not exist`);
+    }
+    copy[segment] = updateIn(copy[segment], rest, operation, update);
+  }
+  return copy;
+};
+
+const add = (document: unknown, segments: string[], value: unknown, operation: number): unknown => {
+  if (segments.length === 0) return value;
+  return updateIn(document, segments, operation, (parent, segment) => {
+    if (Array.isArray(parent)) parent.splice(toIndex(parent, segment, true, operation), 0, value);
+    else parent[segment] = value;
+  });
+};
+
+const remove = (document: unknown, segments: string[], operation: number): unknown => {
+  if (segments.length === 0) {
+    throw new PatchError(operation, 'Cannot remove the whole document');
+  }
+  return updateIn(document, segments, operation, (parent, segment) => {
+    if (Array.isArray(parent)) {
+      parent.splice(toIndex(parent, segment, false, operation), 1);
+    } else if (hasOwn(parent, segment)) {
+      delete parent[segment];
+    } else {
+      throw new PatchError(operation, `Path segment "${segment}" does not exist`);
+    }
+  });
+};
+
+const replace = (document: unknown, segments: string[], value: unknown, operation: number): unknown => {
+  if (segments.length === 0) return value;
+  return updateIn(document, segments, operation, (parent, segment) => {
+    if (Array.isArray(parent)) {
+      parent[toIndex(parent, segment, false, operation)] = value;
+    } else if (hasOwn(parent, segment)) {
+      parent[segment] = value;
+    } else {
+      throw new PatchError(operation, `Path segment "${segment}" does not exist`);
+    }
+  });
+};
+
+/**
+ * Compare two JSON values by content
+ */
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasOwn(b, key) && isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+/**
+ * Apply one operation
+ * @param index - Position of the operation in its patch, for error messages
+ */
+const applyOperation = (document: unknown, operation: PatchOperation, index: number): unknown => {
+  if (!isObject(operation)) {
+    throw new PatchError(index, 'Operation must be an object');
+  }
+  const path = getSegments(operation.path, index);
+
+  switch (operation.op) {
+    case 'add':
+      return add(document, path, operation.value, index);
+    case 'remove':
+      return remove(document, path, index);
+    case 'replace':
+      return replace(document, path, operation.value, index);
+    case 'move': {
+      const from = getSegments(operation.from, index, 'from');
+      if (from.length < path.length && from.every((segment, depth) => segment === path[depth])) {
+        throw new PatchError(index, 'Cannot move a value into itself');
+      }
+      const value = getValue(document, from, index);
+      return add(remove(document, from, index), path, value, index);
+    }
+    case 'copy': {
+      const value = getValue(document, getSegments(operation.from, index, 'from'), index);
+      return add(document, path, structuredClone(value), index);
+    }
+    case 'test':
+      if (!isEqual(getValue(document, path, index), operation.value)) {
+        throw new PatchError(index, `Test failed: value at "${operation.path}" differs`);
+      }
+      return document;
+    default:
+      throw new PatchError(index, `Unknown operation: ${JSON.stringify((operation as { op: unknown }).op)}`);
+  }
+};
+
+/**
+ * Apply a JSON Patch to a document
+ * Patches are atomic: when any operation fails, none of them are applied.
+ * @param document - The document, left untouched
+ * @param patch - Operations, applied in order
+ * @returns The patched document, sharing every untouched part with the original
+ * @throws PatchError naming the first operation that failed
+ */
+export const applyPatch = <T>(document: T, patch: readonly PatchOperation[]): T =>
+  patch.reduce<unknown>((current, operation, index) => applyOperation(current, operation, index), document) as T;
+
+const escapeSegment = (segment: string | number) => String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Describe the changes from one document to another as a JSON Patch
+ * Objects are compared key by key and arrays index by index, so a patch only
+ * replaces the values that actually differ.
+ * @param previous - Document the patch applies to
+ * @param next - Document the patch produces
+ * @param path - Pointer to the compared values, for recursion
+ * @returns Operations turning previous into next
+ */
+export const createPatch = (previous: unknown, next: unknown, path = ''): PatchOperation[] => {
+  if (Object.is(previous, next)) return [];
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const operations: PatchOperation[] = [];
+    const common = Math.min(previous.length, next.length);
+    for (let index = 0; index < common; index++) {
+      operations.push(...createPatch(previous[index], next[index], `${path}/${index}`));
+    }
+    // Remove from the end, so that earlier indices stay valid
+    for (let index = previous.length - 1; index >= common; index--) {
+      operations.push({ op: 'remove', path: `${path}/${index}` });
+    }
+    for (let index = common; index < next.length; index++) {
+      operations.push({ op: 'add', path: `${path}/-`, value: next[index] });
+    }
+    return operations;
+  }
+
+  if (isObject(previous) && isObject(next)) {
+    const operations: PatchOperation[] = [];
+    for (const key of Object.keys(previous)) {
+      if (!hasOwn(next, key)) operations.push({ op: 'remove', path: `${path}/${escapeSegment(key)}` });
+    }
+    for (const [key, value] of Object.entries(next)) {
+      const childPath = `${path}/${escapeSegment(key)}`;
+      if (!hasOwn(previous, key)) operations.push({ op: 'add', path: childPath, value });
+      else operations.push(...createPatch(previous[key], value, childPath));
+    }
+    return operations;
+  }
+
+  return isEqual(previous, next) ? [] : [{ op: 'replace', path, value: next }];
+};
+
+/**
+ * PatchChannel - A PatchSource that patches are published to by hand
+ */
+export class PatchChannel implements PatchSource {
+  private listeners = new Set<(patch: PatchOperation[]) => void>();
+
+  /**
+   * Deliver a patch to every subscriber
+   * @param patch - Operations, applied in order
+   */
+  publish(patch: PatchOperation[]): void {
+    this.listeners.forEach(listener => listener(patch));
+  }
+
+  subscribe = (listener: (patch: PatchOperation[]) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
@@ -0,0 +1,188 @@
+import { lazy, type ComponentType } from 'react';
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * ComponentRegistry - Maps metadata component types to React components
+ * Apps register their own node types here or override the built-ins
+ */
+
+/**
+ * How a type is offered to users who add widgets to a customizable dashboard
+ */
+export interface WidgetDefinition {
+  description?: string;
+  /** Props of a newly added widget; they must satisfy the type's schema */
+  props: Record<string, unknown>;
+  /** Columns and rows a newly added widget spans */
+  colSpan?: number;
+  rowSpan?: number;
+}
+
+interface RegistrationOptions<P> {
+  /** Value of ComponentConfig.type that selects this component */
+  type: string;
+  /** Schema used to validate the node's props before rendering */
+  propSchema?: ZodTypeAny;
+  /** Props applied underneath the ones given in metadata */
+  defaultProps?: Partial<P>;
+  /** Human readable name shown in errors and tooling */
+  displayName?: string;
+  /** Shown with the node's props while a lazily loaded component's code is fetched */
+  fallback?: ComponentType<Partial<P>>;
+  /** Offer the type in the widget catalogue of customizable dashboards */
+  widget?: WidgetDefinition;
+}
+
+export interface ComponentRegistration<P = Record<string, unknown>> extends RegistrationOptions<P> {
+  component: ComponentType<P>;
+  /** Set for lazily loaded types: fetches the component's code, once */
+  preload?: () => Promise<unknown>;
+}
+
+/**
+ * A type whose code is only fetched once a document uses it
+ * e.g. { type: 'chart', load: () => import('./Chart').then(m => ({ default: m.Chart })) }
+ */
+export interface LazyComponentRegistration<P = Record<string, unknown>> extends RegistrationOptions<P> {
+  load: () => Promise<{ default: ComponentType<P> }>;
+}
+
+/**
+ * Read-only view of a registry, all that validation needs
+ */
+export interface SchemaResolver {
+  has(type: string): boolean;
+  getPropSchema(type: string): ZodTypeAny | undefined;
+  types(): string[];
+}
+
+type Listener = () => void;
+
+/**
+ * Turn a lazy registration into an entry whose component suspends until its code arrives
+ * The loader runs at most once, unless it fails, so that preloading and rendering share it
+ */
+const toLazyEntry = <P>(registration: LazyComponentRegistration<P>): ComponentRegistration<P> => {
+  let pending: Promise<{ default: ComponentType<P> }> | undefined;
+  const load = () => {
+    pending ??= registration.load().catch(error => {
+      pending = undefined;
+      throw error;
+    });
+    return pending;
+  };
+
+  const { load: _load, ...options } = registration;
+  return { ...options, component: lazy(load) as unknown as ComponentType<P>, preload: load };
+};
+
+export class ComponentRegistry implements SchemaResolver {
+  private entries = new Map<string, ComponentRegistration>();
+  private listeners = new Set<Listener>();
+  private version = 0;
+
+  /**
+   * @param base - Optional registry whose entries are copied into this one
+   */
+  constructor(base?: ComponentRegistry) {
+    base?.list().forEach(entry => this.entries.set(entry.type, entry));
+  }
+
+  /**
+   * Register a component type, replacing any existing entry for that type
+   * @param registration - Component, or a loader for it, with the type's schema and defaults
+   * @returns The registry, for chaining
+   */
+  register<P>(registration: ComponentRegistration<P> | LazyComponentRegistration<P>): this {
+    if (!registration.type) {
+      throw new Error('[ComponentRegistry] Cannot register a component without a type');
+    }
+
+    const entry = 'component' in registration ? registration : toLazyEntry(registration);
+    this.entries.set(registration.type, entry as unknown as ComponentRegistration);
+    this.notify();
+    return this;
+  }
+
+  /**
+   * Remove a component type from the registry
+   * @param type - Component type to remove
+   * @returns Whether the type was registered
+   */
+  unregister(type: string): boolean {
+    const removed = this.entries.delete(type);
+    if (removed) this.notify();
+    return removed;
+  }
+
+  get(type: string): ComponentRegistration | undefined {
+    return this.entries.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.entries.has(type);
+  }
+
+  getPropSchema(type: string): ZodTypeAny | undefined {
+    return this.entries.get(type)?.propSchema;
+  }
+
+  getDisplayName(type: string): string {
+    return this.entries.get(type)?.displayName ?? type;
+  }
+
+  types(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Whether the type's code is fetched on first use
+   */
+  isLazy(type: string): boolean {
+    return this.entries.get(type)?.preload !== undefined;
+  }
+
+  /**
+   * Start fetching the code of lazily loaded types, e.g. every type a document uses,
+   * so that nested components do not wait for their parents to load first
+   * @param types - Component types; unknown and eagerly loaded types are ignored
+   * @returns Resolves once every load has finished, failed loads included
+   */
+  preload(types: Iterable<string>): Promise<void> {
+    const loads = Array.from(new Set(types), type => this.entries.get(type)?.preload?.());
+    return Promise.allSettled(loads).then(() => undefined);
+  }
+
+  list(): ComponentRegistration[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Types users can add to a customizable dashboard
+   */
+  widgets(): ComponentRegistration[] {
+    return this.list().filter(entry => entry.widget !== undefined);
+  }
+
+  /**
+   * Subscribe to registry changes
+   * @param listener - Called after every register/unregister
+   * @returns Unsubscribe function
+   */
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Monotonic change counter, suitable for useSyncExternalStore
+   */
+  getVersion = (): number => this.version;
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+}
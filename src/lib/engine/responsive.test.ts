@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentConfig } from './types';
+import { applyBreakpoint, getBreakpoint, getChildOrder, isHiddenAt } from './responsive';
+
+const grid: ComponentConfig = {
+  type: 'grid',
+  props: { columns: 4, gap: 24 },
+  gridItem: { colSpan: 2 },
+  responsive: {
+    mobile: { props: { columns: 1 }, gridItem: { colSpan: 1 } },
+    tablet: { props: { columns: 2, gap: 16 } }
+  }
+};
+
+describe('getBreakpoint', () => {
+  it('reads the breakpoint from the container width, or mobile on mobile screens', () => {
+    expect(getBreakpoint(767, false)).toBe('mobile');
+    expect(getBreakpoint(768, false)).toBe('tablet');
+    expect(getBreakpoint(1024, false)).toBe('desktop');
+    expect(getBreakpoint(1280, true)).toBe('mobile');
+  });
+});
+
+describe('applyBreakpoint', () => {
+  it('merges the override of the breakpoint over the node\'s props and placement', () => {
+    expect(applyBreakpoint(grid, 'mobile')).toEqual({
+      ...grid,
+      props: { columns: 1, gap: 24 },
+      gridItem: { colSpan: 1 }
+    });
+  });
+
+  it('cascades overrides from the smallest breakpoint up, larger ones winning', () => {
+    expect(applyBreakpoint(grid, 'tablet')).toMatchObject({ props: { columns: 2, gap: 16 }, gridItem: { colSpan: 1 } });
+    expect(applyBreakpoint(grid, 'desktop')).toMatchObject({ props: { columns: 2, gap: 16 }, gridItem: { colSpan: 1 } });
+
+    const desktop = { ...grid, responsive: { ...grid.responsive, desktop: { props: { columns: 4 } } } };
+    expect(applyBreakpoint(desktop, 'desktop').props).toEqual({ columns: 4, gap: 16 });
+  });
+
+  it('returns the node itself when no override changes it', () => {
+    const card: ComponentConfig = { type: 'card', props: { title: 'A' }, responsive: { tablet: { hidden: true } } };
+    expect(applyBreakpoint(card, 'desktop')).toBe(card);
+    expect(applyBreakpoint(grid, 'mobile')).not.toBe(grid);
+  });
+});
+
+describe('isHiddenAt', () => {
+  it('hides a node from a breakpoint up, until a larger breakpoint shows it again', () => {
+    const sidebar: ComponentConfig = { type: 'sidebar', responsive: { mobile: { hidden: true }, desktop: { hidden: false } } };
+    expect(isHiddenAt(sidebar, 'mobile')).toBe(true);
+    expect(isHiddenAt(sidebar, 'tablet')).toBe(true);
+    expect(isHiddenAt(sidebar, 'desktop')).toBe(false);
+
+    const chart: ComponentConfig = { type: 'chart', responsive: { desktop: { hidden: true } } };
+    expect(isHiddenAt(chart, 'tablet')).toBe(false);
+    expect(isHiddenAt(chart, 'desktop')).toBe(true);
+  });
+});
+
+describe('getChildOrder', () => {
+  const node: ComponentConfig = {
+    type: 'container',
+    children: [{ type: 'card', id: 'a' }, { type: 'card', id: 'b' }, { type: 'card', id: 'c' }, { type: 'card' }],
+    responsive: {
+      mobile: { order: ['c', 0] },
+      desktop: { order: [3, 'missing', 9, -1, 1.5, 3, 'a'] }
+    }
+  };
+
+  it('keeps document order without an order list', () => {
+    expect(getChildOrder({ ...node, responsive: undefined }, 'mobile')).toEqual([0, 1, 2, 3]);
+  });
+
+  it('puts listed children first, by id or index, and the others after them in their own order', () => {
+    expect(getChildOrder(node, 'mobile')).toEqual([2, 0, 1, 3]);
+    expect(getChildOrder(node, 'tablet')).toEqual([2, 0, 1, 3]);
+  });
+
+  it('skips unknown ids, indices out of range and repeated entries', () => {
+    expect(getChildOrder(node, 'desktop')).toEqual([3, 0, 1, 2]);
+  });
+});
@@ -0,0 +1,85 @@
+import type { Breakpoint, BreakpointOverride, ComponentConfig } from './types';
+
+/**
+ * Responsive - Per-breakpoint overrides of nodes, applied while rendering
+ * Unlike responsive class names, overrides work for any prop and need nothing
+ * from the CSS build.
+ */
+
+export const BREAKPOINTS: readonly Breakpoint[] = ['mobile', 'tablet', 'desktop'];
+
+/** Smallest container width, in pixels, of each breakpoint above mobile */
+export const BREAKPOINT_WIDTHS = { tablet: 768, desktop: 1024 } as const;
+
+/**
+ * Find the breakpoint the layout renders at
+ * @param containerWidth - Width of the layout's container
+ * @param isMobile - Whether the device's screen is mobile-sized, whatever the container's width
+ */
+export const getBreakpoint = (containerWidth: number, isMobile: boolean): Breakpoint => {
+  if (isMobile || containerWidth < BREAKPOINT_WIDTHS.tablet) return 'mobile';
+  return containerWidth < BREAKPOINT_WIDTHS.desktop ? 'tablet' : 'desktop';
+};
+
+/**
+ * List the overrides that apply at a breakpoint, smallest breakpoint first
+ * Like Tailwind's breakpoint prefixes, an override applies at its breakpoint and every
+ * larger one, until a larger breakpoint overrides it in turn.
+ */
+const getOverrides = (node: ComponentConfig, breakpoint: Breakpoint): BreakpointOverride[] =>
+  BREAKPOINTS.slice(0, BREAKPOINTS.indexOf(breakpoint) + 1)
+    .map(candidate => node.responsive?.[candidate])
+    .filter((override): override is BreakpointOverride => override !== undefined && override !== null);
+
+/**
+ * Read a field of the overrides that apply at a breakpoint, from the largest breakpoint that sets it
+ */
+const getOverrideField = <K extends keyof BreakpointOverride>(
+  node: ComponentConfig,
+  breakpoint: Breakpoint,
+  field: K
+): BreakpointOverride[K] | undefined =>
+  getOverrides(node, breakpoint).reduce<BreakpointOverride[K] | undefined>(
+    (value, override) => override[field] ?? value,
+    undefined
+  );
+
+/**
+ * Whether a node is hidden at a breakpoint
+ */
+export const isHiddenAt = (node: ComponentConfig, breakpoint: Breakpoint): boolean =>
+  getOverrideField(node, breakpoint, 'hidden') === true;
+
+/**
+ * Merge a node's props and grid placement for a breakpoint over its own
+ * @returns The node as it renders at the breakpoint, or the node itself when nothing changes
+ */
+export const applyBreakpoint = (node: ComponentConfig, breakpoint: Breakpoint): ComponentConfig => {
+  const overrides = getOverrides(node, breakpoint).filter(override => override.props || override.gridItem);
+  if (!overrides.length) return node;
+  return overrides.reduce<ComponentConfig>((current, override) => ({
+    ...current,
+    props: override.props ? { ...current.props, ...override.props } : current.props,
+    gridItem: override.gridItem ? { ...current.gridItem, ...override.gridItem } : current.gridItem
+  }), node);
+};
+
+/**
+ * Order a node's children for a breakpoint
+ * @param node - Node whose children are ordered
+ * @param breakpoint - Current breakpoint
+ * @returns Indices of the children in display order
+ */
+export const getChildOrder = (node: ComponentConfig, breakpoint: Breakpoint): number[] => {
+  const children = node.children ?? [];
+  const indices = children.map((_, index) => index);
+  const order = getOverrideField(node, breakpoint, 'order');
+  if (!order) return indices;
+
+  const listed = order
+    .map(entry => typeof entry === 'number' ? entry : children.findIndex(child => child?.id === entry))
+    .filter((index, position, all) =>
+      Number.isInteger(index) && index >= 0 && index < children.length && all.indexOf(index) === position
+    );
+  return [...listed, ...indices.filter(index => !listed.includes(index))];
+};
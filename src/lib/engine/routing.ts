@@ -0,0 +1,94 @@
+import { isEndpointRef, URL_SOURCE_KEYS } from './endpoints';
+
+/**
+ * Routing helpers for metadata pages
+ * Page paths and prop values use {name} placeholders, e.g. /projects/{id}
+ */
+
+export type RouteParams = Record<string, string | undefined>;
+
+// Single braces only, so that {{ }} bindings are left alone
+const PLACEHOLDER = /(?<!\{)\{(\w+)\}(?!\})/g;
+
+/**
+ * Convert a metadata page path to a react-router path
+ * @param path - Metadata path such as /projects/{id}
+ * @returns Router path such as /projects/:id
+ */
+export const toRouterPath = (path: string): string => path.replace(PLACEHOLDER, ':$1');
+
+/**
+ * List the placeholder names used in a template
+ * @param template - String such as /api/projects/{id}
+ * @returns Placeholder names in order of appearance
+ */
+export const getTemplateParams = (template: string): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER), match => match[1]);
+
+/**
+ * Fill the placeholders of a template, leaving unknown ones untouched
+ * @param template - String containing {name} placeholders
+ * @param params - Values to substitute
+ * @param encode - Applied to each value, e.g. encodeURIComponent when the template is a URL
+ * @returns The filled template
+ */
+export const fillTemplate = (
+  template: string,
+  params: RouteParams,
+  encode: (value: string) => string = value => value
+): string =>
+  template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = params[name];
+    return value === undefined ? placeholder : encode(value);
+  });
+
+/**
+ * Recursively fill placeholders in every string of a props object, as they are
+ * URL sources (endpoint references, dataUrl and url values) are left as templates:
+ * DataService fills them when it builds the URL, so that values are encoded once.
+ * @param value - Props, or any value nested inside them
+ * @param params - Route params to substitute
+ * @returns A copy of the value with placeholders filled
+ */
+export const resolveRouteParams = <T>(value: T, params: RouteParams): T => {
+  if (typeof value === 'string') {
+    return fillTemplate(value, params) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveRouteParams(item, params)) as T;
+  }
+  if (isEndpointRef(value)) {
+    return value;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        typeof item === 'string' && URL_SOURCE_KEYS.includes(key) ? item : resolveRouteParams(item, params)
+      ])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Find every placeholder used in the strings of a value
+ * @param value - Props, or any value nested inside them
+ * @param path - Path segments leading to the value
+ * @returns Placeholder names with the path of the string they appear in
+ */
+export const collectPlaceholders = (
+  value: unknown,
+  path: Array<string | number> = []
+): Array<{ name: string; path: Array<string | number> }> => {
+  if (typeof value === 'string') {
+    return getTemplateParams(value).map(name => ({ name, path }));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectPlaceholders(item, [...path, index]));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) => collectPlaceholders(item, [...path, key]));
+  }
+  return [];
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { groupIssuesByNode, validateMetadata } from './schema';
+
+/** Path of every issue */
+const paths = (metadata: unknown) => validateMetadata(metadata).issues.map(issue => issue.path);
+
+describe('validateMetadata', () => {
+  it('accepts a valid document', () => {
+    expect(validateMetadata({
+      layout: { type: 'container', children: [{ type: 'card', props: { title: 'Total' } }] }
+    })).toEqual({ valid: true, issues: [] });
+  });
+
+  it('reports unknown types at the node\'s type', () => {
+    const { valid, issues } = validateMetadata({
+      layout: { type: 'container', children: [{ type: 'gauge', props: { value: 3 } }] }
+    });
+
+    expect(valid).toBe(false);
+    expect(issues).toEqual([{
+      path: 'layout.children[0].type',
+      nodePath: 'layout.children[0]',
+      message: expect.stringContaining('Unknown component type "gauge"')
+    }]);
+  });
+
+  it('reports bad and missing props at the prop\'s own path, owned by their node', () => {
+    const { issues } = validateMetadata({
+      layout: {
+        type: 'container',
+        children: [
+          { type: 'card', props: { title: 'Sales' } },
+          { type: 'chart', props: { title: 'Sales', chartType: 'donut', dataUrl: '/api/sales', height: -1 } },
+          { type: 'card', props: {} }
+        ]
+      }
+    });
+
+    expect(issues.map(({ path, nodePath }) => ({ path, nodePath }))).toEqual([
+      { path: 'layout.children[1].props.chartType', nodePath: 'layout.children[1]' },
+      { path: 'layout.children[1].props.height', nodePath: 'layout.children[1]' },
+      { path: 'layout.children[2].props.title', nodePath: 'layout.children[2]' }
+    ]);
+  });
+
+  it('reports nodes that are not nodes at their own path', () => {
+    expect(paths({ layout: { type: 'container', children: [{ props: {} }, 'card'] } })).toEqual([
+      'layout.children[0].type',
+      'layout.children[1]'
+    ]);
+  });
+
+  it('reports page navbar and sidebar issues at the props of the navbar and sidebar', () => {
+    const { issues } = validateMetadata({
+      layout: {
+        type: 'page',
+        props: {
+          navbar: { title: 42 },
+          sidebar: { items: [{ label: 'Home' }], collapsible: 'yes' }
+        }
+      }
+    });
+
+    expect(issues.map(({ path, nodePath }) => ({ path, nodePath }))).toEqual([
+      { path: 'layout.props.navbar.title', nodePath: 'layout.props.navbar' },
+      { path: 'layout.props.sidebar.collapsible', nodePath: 'layout.props.sidebar' }
+    ]);
+  });
+});
+
+describe('groupIssuesByNode', () => {
+  it('groups issues under the node that owns them', () => {
+    const report = validateMetadata({
+      layout: {
+        type: 'container',
+        children: [{ type: 'chart', props: { title: 1, chartType: 'donut', dataUrl: '/api/sales' } }]
+      }
+    });
+
+    const groups = groupIssuesByNode(report);
+
+    expect([...groups.keys()]).toEqual(['layout.children[0]']);
+    expect(groups.get('layout.children[0]')?.map(issue => issue.path)).toEqual([
+      'layout.children[0].props.title',
+      'layout.children[0].props.chartType'
+    ]);
+  });
+});
+
+describe('validateMetadata with breakpoint overrides', () => {
+  it('attributes issues with overridden props to the override, and the rest to the node', () => {
+    const { issues } = validateMetadata({
+      layout: {
+        type: 'chart',
+        props: { title: 'Sales', chartType: 'bar', dataUrl: '/api/sales', height: -1 },
+        responsive: {
+          mobile: { props: { chartType: 'donut', showLegend: false } },
+          tablet: { props: { height: 'tall' } }
+        }
+      }
+    });
+
+    expect(issues.map(({ path, nodePath }) => ({ path, nodePath }))).toEqual([
+      { path: 'layout.props.height', nodePath: 'layout' },
+      { path: 'layout.responsive.mobile.props.chartType', nodePath: 'layout' },
+      { path: 'layout.responsive.tablet.props.height', nodePath: 'layout' }
+    ]);
+  });
+
+  it('reports order entries that name no child at the entry', () => {
+    expect(paths({
+      layout: {
+        type: 'container',
+        children: [{ type: 'card', id: 'a', props: { title: 'A' } }],
+        responsive: { desktop: { order: ['a', 'b', 1] } }
+      }
+    })).toEqual(['layout.responsive.desktop.order[1]', 'layout.responsive.desktop.order[2]']);
+  });
+});
+
+describe('validateMetadata with actions', () => {
+  it('reports refetch actions that name neither a node nor a URL, and targets no node has', () => {
+    const { issues } = validateMetadata({
+      layout: {
+        type: 'card',
+        id: 'sales',
+        props: {
+          title: 'Sales',
+          onClick: [{ type: 'refetch' }, { type: 'refetch', target: 'sales' }, { type: 'refetch', target: 'revenue' }]
+        }
+      }
+    });
+
+    expect(issues.map(({ path, message }) => ({ path, message }))).toEqual([
+      { path: 'layout.props.onClick[0]', message: expect.stringContaining('needs the id of a node as "target" or a "dataUrl"') },
+      { path: 'layout.props.onClick[2].target', message: 'No node has the id "revenue"' }
+    ]);
+  });
+});
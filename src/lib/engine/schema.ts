@@ -0,0 +1,856 @@
+import { z } from 'zod';
+import type { ApiEndpointMap, BuiltInComponentType, LayoutMetadata } from './types';
+import type { SchemaResolver } from './registry';
+import { collectPlaceholders, getTemplateParams } from './routing';
+import { BINDING_ROOTS, collectBindings, extractBindings, getExpressionRoots, hasBindings, unwrapCondition } from './expressions';
+import { getNodeSlots, getSlotVariables, walkMetadata } from './traverse';
+import { collectActions, isActionKey } from './actions';
+import { collectEndpointRefs, getEndpointTemplate, getMissingEndpointParams, listEndpoints } from './endpoints';
+
+/**
+ * Schema - Validation rules for LayoutMetadata documents
+ * Every problem is reported with the JSON path of the offending value
+ */
+
+export interface ValidationIssue {
+  /** Full JSON path of the invalid value, e.g. layout.children[0].props.chartType */
+  path: string;
+  /** Path of the node the issue belongs to, used to render inline errors */
+  nodePath: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+const className = z.string();
+
+/** Pixels, or any CSS length */
+const gridLength = z.union([z.number().nonnegative(), z.string()]);
+
+/** A number of equal tracks, or a CSS track list */
+const gridTracks = z.union([z.number().int().positive(), z.string()]);
+
+const gridAlignment = z.enum(['start', 'end', 'center', 'stretch']);
+
+const nodeConfig = z.record(z.unknown());
+
+/**
+ * A URL, or a reference to a named endpoint: { endpoint: "projects.get", params: { id: "{id}" } }
+ */
+const urlSource = z.union([
+  z.string(),
+  z.object({
+    endpoint: z.string(),
+    params: z.record(z.union([z.string(), z.number(), z.boolean()])).optional()
+  }).strict()
+]);
+
+type EndpointMapSchema = z.ZodType<ApiEndpointMap>;
+const apiEndpointsSchema: EndpointMapSchema = z.lazy(() => z.record(z.union([z.string(), apiEndpointsSchema])));
+
+/**
+ * Schema of a single action; nested onSuccess/onError lists are validated separately
+ */
+export const actionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('navigate'), to: z.string(), replace: z.boolean().optional() }).passthrough(),
+  z.object({ type: z.literal('setState'), key: z.string().min(1), value: z.unknown().optional() }).passthrough(),
+  z.object({ type: z.literal('refetch'), target: z.string().optional(), dataUrl: urlSource.optional() }).passthrough(),
+  z.object({
+    type: z.literal('callApi'),
+    url: urlSource,
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional(),
+    body: z.unknown().optional(),
+    resultKey: z.string().optional()
+  }).passthrough(),
+  z.object({ type: z.literal('openDialog'), dialog: z.string(), data: z.unknown().optional() }).passthrough(),
+  z.object({ type: z.literal('closeDialog') }).passthrough(),
+  z.object({
+    type: z.literal('toast'),
+    title: z.string(),
+    description: z.string().optional(),
+    variant: z.enum(['default', 'destructive']).optional()
+  }).passthrough()
+]);
+
+const menuSchema = z.array(z.object({
+  label: z.string()
+}).passthrough());
+
+const sidebarItemSchema = z.object({
+  id: z.string().optional(),
+  label: z.string().optional(),
+  icon: z.string().optional(),
+  href: z.string().optional(),
+  active: z.boolean().optional()
+}).passthrough();
+
+/**
+ * Prop schemas for the built-in component types
+ */
+export const componentPropSchemas = {
+  navbar: z.object({
+    title: z.string().optional(),
+    showThemeToggle: z.boolean().optional(),
+    showNotifications: z.boolean().optional(),
+    actions: z.array(z.object({
+      icon: z.string(),
+      label: z.string()
+    }).passthrough()).optional(),
+    className: className.optional()
+  }).passthrough(),
+
+  sidebar: z.object({
+    items: z.array(sidebarItemSchema).optional(),
+    collapsible: z.boolean().optional(),
+    defaultCollapsed: z.boolean().optional(),
+    className: className.optional()
+  }).passthrough(),
+
+  card: z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    dataUrl: urlSource.optional(),
+    variant: z.enum(['default', 'metric', 'status', 'chart-summary']).optional(),
+    showActions: z.boolean().optional(),
+    refreshable: z.boolean().optional(),
+    menu: menuSchema.optional(),
+    className: className.optional()
+  }).passthrough(),
+
+  chart: z.object({
+    title: z.string(),
+    chartType: z.enum(['bar', 'line', 'pie', 'area']),
+    dataUrl: urlSource,
+    height: z.number().positive().optional(),
+    showLegend: z.boolean().optional(),
+    showGrid: z.boolean().optional(),
+    refreshable: z.boolean().optional(),
+    menu: menuSchema.optional(),
+    className: className.optional()
+  }).passthrough(),
+
+  projectList: z.object({
+    dataUrl: urlSource.optional(),
+    className: className.optional(),
+    limit: z.number().int().positive().optional(),
+    showActions: z.boolean().optional()
+  }).passthrough(),
+
+  projectUpdates: z.object({
+    dataUrl: urlSource.optional(),
+    className: className.optional(),
+    limit: z.number().int().positive().optional(),
+    projectId: z.string().optional(),
+    showActions: z.boolean().optional()
+  }).passthrough(),
+
+  page: z.object({
+    title: z.string().optional(),
+    navbar: z.record(z.unknown()).optional(),
+    sidebar: z.record(z.unknown()).optional(),
+    content: nodeConfig.optional(),
+    className: className.optional()
+  }).passthrough(),
+
+  container: z.object({
+    className: className.optional()
+  }).passthrough(),
+
+  text: z.object({
+    content: z.string(),
+    className: className.optional()
+  }).passthrough(),
+
+  grid: z.object({
+    columns: gridTracks.optional(),
+    minColumnWidth: gridLength.optional(),
+    rows: gridTracks.optional(),
+    autoRows: gridLength.optional(),
+    areas: z.array(z.string().regex(/^\s*[\w.-]+(\s+[\w.-]+)*\s*$/, 'Area rows are names separated by spaces, "." for an empty cell'))
+      .nonempty()
+      .refine(
+        rows => new Set(rows.map(row => row.trim().split(/\s+/).length)).size === 1,
+        'Every row of areas must have the same number of cells'
+      )
+      .optional(),
+    gap: gridLength.optional(),
+    columnGap: gridLength.optional(),
+    rowGap: gridLength.optional(),
+    alignItems: gridAlignment.optional(),
+    justifyItems: gridAlignment.optional(),
+    editable: z.boolean().optional(),
+    className: className.optional()
+  }).passthrough(),
+
+  repeat: z.object({
+    dataUrl: urlSource.optional(),
+    items: z.array(z.unknown()).optional(),
+    as: z.string()
+      .regex(/^[A-Za-z_$][\w$]*$/, 'Item alias must be a plain identifier, e.g. "project"')
+      .refine(alias => !BINDING_ROOTS.includes(alias) && alias !== 'index', alias => ({
+        message: `Item alias "${alias}" would hide a built-in variable`
+      }))
+      .optional(),
+    template: nodeConfig,
+    empty: nodeConfig.optional(),
+    loading: nodeConfig.optional(),
+    error: nodeConfig.optional(),
+    limit: z.number().int().positive().optional(),
+    className: className.optional()
+  }).passthrough().refine(props => props.dataUrl !== undefined || props.items !== undefined, {
+    message: 'Either dataUrl or items is required',
+    path: ['items']
+  })
+} satisfies Record<BuiltInComponentType, z.ZodTypeAny>;
+
+/**
+ * Resolver over the built-in schemas, used when no registry is supplied
+ */
+export const builtInSchemaResolver: SchemaResolver = {
+  has: type => Object.prototype.hasOwnProperty.call(componentPropSchemas, type),
+  getPropSchema: type => builtInSchemaResolver.has(type)
+    ? componentPropSchemas[type as BuiltInComponentType]
+    : undefined,
+  types: () => Object.keys(componentPropSchemas)
+};
+
+/**
+ * Placement of a node inside a grid
+ */
+const gridItemSchema = z.object({
+  area: z.string().regex(/^[\w-]+$/, 'Area names are letters, digits, "_" and "-"').optional(),
+  colSpan: z.number().int().positive().optional(),
+  rowSpan: z.number().int().positive().optional(),
+  column: z.union([z.number().int(), z.string()]).optional(),
+  row: z.union([z.number().int(), z.string()]).optional()
+}).strict();
+
+/**
+ * How a node differs at one breakpoint; override props are checked with the node's own
+ */
+const breakpointOverrideSchema = z.object({
+  props: z.record(z.unknown()).optional(),
+  order: z.array(z.union([z.string(), z.number().int().nonnegative()])).optional(),
+  hidden: z.boolean().optional(),
+  gridItem: gridItemSchema.optional()
+}).strict();
+
+/**
+ * Shape of a single node; props and children are checked separately
+ * so that issues can be attributed to the node that owns them
+ */
+const nodeSchema = z.object({
+  type: z.string(),
+  id: z.string().optional(),
+  className: className.optional(),
+  props: z.record(z.unknown()).optional(),
+  children: z.array(z.unknown()).optional(),
+  visibleWhen: z.string().optional(),
+  hiddenWhen: z.string().optional(),
+  gridItem: gridItemSchema.optional(),
+  responsive: z.object({
+    mobile: breakpointOverrideSchema.optional(),
+    tablet: breakpointOverrideSchema.optional(),
+    desktop: breakpointOverrideSchema.optional()
+  }).strict().optional()
+}).passthrough();
+
+/**
+ * Fields a node may declare besides any the document adds
+ */
+export const NODE_FIELDS = Object.keys(nodeSchema.shape);
+
+const pageSchema = z.object({
+  path: z.string().startsWith('/', 'Page paths must start with "/"'),
+  title: z.string().optional(),
+  state: z.record(z.unknown()).optional(),
+  components: z.array(z.unknown())
+}).passthrough();
+
+const dialogSchema = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  components: z.array(z.unknown())
+}).passthrough();
+
+const documentSchema = z.object({
+  schemaVersion: z.number().int().positive().optional(),
+  layout: z.unknown().refine(value => value !== undefined, 'Required'),
+  pages: z.record(z.unknown()).optional(),
+  featureFlags: z.record(z.boolean()).optional(),
+  state: z.record(z.unknown()).optional(),
+  dialogs: z.record(z.unknown()).optional(),
+  apiEndpoints: apiEndpointsSchema.optional(),
+  fragments: z.record(z.unknown()).optional(),
+  extends: z.string().optional(),
+  overrides: z.record(z.record(z.unknown()).nullable()).optional(),
+  theme: z.object({
+    variant: z.enum(['default', 'minimal', 'modern']),
+    primaryColor: z.string().optional()
+  }).optional(),
+  metadata: z.object({
+    title: z.string(),
+    description: z.string(),
+    version: z.string()
+  }).optional()
+}).passthrough();
+
+/**
+ * Format a path as JSON-style accessors: layout.children[2].props.title
+ */
+export const formatPath = (base: string, segments: ReadonlyArray<string | number> = []): string =>
+  segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`;
+    return path ? `${path}.${segment}` : segment;
+  }, base);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const collectZodIssues = (
+  error: z.ZodError,
+  base: string,
+  nodePath: string,
+  issues: ValidationIssue[]
+) => {
+  for (const issue of error.issues) {
+    issues.push({ path: formatPath(base, issue.path), nodePath, message: issue.message });
+  }
+};
+
+/**
+ * Drop the props of a node that are validated on their own:
+ * slot nodes, and the navbar and sidebar of a page
+ * @param type - Component type
+ * @param props - Raw props of the node
+ * @returns The props the node itself owns
+ */
+const getOwnProps = (type: string, props: unknown): unknown => {
+  const separate = type === 'page' ? [...getNodeSlots(type), 'navbar', 'sidebar'] : getNodeSlots(type);
+  if (!separate.length || !isObject(props)) return props;
+  return Object.fromEntries(Object.entries(props).filter(([key]) => !separate.includes(key)));
+};
+
+type PathSegments = Array<string | number>;
+
+const startsWith = (path: PathSegments, prefix: PathSegments) =>
+  prefix.every((segment, index) => path[index] === segment);
+
+/**
+ * Check a value against a schema, ignoring issues at the given paths
+ * Bound values are only known at render time, so their type cannot be checked here
+ * @param schema - Schema to check against
+ * @param value - Value to check
+ * @param base - Path of the value
+ * @param nodePath - Path of the node the value belongs to
+ * @param skip - Paths, relative to the value, whose issues are ignored
+ * @param issues - Accumulator for the issues found
+ */
+const checkSchema = (
+  schema: z.ZodTypeAny,
+  value: unknown,
+  base: string,
+  nodePath: string,
+  skip: PathSegments[],
+  issues: ValidationIssue[]
+) => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const checked = result.error.issues.filter(issue => !skip.some(path => startsWith(issue.path, path)));
+    collectZodIssues(new z.ZodError(checked), base, nodePath, issues);
+  }
+};
+
+/**
+ * Add variables to the binding scope of a context
+ */
+const withRoots = (context: ValidationContext, roots: string[]): ValidationContext => ({
+  ...context,
+  bindingRoots: [...new Set([...context.bindingRoots, ...roots])]
+});
+
+/**
+ * Validate a component's props against the schema registered for its type
+ * @param type - Component type
+ * @param props - Props to validate
+ * @param nodePath - Path of the node the props belong to
+ * @param context - Resolver and issue accumulator
+ * @param propsPath - Path of the props, for page navbars and sidebars which are given as their props
+ */
+const validateProps = (
+  type: string,
+  props: unknown,
+  nodePath: string,
+  context: ValidationContext,
+  propsPath = `${nodePath}.props`
+) => {
+  const { resolver, issues } = context;
+  const ownProps = getOwnProps(type, props);
+
+  // Actions are checked as a whole, their bindings can also read the event
+  const actions = collectActions(ownProps);
+  for (const { actions: list, path } of actions) {
+    validateActions(list, formatPath(propsPath, path), nodePath, withRoots(context, ['event']));
+  }
+
+  const bindings = collectBindings(ownProps).filter(binding => !binding.path.some(isActionKey));
+  validateBindings(bindings, propsPath, nodePath, context);
+  validateEndpointRefs(ownProps, propsPath, nodePath, context);
+
+  const schema = resolver.getPropSchema(type);
+  if (!schema) return;
+
+  const skip = [...bindings.map(binding => binding.path), ...actions.map(action => action.path)];
+  checkSchema(schema, props ?? {}, propsPath, nodePath, skip, issues);
+};
+
+/**
+ * Check that endpoint references name a declared endpoint and set all of its params
+ * @param value - Props, or any value nested inside them
+ * @param base - Path of the value
+ * @param nodePath - Path of the node the value belongs to
+ * @param context - Declared endpoints and issue accumulator
+ */
+const validateEndpointRefs = (value: unknown, base: string, nodePath: string, context: ValidationContext) => {
+  const { endpoints, issues } = context;
+
+  for (const { ref, path } of collectEndpointRefs(value)) {
+    // References inside actions are checked with the action; bound names are only known at render time
+    if (path.some(isActionKey) || hasBindings(ref.endpoint)) continue;
+
+    const refPath = formatPath(base, path);
+    const template = getEndpointTemplate(endpoints, ref.endpoint);
+    if (template === undefined) {
+      const known = listEndpoints(endpoints);
+      issues.push({
+        path: `${refPath}.endpoint`,
+        nodePath,
+        message: `Unknown API endpoint "${ref.endpoint}". ` +
+          (known.length ? `Expected one of: ${known.join(', ')}` : 'The document declares no apiEndpoints')
+      });
+      continue;
+    }
+
+    for (const param of getMissingEndpointParams(template, ref.params)) {
+      issues.push({
+        path: `${refPath}.params`,
+        nodePath,
+        message: `Missing parameter "${param}" for API endpoint "${ref.endpoint}" (${template})`
+      });
+    }
+  }
+};
+
+/**
+ * Validate one action or a list of actions
+ * @param actions - Raw action list from the document
+ * @param path - JSON path of the list
+ * @param nodePath - Path of the node the actions belong to
+ * @param context - Variables in scope and issue accumulator
+ */
+const validateActions = (actions: unknown, path: string, nodePath: string, context: ValidationContext) => {
+  if (Array.isArray(actions)) {
+    actions.forEach((action, index) => validateAction(action, `${path}[${index}]`, nodePath, context));
+  } else {
+    validateAction(actions, path, nodePath, context);
+  }
+};
+
+/**
+ * Validate a single action, including references to dialogs and nodes
+ * @param action - Raw action from the document
+ * @param path - JSON path of the action
+ * @param nodePath - Path of the node the action belongs to
+ * @param context - Variables in scope and issue accumulator
+ */
+const validateAction = (action: unknown, path: string, nodePath: string, context: ValidationContext) => {
+  const { issues } = context;
+  const fields = isObject(action)
+    ? Object.fromEntries(Object.entries(action).filter(([key]) => !isActionKey(key)))
+    : action;
+
+  const bindings = collectBindings(fields);
+  validateBindings(bindings, path, nodePath, context);
+  validateEndpointRefs(fields, path, nodePath, context);
+  checkSchema(actionSchema, action, path, nodePath, bindings.map(binding => binding.path), issues);
+  if (!isObject(action)) return;
+
+  const isLiteral = (value: unknown): value is string => typeof value === 'string' && !hasBindings(value);
+
+  if (action.type === 'openDialog' && isLiteral(action.dialog) && !context.dialogs.includes(action.dialog)) {
+    issues.push({
+      path: `${path}.dialog`,
+      nodePath,
+      message: `Unknown dialog "${action.dialog}". ` +
+        (context.dialogs.length ? `Declared dialogs: ${context.dialogs.join(', ')}` : 'The document declares no dialogs')
+    });
+  }
+
+  if (action.type === 'refetch' && action.target === undefined && action.dataUrl === undefined) {
+    issues.push({
+      path,
+      nodePath,
+      message: 'A refetch action needs the id of a node as "target" or a "dataUrl"; it does not refetch everything'
+    });
+  }
+
+  if (action.type === 'refetch' && isLiteral(action.target) && !context.nodeIds.has(action.target)) {
+    issues.push({
+      path: `${path}.target`,
+      nodePath,
+      message: `No node has the id "${action.target}"`
+    });
+  }
+
+  if (action.type === 'callApi') {
+    if (action.onSuccess !== undefined) {
+      validateActions(action.onSuccess, `${path}.onSuccess`, nodePath, withRoots(context, ['result']));
+    }
+    if (action.onError !== undefined) {
+      validateActions(action.onError, `${path}.onError`, nodePath, withRoots(context, ['error']));
+    }
+  }
+};
+
+/**
+ * Check that every {{ }} binding parses and only reads known variables
+ * @param bindings - Binding strings found in a value
+ * @param base - Path of the value the bindings were collected from
+ * @param nodePath - Path of the node the value belongs to
+ * @param context - Variables in scope and issue accumulator
+ */
+const validateBindings = (
+  bindings: ReturnType<typeof collectBindings>,
+  base: string,
+  nodePath: string,
+  context: ValidationContext
+) => {
+  for (const { template, path } of bindings) {
+    for (const expression of extractBindings(template)) {
+      validateExpression(expression, formatPath(base, path), nodePath, context);
+    }
+  }
+};
+
+/**
+ * Check that a single expression parses and only reads known variables
+ * @param expression - Expression source without braces
+ * @param path - Path of the value holding the expression
+ * @param nodePath - Path of the node the expression belongs to
+ * @param context - Variables in scope and issue accumulator
+ */
+const validateExpression = (
+  expression: string,
+  path: string,
+  nodePath: string,
+  { bindingRoots, issues }: ValidationContext
+) => {
+  try {
+    const unknownRoots = getExpressionRoots(expression).filter(root => !bindingRoots.includes(root));
+    if (unknownRoots.length) {
+      issues.push({
+        path,
+        nodePath,
+        message: `Unknown variable "${unknownRoots[0]}" in {{ ${expression} }}. Available: ${bindingRoots.join(', ')}`
+      });
+    }
+  } catch (error) {
+    issues.push({
+      path,
+      nodePath,
+      message: error instanceof Error ? error.message : 'Invalid expression'
+    });
+  }
+};
+
+/**
+ * Validate a node's breakpoint overrides
+ * Override props are checked merged over the node's own, since they only need to complete them
+ */
+const validateResponsive = (
+  type: string,
+  props: Record<string, unknown> | undefined,
+  children: unknown[],
+  responsive: z.infer<typeof nodeSchema>['responsive'] & object,
+  path: string,
+  context: ValidationContext
+) => {
+  for (const [breakpoint, override] of Object.entries(responsive)) {
+    const overridePath = `${path}.responsive.${breakpoint}`;
+
+    if (override?.props) {
+      // Only issues with the overridden props belong to the override; the rest are the node's own
+      const merged: ValidationIssue[] = [];
+      const prefix = `${path}.props.`;
+      validateProps(type, { ...props, ...override.props }, path, { ...context, issues: merged });
+      for (const issue of merged) {
+        const propPath = issue.path.slice(prefix.length);
+        if (issue.path.startsWith(prefix) && propPath.split(/[.[]/)[0] in override.props) {
+          context.issues.push({ ...issue, path: `${overridePath}.props.${propPath}` });
+        }
+      }
+    }
+
+    override?.order?.forEach((entry, index) => {
+      const found = typeof entry === 'number'
+        ? entry < children.length
+        : children.some(child => isObject(child) && child.id === entry);
+      if (!found) {
+        context.issues.push({
+          path: `${overridePath}.order[${index}]`,
+          nodePath: path,
+          message: typeof entry === 'number'
+            ? `Child index ${entry} is out of range, the node has ${children.length} ${children.length === 1 ? 'child' : 'children'}`
+            : `No child with id "${entry}"`
+        });
+      }
+    });
+  }
+};
+
+/**
+ * Check that the areas a grid's children are placed in are declared by the grid,
+ * at any breakpoint
+ */
+const validateGridAreas = (
+  props: Record<string, unknown> | undefined,
+  responsive: z.infer<typeof nodeSchema>['responsive'],
+  children: unknown[],
+  path: string,
+  context: ValidationContext
+) => {
+  const declared = new Set<string>();
+  for (const areas of [props?.areas, ...Object.values(responsive ?? {}).map(override => override?.props?.areas)]) {
+    if (!Array.isArray(areas)) continue;
+    areas.forEach(row => typeof row === 'string' && row.trim().split(/\s+/).forEach(name => declared.add(name)));
+  }
+
+  children.forEach((child, index) => {
+    if (!isObject(child)) return;
+    const childPath = `${path}.children[${index}]`;
+    const placements: Array<[string, unknown]> = [[`${childPath}.gridItem`, child.gridItem]];
+    if (isObject(child.responsive)) {
+      for (const [breakpoint, override] of Object.entries(child.responsive)) {
+        if (isObject(override)) placements.push([`${childPath}.responsive.${breakpoint}.gridItem`, override.gridItem]);
+      }
+    }
+
+    for (const [placementPath, placement] of placements) {
+      if (!isObject(placement) || typeof placement.area !== 'string' || declared.has(placement.area)) continue;
+      context.issues.push({
+        path: `${placementPath}.area`,
+        nodePath: childPath,
+        message: declared.size > 0
+          ? `Unknown grid area "${placement.area}". The grid declares: ${[...declared].filter(name => name !== '.').join(', ')}`
+          : `Unknown grid area "${placement.area}". The grid declares no areas`
+      });
+    }
+  });
+};
+
+/**
+ * Check that users can rearrange an editable grid: positions are computed from
+ * a fixed number of columns and rows, and are saved by widget id
+ */
+const validateEditableGrid = (
+  id: unknown,
+  props: Record<string, unknown> | undefined,
+  children: unknown[],
+  path: string,
+  context: ValidationContext
+) => {
+  if (props?.editable !== true) return;
+
+  const requirements: Array<[string, boolean, string]> = [
+    [`${path}.id`, typeof id === 'string', 'Editable grids need an id, which saved arrangements refer to'],
+    [`${path}.props.columns`, typeof props.columns === 'number', 'Editable grids need a number of columns'],
+    [`${path}.props.autoRows`, typeof props.autoRows === 'number', 'Editable grids need a row height in pixels']
+  ];
+  for (const [issuePath, met, message] of requirements) {
+    if (!met) context.issues.push({ path: issuePath, nodePath: path, message });
+  }
+
+  children.forEach((child, index) => {
+    if (!isObject(child) || typeof child.id === 'string') return;
+    const childPath = `${path}.children[${index}]`;
+    context.issues.push({
+      path: `${childPath}.id`,
+      nodePath: childPath,
+      message: 'Widgets of an editable grid need an id, which saved arrangements refer to'
+    });
+  });
+};
+
+interface ValidationContext {
+  resolver: SchemaResolver;
+  issues: ValidationIssue[];
+  /** Route params available to the nodes being validated, when inside a page */
+  routeParams?: string[];
+  /** Variables bindings may read: the engine's roots plus any added by enclosing slots */
+  bindingRoots: readonly string[];
+  /** Ids of the document's dialogs, for openDialog actions */
+  dialogs: string[];
+  /** Ids of the document's nodes, for refetch actions */
+  nodeIds: Set<string>;
+  /** The document's apiEndpoints, for endpoint references */
+  endpoints?: ApiEndpointMap;
+}
+
+/**
+ * Recursively validate a node and its descendants
+ * @param node - Raw node value from the document
+ * @param path - JSON path of the node
+ * @param context - Resolver and issue accumulator
+ */
+const validateNode = (node: unknown, path: string, context: ValidationContext) => {
+  const { resolver, issues } = context;
+  const shape = nodeSchema.safeParse(node);
+  if (!shape.success) {
+    collectZodIssues(shape.error, path, path, issues);
+    return;
+  }
+
+  const { id, type, props, children = [], visibleWhen, hiddenWhen, responsive } = shape.data;
+
+  if (visibleWhen !== undefined) validateExpression(unwrapCondition(visibleWhen), `${path}.visibleWhen`, path, context);
+  if (hiddenWhen !== undefined) validateExpression(unwrapCondition(hiddenWhen), `${path}.hiddenWhen`, path, context);
+
+  if (!resolver.has(type)) {
+    issues.push({
+      path: `${path}.type`,
+      nodePath: path,
+      message: `Unknown component type "${type}". Expected one of: ${resolver.types().join(', ')}`
+    });
+  } else {
+    validateProps(type, props, path, context);
+    if (responsive) validateResponsive(type, props, children, responsive, path, context);
+  }
+
+  if (context.routeParams) {
+    for (const placeholder of collectPlaceholders(getOwnProps(type, props))) {
+      if (!context.routeParams.includes(placeholder.name)) {
+        issues.push({
+          path: formatPath(`${path}.props`, placeholder.path),
+          nodePath: path,
+          message: `Unknown route parameter "{${placeholder.name}}". ` +
+            (context.routeParams.length
+              ? `The page path declares: ${context.routeParams.join(', ')}`
+              : 'The page path declares no parameters')
+        });
+      }
+    }
+  }
+
+  if (type === 'grid') {
+    validateGridAreas(props, responsive, children, path, context);
+    validateEditableGrid(id, props, children, path, context);
+  }
+
+  // Page navbar and sidebar are rendered as their own nodes, so they own their issues; they are given as their props
+  if (type === 'page' && isObject(props)) {
+    for (const slot of ['navbar', 'sidebar']) {
+      if (isObject(props[slot])) validateProps(slot, props[slot], `${path}.props.${slot}`, context, `${path}.props.${slot}`);
+    }
+  }
+
+  // Slot nodes may read extra variables provided by their owner, e.g. a repeat's item
+  if (isObject(props)) {
+    for (const slot of getNodeSlots(type)) {
+      if (props[slot] === undefined) continue;
+      const variables = getSlotVariables({ type, props }, slot);
+      validateNode(props[slot], `${path}.props.${slot}`, withRoots(context, variables));
+    }
+  }
+
+  children.forEach((child, index) => validateNode(child, `${path}.children[${index}]`, context));
+};
+
+/**
+ * Validate a complete metadata document before it is rendered
+ * @param metadata - The document to validate
+ * @param resolver - Where to look up component types and prop schemas
+ * @returns Report with every issue found, in document order
+ */
+export const validateMetadata = (
+  metadata: unknown,
+  resolver: SchemaResolver = builtInSchemaResolver
+): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+
+  const document = documentSchema.safeParse(metadata);
+  if (!document.success) {
+    collectZodIssues(document.error, '', '', issues);
+  }
+
+  // Actions may refer to any dialog or node of the document
+  const nodeIds = new Set<string>();
+  if (isObject(metadata)) {
+    walkMetadata(metadata as unknown as LayoutMetadata, node => {
+      if (typeof node.id === 'string') nodeIds.add(node.id);
+    });
+  }
+  const dialogs = isObject(metadata) && isObject(metadata.dialogs) ? Object.keys(metadata.dialogs) : [];
+  const endpoints = isObject(metadata) && isObject(metadata.apiEndpoints)
+    ? metadata.apiEndpoints as ApiEndpointMap
+    : undefined;
+  const base: ValidationContext = { resolver, issues, bindingRoots: BINDING_ROOTS, dialogs, nodeIds, endpoints };
+
+  if (isObject(metadata) && metadata.layout !== undefined) {
+    validateNode(metadata.layout, 'layout', base);
+  }
+
+  if (isObject(metadata) && isObject(metadata.pages)) {
+    for (const [pageId, page] of Object.entries(metadata.pages)) {
+      const pagePath = `pages.${pageId}`;
+      const result = pageSchema.safeParse(page);
+      if (!result.success) {
+        collectZodIssues(result.error, pagePath, pagePath, issues);
+        continue;
+      }
+
+      const routeParams = getTemplateParams(result.data.path);
+      result.data.components.forEach((component, index) =>
+        validateNode(component, `${pagePath}.components[${index}]`, { ...base, routeParams })
+      );
+    }
+  }
+
+  if (isObject(metadata) && isObject(metadata.dialogs)) {
+    for (const [dialogId, dialog] of Object.entries(metadata.dialogs)) {
+      const dialogPath = `dialogs.${dialogId}`;
+      const result = dialogSchema.safeParse(dialog);
+      if (!result.success) {
+        collectZodIssues(result.error, dialogPath, dialogPath, issues);
+        continue;
+      }
+
+      // Dialog contents can read the data they were opened with
+      const dialogContext = withRoots(base, ['dialog']);
+      const { title, description } = result.data;
+      validateBindings(collectBindings({ title, description }), dialogPath, dialogPath, dialogContext);
+      result.data.components.forEach((component, index) =>
+        validateNode(component, `${dialogPath}.components[${index}]`, dialogContext)
+      );
+    }
+  }
+
+  return { valid: issues.length === 0, issues };
+};
+
+/**
+ * Group issues by the node that owns them
+ * @param report - Validation report
+ * @returns Map from node path to that node's issues
+ */
+export const groupIssuesByNode = (report: ValidationReport): Map<string, ValidationIssue[]> => {
+  const groups = new Map<string, ValidationIssue[]>();
+  for (const issue of report.issues) {
+    const group = groups.get(issue.nodePath) ?? [];
+    group.push(issue);
+    groups.set(issue.nodePath, group);
+  }
+  return groups;
+};
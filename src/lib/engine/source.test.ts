@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { getCompletionContext, getLineColumn, locatePath, parseJsonSource } from './source';
+
+const text = `{
+  "layout": {
+    "type": "container",
+    "children": [
+      { "type": "card", "props": { "title": "Sales \\"Q1\\"", "limit": -1.5e2 } },
+      []
+    ]
+  }
+}`;
+
+/** Text of a range */
+const at = (range: { start: number; end: number }, source = text) => source.slice(range.start, range.end);
+
+describe('parseJsonSource', () => {
+  it('parses what JSON.parse parses', () => {
+    expect(parseJsonSource(text).value).toEqual(JSON.parse(text));
+    expect(parseJsonSource(' "\\u00e9\\\\" ').value).toBe('é\\');
+  });
+
+  it('records where every value and key is', () => {
+    const { locations } = parseJsonSource(text);
+
+    expect(at(locations.get('layout.children[0].props.title')!.value)).toBe('"Sales \\"Q1\\""');
+    expect(at(locations.get('layout.children[0].props.title')!.key!)).toBe('"title"');
+    expect(at(locations.get('layout.children[0].props.limit')!.value)).toBe('-1.5e2');
+    expect(at(locations.get('layout.children[1]')!.value)).toBe('[]');
+    expect(locations.get('layout.children[1]')!.key).toBeUndefined();
+    expect(locations.get('')!.value).toEqual({ start: 0, end: text.length });
+  });
+
+  it.each([
+    ['{ "a": 1, }', 'Expected a property name but found "}"', 10],
+    ['{ "a" 1 }', 'Expected ":" but found "1"', 6],
+    ['[1 2]', 'Expected "," or "]" but found "2"', 3],
+    ['{ "a": "b\n" }', 'Unterminated string', 7],
+    ['{ "a": 01 }', 'Expected "," or "}" but found "1"', 8],
+    ['{ "a": tru }', 'Unexpected "t"', 7],
+    ['{} {}', 'Unexpected "{" after the document', 3],
+    ['{ "a": [', 'Unexpected end of input', 8]
+  ])('reports %j as invalid', (source, message, offset) => {
+    const { value, error } = parseJsonSource(source);
+    expect(value).toBeUndefined();
+    expect(error).toEqual({ message, offset });
+  });
+
+  it('keeps the locations read before a syntax error', () => {
+    const { error, locations } = parseJsonSource('{ "a": 1, "b": [true, ] }');
+    expect(error?.offset).toBe(22);
+    expect([...locations.keys()]).toEqual(['a', 'b[0]']);
+  });
+});
+
+describe('locatePath', () => {
+  const source = parseJsonSource(text);
+
+  it('marks values, and containers by their key', () => {
+    expect(at(locatePath(source, 'layout.children[0].props.limit'))).toBe('-1.5e2');
+    expect(at(locatePath(source, 'layout.children[0].props'))).toBe('"props"');
+    expect(at(locatePath(source, 'layout.children[1]'))).toBe('[');
+  });
+
+  it('falls back to the closest ancestor that was written', () => {
+    expect(at(locatePath(source, 'layout.children[0].props.missing'))).toBe('"props"');
+    expect(at(locatePath(source, 'layout.children[4].type'))).toBe('"children"');
+    expect(locatePath(source, 'pages.home')).toEqual({ start: 0, end: 1 });
+  });
+});
+
+describe('getLineColumn', () => {
+  it('counts lines and columns from 1', () => {
+    expect(getLineColumn(text, 0)).toEqual({ line: 1, column: 1 });
+    expect(getLineColumn(text, text.indexOf('"children"'))).toEqual({ line: 4, column: 5 });
+  });
+});
+
+describe('getCompletionContext', () => {
+  it('finds keys being typed, with the enclosing types and the keys already written', () => {
+    const typing = '{ "layout": { "type": "card", "props": { "title": "x", "li';
+    expect(getCompletionContext(typing, typing.length)).toEqual({
+      kind: 'key',
+      path: ['layout', 'props'],
+      prefix: 'li',
+      range: { start: typing.length - 2, end: typing.length },
+      closed: false,
+      keys: ['title'],
+      types: [undefined, 'card', undefined]
+    });
+  });
+
+  it('finds values being typed inside arrays and objects', () => {
+    const typing = '{ "layout": { "children": [{}, { "type": "ca" }] } }';
+    const offset = typing.indexOf('ca"') + 2;
+    expect(getCompletionContext(typing, offset)).toMatchObject({
+      kind: 'value',
+      path: ['layout', 'children', 1],
+      key: 'type',
+      prefix: 'ca',
+      closed: true
+    });
+  });
+
+  it('ignores the cursor outside strings', () => {
+    expect(getCompletionContext('{ "a": 1 }', 8)).toBeUndefined();
+  });
+});
@@ -0,0 +1,307 @@
+import { formatPath } from './schema';
+
+/**
+ * Source - JSON documents as text, for editors
+ * Parsing keeps the position of every value, so that validation issues, which
+ * name JSON paths such as "layout.children[0].props.title", can be shown at
+ * the exact place in the text they refer to.
+ */
+
+/**
+ * Characters from start up to, but not including, end
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface SourceLocation {
+  /** The value, from its first character to its last */
+  value: SourceRange;
+  /** The quoted key, for values of object members */
+  key?: SourceRange;
+  /** Whether the value is an object or an array */
+  container: boolean;
+}
+
+export interface JsonSyntaxError {
+  message: string;
+  offset: number;
+}
+
+export interface JsonSource {
+  /** The parsed document, when the text is valid JSON */
+  value?: unknown;
+  error?: JsonSyntaxError;
+  /** Location of every value by JSON path; the document itself is at "" */
+  locations: Map<string, SourceLocation>;
+}
+
+type Segment = string | number;
+
+class SyntaxFailure extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+const describeAt = (text: string, offset: number) =>
+  offset >= text.length ? 'end of input' : `"${text[offset]}"`;
+
+/**
+ * Parse JSON text, recording where each value is
+ * @param text - The document's text
+ * @returns The value and the locations; on a syntax error, the locations of what was read before it
+ */
+export const parseJsonSource = (text: string): JsonSource => {
+  const locations = new Map<string, SourceLocation>();
+  let offset = 0;
+
+  const skipWhitespace = () => {
+    while (offset < text.length && /\s/.test(text[offset])) offset++;
+  };
+
+  const expect = (character: string) => {
+    if (text[offset] !== character) {
+      throw new SyntaxFailure(`Expected "${character}" but found ${describeAt(text, offset)}`, offset);
+    }
+    offset++;
+  };
+
+  const readString = (): string => {
+    const start = offset;
+    expect('"');
+    while (offset < text.length && text[offset] !== '"') {
+      if (text[offset] === '\n') throw new SyntaxFailure('Unterminated string', start);
+      offset += text[offset] === '\\' ? 2 : 1;
+    }
+    if (offset >= text.length) throw new SyntaxFailure('Unterminated string', start);
+    offset++;
+    try {
+      return JSON.parse(text.slice(start, offset));
+    } catch {
+      throw new SyntaxFailure('Invalid escape sequence in string', start);
+    }
+  };
+
+  const readValue = (path: Segment[], key?: SourceRange): unknown => {
+    skipWhitespace();
+    const start = offset;
+    let value: unknown;
+    const character = text[offset];
+
+    if (character === '{') {
+      offset++;
+      const object: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[offset] === '}') {
+        offset++;
+      } else {
+        for (;;) {
+          skipWhitespace();
+          const keyStart = offset;
+          if (text[offset] !== '"') throw new SyntaxFailure(`Expected a property name but found ${describeAt(text, offset)}`, offset);
+          const name = readString();
+          const keyRange = { start: keyStart, end: offset };
+          skipWhitespace();
+          expect(':');
+          object[name] = readValue([...path, name], keyRange);
+          skipWhitespace();
+          if (text[offset] === ',') {
+            offset++;
+            continue;
+          }
+          if (text[offset] === '}') {
+            offset++;
+            break;
+          }
+          throw new SyntaxFailure(`Expected "," or "}" but found ${describeAt(text, offset)}`, offset);
+        }
+      }
+      value = object;
+    } else if (character === '[') {
+      offset++;
+      const array: unknown[] = [];
+      skipWhitespace();
+      if (text[offset] === ']') {
+        offset++;
+      } else {
+        for (;;) {
+          array.push(readValue([...path, array.length]));
+          skipWhitespace();
+          if (text[offset] === ',') {
+            offset++;
+            continue;
+          }
+          if (text[offset] === ']') {
+            offset++;
+            break;
+          }
+          throw new SyntaxFailure(`Expected "," or "]" but found ${describeAt(text, offset)}`, offset);
+        }
+      }
+      value = array;
+    } else if (character === '"') {
+      value = readString();
+    } else {
+      const literal = /^(?:-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(text.slice(offset));
+      if (!literal) throw new SyntaxFailure(`Unexpected ${describeAt(text, offset)}`, offset);
+      offset += literal[0].length;
+      value = JSON.parse(literal[0]);
+    }
+
+    locations.set(formatPath('', path), { value: { start, end: offset }, key, container: typeof value === 'object' && value !== null });
+    return value;
+  };
+
+  try {
+    const value = readValue([]);
+    skipWhitespace();
+    if (offset < text.length) throw new SyntaxFailure(`Unexpected ${describeAt(text, offset)} after the document`, offset);
+    return { value, locations };
+  } catch (error) {
+    if (!(error instanceof SyntaxFailure)) throw error;
+    return { error: { message: error.message, offset: error.offset }, locations };
+  }
+};
+
+/**
+ * Turn an offset into a position for people
+ * @returns 1-based line and column
+ */
+export const getLineColumn = (text: string, offset: number): { line: number; column: number } => {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+};
+
+/**
+ * Find the text an issue at a JSON path refers to
+ * Paths that do not exist in the text, such as a missing required prop, fall back
+ * to their closest ancestor that does. Containers are marked by their key, or by
+ * their opening bracket, rather than by their whole extent.
+ * @param source - The parsed text
+ * @param path - JSON path of the issue
+ */
+export const locatePath = (source: JsonSource, path: string): SourceRange => {
+  let current = path;
+  for (;;) {
+    const location = source.locations.get(current);
+    if (location) {
+      const { value, key, container } = location;
+      if (current === path && !container) return value;
+      return key ?? { start: value.start, end: value.start + 1 };
+    }
+    if (!current) return { start: 0, end: 0 };
+    const parent = current.replace(/(?:\.[^.[\]]+|\[\d+\])$/, '');
+    current = parent === current ? '' : parent;
+  }
+};
+
+/**
+ * Where the cursor is in a document being typed, for completions
+ */
+export interface CompletionContext {
+  /** Whether the cursor is in a property name or in a string value */
+  kind: 'key' | 'value';
+  /** Path of the object the property belongs to */
+  path: Segment[];
+  /** Name of the property, for values */
+  key?: string;
+  /** Text typed so far */
+  prefix: string;
+  /** Range of the string's content, which a completion replaces */
+  range: SourceRange;
+  /** Whether the string already has its closing quote */
+  closed: boolean;
+  /** Properties of the object already written before the cursor */
+  keys: string[];
+  /** "type" of each enclosing object written before the cursor, outermost first */
+  types: Array<string | undefined>;
+}
+
+interface Frame {
+  kind: 'object' | 'array';
+  path: Segment[];
+  /** Key of the member being read, once its colon was read */
+  key?: string;
+  keys: string[];
+  type?: string;
+  index: number;
+}
+
+/**
+ * Find the string the cursor is in, reading the text leniently, as it is usually
+ * invalid while being typed
+ * @param text - The document's text
+ * @param offset - Position of the cursor
+ * @returns The context, or undefined when the cursor is not inside a string
+ */
+export const getCompletionContext = (text: string, offset: number): CompletionContext | undefined => {
+  const stack: Frame[] = [];
+  let pendingKey: string | undefined;
+  let position = 0;
+
+  const top = () => stack[stack.length - 1];
+  const childPath = (): Segment[] => {
+    const frame = top();
+    if (!frame) return [];
+    return frame.kind === 'object' ? [...frame.path, frame.key ?? ''] : [...frame.path, frame.index];
+  };
+
+  while (position < offset) {
+    const character = text[position];
+    if (character === '"') {
+      const start = position + 1;
+      let end = start;
+      while (end < text.length && text[end] !== '"' && text[end] !== '\n') end += text[end] === '\\' ? 2 : 1;
+      const closed = text[end] === '"';
+      const frame = top();
+      const isKey = frame?.kind === 'object' && frame.key === undefined;
+
+      if (offset <= end) {
+        if (!frame) return undefined;
+        return {
+          kind: isKey ? 'key' : 'value',
+          path: isKey ? frame.path : frame.kind === 'object' ? frame.path : [...frame.path, frame.index],
+          key: isKey || frame.kind !== 'object' ? undefined : frame.key,
+          prefix: text.slice(start, offset),
+          range: { start, end },
+          closed,
+          keys: isKey || frame.kind === 'object' ? frame.keys : [],
+          types: stack.map(entry => entry.type)
+        };
+      }
+
+      let content = text.slice(start, end);
+      try {
+        content = JSON.parse(`"${content}"`);
+      } catch {
+        // Keep the raw text of strings with broken escapes
+      }
+      if (isKey) {
+        pendingKey = content;
+      } else if (frame?.kind === 'object' && frame.key === 'type') {
+        frame.type = content;
+      }
+      position = end + 1;
+      continue;
+    }
+
+    const frame = top();
+    if (character === ':' && frame?.kind === 'object' && pendingKey !== undefined) {
+      frame.key = pendingKey;
+      frame.keys.push(pendingKey);
+      pendingKey = undefined;
+    } else if (character === ',') {
+      if (frame?.kind === 'object') frame.key = undefined;
+      else if (frame) frame.index++;
+    } else if (character === '{' || character === '[') {
+      stack.push({ kind: character === '{' ? 'object' : 'array', path: childPath(), keys: [], index: 0 });
+    } else if (character === '}' || character === ']') {
+      stack.pop();
+    }
+    position++;
+  }
+  return undefined;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StateStore } from './state';
+
+describe('StateStore', () => {
+  it('starts from a copy of the initial state', () => {
+    const initial = { tab: 'overview' };
+    const store = new StateStore(initial);
+
+    store.set('tab', 'details');
+
+    expect(initial).toEqual({ tab: 'overview' });
+    expect(store.getSnapshot()).toEqual({ tab: 'details' });
+  });
+
+  it('replaces the snapshot and notifies listeners only when a value changes', () => {
+    const store = new StateStore({ tab: 'overview' });
+    const listener = vi.fn();
+    store.subscribe(listener);
+    const before = store.getSnapshot();
+
+    store.set('tab', 'overview');
+    expect(store.getSnapshot()).toBe(before);
+    expect(listener).not.toHaveBeenCalled();
+
+    store.set('tab', 'details');
+    expect(store.getSnapshot()).not.toBe(before);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces the whole state on reset', () => {
+    const store = new StateStore({ tab: 'overview', page: 2 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.reset({ tab: 'details' });
+
+    expect(store.getSnapshot()).toEqual({ tab: 'details' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops notifying listeners once unsubscribed', () => {
+    const store = new StateStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    unsubscribe();
+    store.set('tab', 'details');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
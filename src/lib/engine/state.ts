@@ -0,0 +1,66 @@
+/**
+ * StateStore - Page-level state shared by the nodes of a layout
+ * Nodes read it from bindings as state.<key> and write it with "setState" actions
+ */
+
+export type LayoutState = Record<string, unknown>;
+
+type Listener = () => void;
+
+export class StateStore {
+  private state: LayoutState;
+  private listeners = new Set<Listener>();
+
+  /**
+   * @param initialState - Starting values, usually the document's "state" section
+   */
+  constructor(initialState: LayoutState = {}) {
+    this.state = { ...initialState };
+  }
+
+  get(key: string): unknown {
+    return this.state[key];
+  }
+
+  /**
+   * Set a single key; listeners are only notified when the value changes
+   * @param key - State key
+   * @param value - New value
+   */
+  set(key: string, value: unknown): void {
+    if (Object.is(this.state[key], value)) return;
+    // Replace the snapshot so that subscribers see a new object
+    this.state = { ...this.state, [key]: value };
+    this.notify();
+  }
+
+  /**
+   * Replace the whole state, e.g. when another page is shown
+   * @param state - New state
+   */
+  reset(state: LayoutState = {}): void {
+    this.state = { ...state };
+    this.notify();
+  }
+
+  /**
+   * Subscribe to state changes
+   * @param listener - Called after every change
+   * @returns Unsubscribe function
+   */
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current state; a new object after every change, suitable for useSyncExternalStore
+   */
+  getSnapshot = (): LayoutState => this.state;
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
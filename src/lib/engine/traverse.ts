@@ -0,0 +1,113 @@
+import type { ComponentConfig, LayoutMetadata, UrlSource } from './types';
+import { collectBindings } from './expressions';
+import { isEndpointRef } from './endpoints';
+
+export type NodeVisitor = (node: ComponentConfig, path: string) => void;
+
+/**
+ * Props that hold whole nodes rendered by the engine itself, per component type
+ * Slot props are validated and rendered as nodes rather than as plain values
+ */
+export const NODE_SLOTS: Readonly<Record<string, readonly string[]>> = {
+  page: ['content'],
+  repeat: ['template', 'empty', 'loading', 'error']
+};
+
+/**
+ * List the slot props of a component type
+ * @param type - Component type
+ * @returns Names of the props holding nodes, empty for types without slots
+ */
+export const getNodeSlots = (type: string): readonly string[] =>
+  Object.prototype.hasOwnProperty.call(NODE_SLOTS, type) ? NODE_SLOTS[type] : [];
+
+/** Name under which a repeat's template reads the current item when no alias is given */
+export const DEFAULT_ITEM_ALIAS = 'item';
+
+/**
+ * List the extra binding variables the engine provides to a slot node
+ * A repeat's template sees its item alias and index, its error slot sees the error
+ * @param node - Node owning the slot
+ * @param slot - Slot prop name
+ * @returns Variable names added to the binding scope of the slot's subtree
+ */
+export const getSlotVariables = (node: Pick<ComponentConfig, 'type' | 'props'>, slot: string): string[] => {
+  if (node.type !== 'repeat') return [];
+  if (slot === 'template') {
+    const alias = node.props?.as;
+    return [typeof alias === 'string' ? alias : DEFAULT_ITEM_ALIAS, 'index'];
+  }
+  if (slot === 'error') return ['error'];
+  return [];
+};
+
+/**
+ * Visit a node and all of its descendants depth-first
+ * Slot nodes are visited before children, at <path>.props.<slot>
+ * @param node - Node to start from
+ * @param path - JSON path of the node
+ * @param visit - Called for every node
+ */
+export const walkNode = (node: ComponentConfig, path: string, visit: NodeVisitor): void => {
+  if (!node || typeof node !== 'object') return;
+  visit(node, path);
+
+  for (const slot of getNodeSlots(node.type)) {
+    const slotNode = node.props?.[slot];
+    if (slotNode && typeof slotNode === 'object') {
+      walkNode(slotNode, `${path}.props.${slot}`, visit);
+    }
+  }
+
+  if (Array.isArray(node.children)) {
+    node.children.forEach((child, index) => walkNode(child, `${path}.children[${index}]`, visit));
+  }
+};
+
+/**
+ * Visit every node of a document: the layout, then each page's and each dialog's components
+ * @param metadata - Document to walk
+ * @param visit - Called for every node with its JSON path
+ */
+export const walkMetadata = (metadata: LayoutMetadata, visit: NodeVisitor): void => {
+  if (metadata?.layout) walkNode(metadata.layout, 'layout', visit);
+
+  // Documents are walked before they are validated, so tolerate malformed sections
+  Object.entries(metadata?.pages ?? {}).forEach(([pageId, page]) => {
+    if (!Array.isArray(page?.components)) return;
+    page.components.forEach((component, index) =>
+      walkNode(component, `pages.${pageId}.components[${index}]`, visit)
+    );
+  });
+
+  Object.entries(metadata?.dialogs ?? {}).forEach(([dialogId, dialog]) => {
+    if (!Array.isArray(dialog?.components)) return;
+    dialog.components.forEach((component, index) =>
+      walkNode(component, `dialogs.${dialogId}.components[${index}]`, visit)
+    );
+  });
+};
+
+/**
+ * Map the ids of nodes that fetch data to their data URL
+ * Nodes whose URL depends on bindings are left out, as it differs per render
+ * @param metadata - Document to search
+ * @param resolve - Builds the URL of a dataUrl, e.g. DataService.resolveUrl with the document's endpoints
+ * @returns Node id -> data URL
+ */
+export const collectDataUrls = (metadata: LayoutMetadata, resolve: (source: UrlSource) => string): Map<string, string> => {
+  const urls = new Map<string, string>();
+  walkMetadata(metadata, (node) => {
+    const dataUrl = node.props?.dataUrl;
+    if (!node.id || (typeof dataUrl !== 'string' && !isEndpointRef(dataUrl))) return;
+    if (collectBindings(dataUrl).length) return;
+
+    // Invalid references are reported by validation
+    try {
+      urls.set(node.id, resolve(dataUrl));
+    } catch {
+      return;
+    }
+  });
+  return urls;
+};
@@ -0,0 +1,199 @@
+/**
+ * Core metadata types for the customizable engine
+ * Describes the JSON documents that LayoutEngine renders
+ */
+
+/**
+ * Component types that ship with the engine
+ */
+export type BuiltInComponentType =
+  'navbar' | 'sidebar' | 'card' | 'chart' | 'page' | 'container' | 'text' | 'grid' | 'projectList' | 'projectUpdates' | 'repeat';
+
+/**
+ * Component type definitions for the dynamic engine
+ * Any type registered in the ComponentRegistry is accepted
+ */
+export interface ComponentConfig {
+  type: BuiltInComponentType | (string & {});
+  props?: Record<string, any>;
+  children?: ComponentConfig[];
+  id?: string;
+  className?: string;
+  /** Expression that must be truthy for the node to render, e.g. "user.role == 'admin'" */
+  visibleWhen?: string;
+  /** Expression that hides the node when truthy, e.g. "screen.isMobile" */
+  hiddenWhen?: string;
+  /** Where the node sits when its parent is a grid */
+  gridItem?: GridItem;
+  /** Changes that apply only at some breakpoints, e.g. fewer items on mobile */
+  responsive?: Partial<Record<Breakpoint, BreakpointOverride>>;
+}
+
+/**
+ * Placement of a grid's child; anything left out is placed automatically
+ */
+export interface GridItem {
+  /** Named area of the grid's template, e.g. "sidebar" */
+  area?: string;
+  /** Number of columns the node spans */
+  colSpan?: number;
+  /** Number of rows the node spans */
+  rowSpan?: number;
+  /** Line the node starts at, 1-based, or any CSS grid-column value, which colSpan does not add to */
+  column?: number | string;
+  /** Line the node starts at, 1-based, or any CSS grid-row value, which rowSpan does not add to */
+  row?: number | string;
+}
+
+/**
+ * Screen classes, from the layout's container width: mobile below 768px, tablet below 1024px
+ */
+export type Breakpoint = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * How a node differs from one breakpoint up
+ * Overrides apply at their breakpoint and every larger one, smallest first, so a
+ * tablet override also holds on desktop unless a desktop override changes it again.
+ */
+export interface BreakpointOverride {
+  /** Merged over the node's props */
+  props?: ComponentConfig['props'];
+  /** Children in display order, by id or by index; children not listed follow in their own order */
+  order?: Array<string | number>;
+  /** Hide the node from this breakpoint up; false shows it again */
+  hidden?: boolean;
+  /** Merged over the node's grid placement */
+  gridItem?: GridItem;
+}
+
+/**
+ * Named API endpoints, grouped by resource, e.g. { projects: { get: "/api/projects/{id}" } }
+ */
+export interface ApiEndpointMap {
+  [name: string]: string | ApiEndpointMap;
+}
+
+/**
+ * Reference to a named endpoint, usable wherever a URL is expected
+ * e.g. { "endpoint": "projects.get", "params": { "id": "{id}" } }
+ */
+export interface EndpointRef {
+  /** Dotted path into apiEndpoints */
+  endpoint: string;
+  /** Values for the endpoint's {name} placeholders */
+  params?: Record<string, string | number | boolean>;
+}
+
+/** A URL, or a reference to one of the document's API endpoints */
+export type UrlSource = string | EndpointRef;
+
+/**
+ * A declarative action, attached to props named on<Event>, e.g. onClick or onViewDetails
+ * Strings may contain {{ }} bindings, resolved when the action runs; the event
+ * payload passed by the component is available as "event"
+ */
+export type ActionConfig =
+  | { type: 'navigate'; to: string; replace?: boolean }
+  | { type: 'setState'; key: string; value?: unknown }
+  /** Refetch the data of the node with id "target", or of a URL; one of them is required */
+  | { type: 'refetch'; target?: string; dataUrl?: UrlSource }
+  | {
+      type: 'callApi';
+      url: UrlSource;
+      method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+      body?: unknown;
+      /** State key to store the response under */
+      resultKey?: string;
+      /** Run with the response available as "result" */
+      onSuccess?: ActionList;
+      /** Run with the failure available as "error"; shows an error toast when omitted */
+      onError?: ActionList;
+    }
+  /** Open one of the document's dialogs, its components can read "data" as dialog.data */
+  | { type: 'openDialog'; dialog: string; data?: unknown }
+  | { type: 'closeDialog' }
+  | { type: 'toast'; title: string; description?: string; variant?: 'default' | 'destructive' };
+
+/** One action, or several run in order until one fails */
+export type ActionList = ActionConfig | ActionConfig[];
+
+/**
+ * A modal dialog that actions can open
+ */
+export interface DialogConfig {
+  title: string;
+  description?: string;
+  components: ComponentConfig[];
+}
+
+/**
+ * Reference to a reusable part of a document, replaced by a copy of it when the
+ * document is composed. "#/fragments/statCard" points into the same document,
+ * "shared#/fragments/navbar" into another registered one. Any other keys are
+ * merged over the copy, e.g. a distinct id.
+ */
+export interface FragmentRef {
+  /** Optional document name, then a JSON pointer */
+  $ref: string;
+  /** Values for the fragment's { "$param": name } placeholders */
+  params?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Placeholder inside a fragment, replaced by the value passed in the reference's params
+ */
+export interface FragmentParam {
+  $param: string;
+  /** Used when the reference does not pass the param */
+  default?: unknown;
+}
+
+/**
+ * Changes an extending document makes to one of its base's nodes, by node id
+ * Props are merged into the node's props, other fields replace the node's; null removes the node
+ */
+export type NodeOverride = Partial<ComponentConfig> | null;
+
+/**
+ * A routable page; its components render inside the shared layout
+ */
+export interface PageConfig {
+  /** Route path, parameters written as {name}, e.g. /projects/{id} */
+  path: string;
+  title?: string;
+  /** Initial state for the page, merged over the document's state */
+  state?: Record<string, unknown>;
+  components: ComponentConfig[];
+}
+
+export interface LayoutMetadata {
+  /** Version of the metadata schema the document is written for; older documents are migrated */
+  schemaVersion?: number;
+  layout: ComponentConfig;
+  pages?: Record<string, PageConfig>;
+  /** Default feature flags, readable from expressions as flags.<name> */
+  featureFlags?: Record<string, boolean>;
+  /** Initial page state, readable from expressions as state.<key> */
+  state?: Record<string, unknown>;
+  /** Dialogs that "openDialog" actions can show, by id */
+  dialogs?: Record<string, DialogConfig>;
+  /** Named API endpoints that props and actions can reference instead of URLs */
+  apiEndpoints?: ApiEndpointMap;
+  /** Reusable nodes and values that $ref references can point to */
+  fragments?: Record<string, unknown>;
+  /** Name of a registered document this one inherits from; its own sections take precedence */
+  extends?: string;
+  /** Changes to inherited nodes, by node id */
+  overrides?: Record<string, NodeOverride>;
+  theme?: {
+    variant: 'default' | 'minimal' | 'modern';
+    primaryColor?: string;
+  };
+  metadata?: {
+    title: string;
+    description: string;
+    /** Version of the document's own content, unrelated to schemaVersion */
+    version: string;
+  };
+}
@@ -0,0 +1,18 @@
+import type { ComponentConfig } from './types';
+import { BindingScope, evaluateCondition } from './expressions';
+
+/**
+ * Decide whether a node renders, from its visibleWhen and hiddenWhen rules
+ * A node without rules is always visible
+ * @param node - Node to check
+ * @param scope - Variables the conditions can read
+ */
+export const isNodeVisible = (node: ComponentConfig, scope: BindingScope): boolean => {
+  if (node.visibleWhen !== undefined && !evaluateCondition(node.visibleWhen, scope)) {
+    return false;
+  }
+  if (node.hiddenWhen !== undefined && evaluateCondition(node.hiddenWhen, scope)) {
+    return false;
+  }
+  return true;
+};
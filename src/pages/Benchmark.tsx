@@ -0,0 +1,172 @@
+import { Profiler, ProfilerOnRenderCallback, useRef, useState } from "react";
+import { flushSync } from "react-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { LayoutEngine, LayoutMetadata } from "@/components/engine/LayoutEngine";
+import type { RouteParams } from "@/lib/engine/routing";
+import { countNodes, createBenchmarkLayout } from "@/data/benchmark-layout";
+
+const SECTIONS = 50;
+const CARDS_PER_SECTION = 20;
+const RUNS = 20;
+
+interface Scenario {
+  name: string;
+  description: string;
+  /** Produce the next version of the document */
+  next: (metadata: LayoutMetadata, run: number) => LayoutMetadata;
+}
+
+interface Result {
+  scenario: string;
+  runs: number;
+  /** Mean time React spent rendering, with memoization */
+  memoized: number;
+  /** Mean time React spent rendering the same versions with every node rendered again */
+  full: number;
+}
+
+const scenarios: Scenario[] = [
+  {
+    name: "Unchanged copy",
+    description: "A new document object with identical content, as after refetching the same JSON",
+    next: metadata => structuredClone(metadata),
+  },
+  {
+    name: "One card changed",
+    description: "One card's title differs from the previous version",
+    next: (metadata, run) => {
+      const copy = structuredClone(metadata);
+      copy.layout.children![0].children![0].props!.title = `Changed ${run}`;
+      return copy;
+    },
+  },
+  {
+    name: "Every card changed",
+    description: "Every card's title differs, the worst case for memoization",
+    next: (_, run) => createBenchmarkLayout(SECTIONS, CARDS_PER_SECTION, ` (${run})`),
+  },
+];
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / Math.max(values.length, 1);
+
+/**
+ * Benchmark Page - Measures how LayoutEngine re-renders a layout of 1,000+ nodes
+ * when a new version of its document arrives, against rendering the same versions with
+ * memoization defeated. Timings come from React's Profiler and need a development or
+ * profiling build.
+ */
+const Benchmark = () => {
+  const [metadata, setMetadata] = useState(() => createBenchmarkLayout(SECTIONS, CARDS_PER_SECTION));
+  const [results, setResults] = useState<Result[]>([]);
+  const [running, setRunning] = useState(false);
+  // New params on every version change the scope of every node, so none of them can skip rendering
+  const [params, setParams] = useState<RouteParams>();
+  const samples = useRef<number[] | null>(null);
+
+  const handleRender: ProfilerOnRenderCallback = (_id, phase, actualDuration) => {
+    if (phase !== "mount") samples.current?.push(actualDuration);
+  };
+
+  /**
+   * Render RUNS versions of the document, one commit each
+   * @returns Time React spent rendering each commit
+   */
+  const measure = async (scenario: Scenario, start: LayoutMetadata, unmemoized: boolean) => {
+    const measured: number[] = [];
+    samples.current = measured;
+
+    let current = start;
+    for (let run = 1; run <= RUNS; run++) {
+      current = scenario.next(current, run);
+      const version = current;
+      // Render each version synchronously so that every commit is measured on its own
+      flushSync(() => {
+        setMetadata(version);
+        if (unmemoized) setParams({});
+      });
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    samples.current = null;
+    return measured;
+  };
+
+  const runScenario = async (scenario: Scenario) => {
+    setRunning(true);
+
+    const memoized = await measure(scenario, metadata, false);
+    const full = await measure(scenario, metadata, true);
+    setParams(undefined);
+
+    setResults(previous => [
+      ...previous.filter(result => result.scenario !== scenario.name),
+      {
+        scenario: scenario.name,
+        runs: memoized.length,
+        memoized: mean(memoized),
+        full: mean(full),
+      },
+    ]);
+    setRunning(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Rendering benchmark</CardTitle>
+          <CardDescription>
+            {countNodes(metadata.layout)} nodes, {RUNS} document versions per scenario
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {scenarios.map(scenario => (
+              <Button
+                key={scenario.name}
+                variant="outline"
+                disabled={running}
+                title={scenario.description}
+                onClick={() => runScenario(scenario)}
+              >
+                {scenario.name}
+              </Button>
+            ))}
+          </div>
+
+          {results.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-2">Scenario</th>
+                  <th>Commits</th>
+                  <th>Memoized (ms)</th>
+                  <th>Full re-render (ms)</th>
+                  <th>Speed-up</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.scenario} className="border-t border-border">
+                    <td className="py-2">{result.scenario}</td>
+                    <td>{result.runs}</td>
+                    <td>{result.memoized.toFixed(2)}</td>
+                    <td>{result.full.toFixed(2)}</td>
+                    <td>{result.memoized > 0 ? `${(result.full / result.memoized).toFixed(1)}x` : "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Profiler id="layout" onRender={handleRender}>
+        <LayoutEngine metadata={metadata} params={params} />
+      </Profiler>
+    </div>
+  );
+};
+
+export default Benchmark;
@@ -0,0 +1,30 @@
+import { useState } from "react";
+import { Check, LayoutGrid } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { LayoutEngine, LayoutMetadata } from "@/components/engine/LayoutEngine";
+import dashboardMetadata from "@/data/dashboard-metadata.json";
+
+/**
+ * Dashboard Page - A dashboard each user can arrange to their liking
+ * Arrangements are saved per user, in this browser
+ */
+const Dashboard = () => {
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <div>
+      <div className="flex justify-end px-6 pt-6">
+        <Button variant={editing ? "default" : "outline"} size="sm" onClick={() => setEditing(!editing)}>
+          {editing ? <Check className="w-4 h-4 mr-2" /> : <LayoutGrid className="w-4 h-4 mr-2" />}
+          {editing ? "Done" : "Customize"}
+        </Button>
+      </div>
+      <LayoutEngine
+        metadata={dashboardMetadata as LayoutMetadata}
+        dashboard={{ id: "dashboard", editing }}
+      />
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,27 @@
+import { useParams } from "react-router-dom";
+import { RemoteLayoutEngine } from "@/components/engine/RemoteLayoutEngine";
+import { LayoutMetadata } from "@/components/engine/LayoutEngine";
+import { bundledDocuments } from "@/data/documents";
+
+/**
+ * Remote Layout Page - Renders a layout stored on the backend, by the name in the URL
+ * A bundled document of the same name is the fallback when the backend has none
+ */
+const RemoteLayout = () => {
+  const { name = "" } = useParams();
+
+  return (
+    <RemoteLayoutEngine
+      source={{ name }}
+      fallback={bundledDocuments.get(name) as LayoutMetadata | undefined}
+      documents={bundledDocuments}
+      onLoad={({ origin, error }) => {
+        if (origin !== "remote") {
+          console.warn(`[RemoteLayout] Showing the ${origin} version of "${name}":`, error?.message);
+        }
+      }}
+    />
+  );
+};
+
+export default RemoteLayout;
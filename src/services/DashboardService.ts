@@ -0,0 +1,94 @@
+/**
+ * DashboardService - Stores each user's arrangement of customizable dashboards
+ * Arrangements are always kept in localStorage; when a sync URL is given they are
+ * also stored on the backend, so that they follow the user to other browsers
+ */
+
+import { dataService } from './DataService';
+import type { DashboardOverlay } from '@/lib/engine/dashboard';
+
+const STORAGE_PREFIX = 'dashboardOverlay:';
+
+const isOverlay = (value: unknown): value is DashboardOverlay =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as DashboardOverlay).grids === 'object' && typeof (value as DashboardOverlay).updatedAt === 'number';
+
+class DashboardService {
+  /**
+   * Read the arrangement stored in this browser
+   * @param dashboardId - Dashboard the arrangement belongs to
+   * @param userId - Owner of the arrangement; anonymous users share one
+   * @returns The arrangement, or undefined when the user has none
+   */
+  getLocal(dashboardId: string, userId?: string): DashboardOverlay | undefined {
+    try {
+      const data = localStorage.getItem(this.getKey(dashboardId, userId));
+      const overlay: unknown = data ? JSON.parse(data) : undefined;
+      return isOverlay(overlay) ? overlay : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the newest of the arrangements stored in this browser and on the backend
+   * @param dashboardId - Dashboard the arrangement belongs to
+   * @param userId - Owner of the arrangement
+   * @param syncUrl - Endpoint storing arrangements on the backend, if any
+   * @returns The arrangement, or undefined when the user has none
+   */
+  async load(dashboardId: string, userId?: string, syncUrl?: string): Promise<DashboardOverlay | undefined> {
+    const local = this.getLocal(dashboardId, userId);
+    if (!syncUrl) return local;
+
+    try {
+      const remote = await dataService.fetchData<unknown>(this.getRemoteUrl(syncUrl, dashboardId), false);
+      if (!isOverlay(remote) || (local && local.updatedAt >= remote.updatedAt)) return local;
+      this.saveLocal(dashboardId, userId, remote);
+      return remote;
+    } catch (error) {
+      console.warn('[DashboardService] Cannot load the arrangement from the backend:', error);
+      return local;
+    }
+  }
+
+  /**
+   * Store an arrangement in this browser and, when a sync URL is given, on the backend
+   * @param dashboardId - Dashboard the arrangement belongs to
+   * @param userId - Owner of the arrangement
+   * @param overlay - The arrangement
+   * @param syncUrl - Endpoint storing arrangements on the backend, if any
+   */
+  async save(dashboardId: string, userId: string | undefined, overlay: DashboardOverlay, syncUrl?: string): Promise<void> {
+    this.saveLocal(dashboardId, userId, overlay);
+    if (!syncUrl) return;
+
+    try {
+      await dataService.request(this.getRemoteUrl(syncUrl, dashboardId), { method: 'PUT', body: overlay });
+    } catch (error) {
+      // The browser's copy is kept, and wins when it is newer than the backend's
+      console.warn('[DashboardService] Cannot save the arrangement to the backend:', error);
+    }
+  }
+
+  private saveLocal(dashboardId: string, userId: string | undefined, overlay: DashboardOverlay): void {
+    try {
+      localStorage.setItem(this.getKey(dashboardId, userId), JSON.stringify(overlay));
+    } catch (error) {
+      console.warn('[DashboardService] Cannot store the arrangement:', error);
+    }
+  }
+
+  private getKey(dashboardId: string, userId?: string): string {
+    return `${STORAGE_PREFIX}${userId ?? 'anonymous'}:${dashboardId}`;
+  }
+
+  /** The backend identifies the user from the request's token */
+  private getRemoteUrl(syncUrl: string, dashboardId: string): string {
+    return `${syncUrl.replace(/\/$/, '')}/${encodeURIComponent(dashboardId)}`;
+  }
+}
+
+// Export singleton instance
+export const dashboardService = new DashboardService();
+export default dashboardService;
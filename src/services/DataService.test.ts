@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { dataService } from './DataService';
+import { EndpointError } from '@/lib/engine/errors';
+
+const endpoints = {
+  projects: {
+    get: '/api/projects/{id}',
+    updates: '/api/projects/{id}/updates?since={since}'
+  }
+};
+
+describe('DataService.resolveUrl', () => {
+  it('fills route params into URLs, encoding them once', () => {
+    expect(dataService.resolveUrl('/api/projects/{id}', { params: { id: 'a b' } })).toBe('/api/projects/a%20b');
+    expect(dataService.resolveUrl('/api/projects/{id}')).toBe('/api/projects/{id}');
+  });
+
+  it('fills endpoint templates from reference params, which may take route params', () => {
+    const source = { endpoint: 'projects.updates', params: { id: '{id}', since: '2024-01-01' } };
+    expect(dataService.resolveUrl(source, { endpoints, params: { id: 'a/b' } }))
+      .toBe('/api/projects/a%2Fb/updates?since=2024-01-01');
+    expect(dataService.resolveUrl({ endpoint: 'projects.get', params: { id: 7 } }, { endpoints })).toBe('/api/projects/7');
+  });
+
+  it('throws for unknown endpoints and missing params', () => {
+    expect(() => dataService.resolveUrl({ endpoint: 'projects.delete' }, { endpoints })).toThrow(EndpointError);
+    expect(() => dataService.resolveUrl({ endpoint: 'projects.get', params: { id: '{id}' } }, { endpoints, params: {} }))
+      .toThrow('Missing parameter "id"');
+  });
+});
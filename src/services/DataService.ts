@@ -3,14 +3,40 @@
  * Handles all API calls and data fetching with proper error handling and caching
  */
 
+import type { ApiEndpointMap, UrlSource } from '@/lib/engine/types';
+import { EndpointError, HttpError } from '@/lib/engine/errors';
+import { getEndpointTemplate, getMissingEndpointParams } from '@/lib/engine/endpoints';
+import { fillTemplate, getTemplateParams, RouteParams } from '@/lib/engine/routing';
+
 interface ApiResponse<T = any> {
   data: T;
   success: boolean;
   error?: string;
 }
 
+/**
+ * 'update' when fresh data was cached, 'invalidate' when cached data was dropped
+ * and whoever displays it should fetch again
+ */
+export type CacheEvent = 'update' | 'invalidate';
+
+type CacheListener = (url: string, event: CacheEvent) => void;
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+}
+
+export interface UrlOptions {
+  /** The document's apiEndpoints, which endpoint references name */
+  endpoints?: ApiEndpointMap;
+  /** Route params, filled into {name} placeholders of URLs and of endpoint reference params */
+  params?: RouteParams;
+}
+
 class DataService {
   private cache = new Map<string, { data: any; timestamp: number }>();
+  private listeners = new Set<CacheListener>();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
   /**
@@ -31,40 +57,12 @@ class DataService {
 
     try {
       console.log(`[DataService] Fetching data from ${url}`);
-      
-      // Add authentication token if available
-      const token = localStorage.getItem('authToken');
-      const headers: HeadersInit = {};
-      
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-      
-      // Prepend API base URL for relative paths - use correct backend structure
-      const fullUrl = url.startsWith('http') ? url : `http://localhost:8081${url}`;
-      
-      const response = await fetch(fullUrl, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers
-        }
-      });
-      
-      if (!response.ok) {
-        // Handle authentication errors
-        if (response.status === 401) {
-          localStorage.removeItem('authToken');
-          window.location.href = '/login';
-          throw new Error('Authentication required');
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const result = await response.json();
+      const result = await this.send<T>(url);
       
       // Cache the successful response
       if (useCache) {
         this.cache.set(url, { data: result, timestamp: Date.now() });
+        this.notify(url, 'update');
       }
       
       return result;
@@ -74,12 +72,64 @@ class DataService {
     }
   }
 
+  /**
+   * Send a request that is never cached, e.g. to create or update a record
+   * @param url - API endpoint URL
+   * @param options - HTTP method (default: POST) and JSON body
+   * @returns Promise with the response body
+   */
+  async request<T = unknown>(url: string, { method = 'POST', body }: RequestOptions = {}): Promise<T> {
+    try {
+      console.log(`[DataService] ${method} ${url}`);
+      return await this.send<T>(url, method, body);
+    } catch (error) {
+      console.error(`[DataService] Error calling ${method} ${url}:`, error);
+      throw error;
+    }
+  }
+
+  private async send<T>(url: string, method: string = 'GET', body?: unknown): Promise<T> {
+    // Add authentication token if available
+    const token = localStorage.getItem('authToken');
+    const headers: HeadersInit = {};
+    
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    
+    // Prepend API base URL for relative paths - use correct backend structure
+    const fullUrl = url.startsWith('http') ? url : `http://localhost:8081${url}`;
+    
+    const response = await fetch(fullUrl, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    
+    if (!response.ok) {
+      // Handle authentication errors
+      if (response.status === 401) {
+        localStorage.removeItem('authToken');
+        window.location.href = '/login';
+        throw new HttpError(response.status, url, 'Authentication required');
+      }
+      throw new HttpError(response.status, url);
+    }
+    
+    // Some endpoints answer with an empty body, e.g. 204 after a delete
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
   /**
    * Mock data generator for development and demonstration
    * @param url - The requested URL to determine data type
    * @returns Mock data based on URL pattern
    */
-  private getMockData(url: string): any {
+  getMockData(url: string): any {
     if (url.includes('/api/sales')) {
       return [
         { month: 'Jan', sales: 4200, target: 4000 },
@@ -221,6 +271,36 @@ class DataService {
     };
   }
 
+  /**
+   * Build the URL of a data source; values are encoded here, and only here
+   * @param source - URL with optional {name} placeholders, or a reference to a named endpoint
+   * @param options - Endpoints the reference names and route params for the placeholders
+   * @returns The URL
+   * @throws EndpointError when the endpoint is unknown or a param is missing
+   */
+  resolveUrl(source: UrlSource, { endpoints, params = {} }: UrlOptions = {}): string {
+    if (typeof source === 'string') {
+      return fillTemplate(source, params, encodeURIComponent);
+    }
+
+    const template = getEndpointTemplate(endpoints, source.endpoint);
+    if (template === undefined) {
+      throw new EndpointError(source.endpoint, `Unknown API endpoint "${source.endpoint}"`);
+    }
+
+    // Reference params can take route params themselves, e.g. { "id": "{id}" }; those the route lacks are missing
+    const values = Object.fromEntries(
+      Object.entries(source.params ?? {})
+        .map(([name, value]) => [name, fillTemplate(String(value), params)])
+        .filter(([, value]) => getTemplateParams(value).length === 0)
+    );
+    const missing = getMissingEndpointParams(template, values);
+    if (missing.length) {
+      throw new EndpointError(source.endpoint, `Missing parameter "${missing[0]}" for API endpoint "${source.endpoint}" (${template})`);
+    }
+    return fillTemplate(template, values, encodeURIComponent);
+  }
+
   /**
    * Clear cache for a specific URL or all cached data
    * @param url - Optional URL to clear, if not provided clears all cache
@@ -229,12 +309,50 @@ class DataService {
     if (url) {
       this.cache.delete(url);
       console.log(`[DataService] Cache cleared for ${url}`);
+      this.notify(url, 'invalidate');
     } else {
       this.cache.clear();
       console.log('[DataService] All cache cleared');
+      this.notify('*', 'invalidate');
     }
   }
 
+  /**
+   * Read cached data without fetching, even if it is stale
+   * @param url - API endpoint URL
+   * @returns The cached data, or undefined if nothing was fetched yet
+   */
+  peek<T = unknown>(url: string): T | undefined {
+    return this.cache.get(url)?.data;
+  }
+
+  /**
+   * Cache data as if it had just been fetched, e.g. mock data for a static render
+   * @param url - API endpoint URL
+   * @param data - The data nodes showing this URL receive
+   */
+  prime(url: string, data: unknown): void {
+    this.cache.set(url, { data, timestamp: Date.now() });
+    this.notify(url, 'update');
+  }
+
+  /**
+   * Subscribe to cache updates
+   * @param listener - Called with the URL whose data changed, or '*' when all cache is cleared,
+   * and whether its data was updated or invalidated
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(url: string, event: CacheEvent): void {
+    this.listeners.forEach(listener => listener(url, event));
+  }
+
   /**
    * Get cache statistics for debugging
    * @returns Object with cache information
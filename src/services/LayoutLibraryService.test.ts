@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { layoutLibraryService } from './LayoutLibraryService';
+import { LocalLayoutStorage } from './LayoutStorage';
+import { LayoutImportError } from '@/lib/engine/errors';
+import type { LayoutMetadata } from '@/lib/engine/types';
+
+/**
+ * localStorage kept in memory; writes to keys matching full fail as they do in a browser out of quota
+ */
+class MemoryStorage {
+  items = new Map<string, string>();
+  full?: RegExp;
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    if (this.full?.test(key)) throw new DOMException('The quota has been exceeded', 'QuotaExceededError');
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+const sales: LayoutMetadata = { metadata: { title: 'Sales', description: '', version: '1.0.0' }, layout: { type: 'card', props: { title: 'Sales' } } };
+const revenue: LayoutMetadata = { layout: { type: 'card', props: { title: 'Revenue' } } };
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  layoutLibraryService.setAdapter(new LocalLayoutStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('LayoutLibraryService.save', () => {
+  it('records a revision when the document changes, and none when only the name does', async () => {
+    const created = await layoutLibraryService.save('Sales', sales);
+    await layoutLibraryService.save('Sales overview', sales, created.id);
+    await layoutLibraryService.save('Sales overview', revenue, created.id);
+
+    const revisions = await layoutLibraryService.listRevisions(created.id);
+
+    expect(revisions.map(revision => revision.message).sort()).toEqual(['Created', 'Saved changes']);
+    expect(await layoutLibraryService.list()).toEqual([expect.objectContaining({ id: created.id, name: 'Sales overview', metadata: revenue })]);
+  });
+
+  it('leaves no layout behind when the revision of a new one cannot be kept', async () => {
+    storage.full = /:revisions:/;
+
+    await expect(layoutLibraryService.save('Sales', sales)).rejects.toThrow('quota');
+    expect(await layoutLibraryService.list()).toEqual([]);
+  });
+
+  it('puts a changed layout back as it was when its revision cannot be kept', async () => {
+    const created = await layoutLibraryService.save('Sales', sales);
+    storage.full = /:revisions:/;
+
+    await expect(layoutLibraryService.save('Revenue', revenue, created.id)).rejects.toThrow('quota');
+    expect(await layoutLibraryService.list()).toEqual([created]);
+    expect(await layoutLibraryService.listRevisions(created.id)).toHaveLength(1);
+  });
+});
+
+describe('LayoutLibraryService export and import', () => {
+  it('reads back the layouts it exports, named after their title or file', async () => {
+    const saved = await layoutLibraryService.save('Sales overview', sales);
+    const file = layoutLibraryService.export(saved);
+
+    const imported = await layoutLibraryService.import(file.content, file.fileName);
+    const untitled = await layoutLibraryService.import(JSON.stringify(revenue), 'revenue.json');
+
+    expect(file.fileName).toBe('sales-overview.json');
+    expect(imported).toMatchObject({ name: 'Sales', metadata: sales });
+    expect(untitled.name).toBe('revenue');
+    expect((await layoutLibraryService.listRevisions(untitled.id))[0].message).toBe('Imported from revenue.json');
+  });
+
+  it('saves nothing from files that hold no layout', async () => {
+    await expect(layoutLibraryService.import('{ "title": "Sales" }', 'sales.json')).rejects.toThrow(LayoutImportError);
+    expect(await layoutLibraryService.list()).toEqual([]);
+  });
+});
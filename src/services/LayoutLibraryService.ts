@@ -0,0 +1,184 @@
+/**
+ * LayoutLibraryService - The user's library of named layouts
+ * Layouts are kept by a storage adapter, in this browser by default; call
+ * setAdapter to keep them elsewhere, e.g. with RestLayoutStorage. Every change
+ * to a layout's document is kept as a revision, with who made it and when.
+ */
+
+import { LayoutRevision, LayoutStorageAdapter, LocalLayoutStorage, SavedLayout } from './LayoutStorage';
+import { authService } from './AuthService';
+import { getLayoutFileName, parseLayoutFile } from '@/lib/engine/exchange';
+import { isEqual } from '@/lib/engine/patch';
+import type { LayoutMetadata } from '@/lib/engine/types';
+
+type LibraryListener = () => void;
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class LayoutLibraryService {
+  private listeners = new Set<LibraryListener>();
+
+  constructor(private adapter: LayoutStorageAdapter) {}
+
+  /**
+   * Keep layouts somewhere else; the layouts already saved are not moved
+   * @param adapter - The new storage
+   */
+  setAdapter(adapter: LayoutStorageAdapter): void {
+    this.adapter = adapter;
+    this.notify();
+  }
+
+  /**
+   * List the saved layouts
+   * @returns The layouts, most recently changed first
+   */
+  async list(): Promise<SavedLayout[]> {
+    const layouts = await this.adapter.list();
+    return [...layouts].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Save a layout under a name, recording a revision when its document changed
+   * @param name - Name shown in the library
+   * @param metadata - The document
+   * @param id - Layout to replace, if any; a new one is created otherwise
+   * @param message - What the save did, kept with the revision
+   * @returns The saved layout
+   * @throws The storage's error when the layout or its revision cannot be kept; the layout is then left as it was
+   */
+  async save(name: string, metadata: LayoutMetadata, id?: string, message?: string): Promise<SavedLayout> {
+    const now = Date.now();
+    const existing = id ? await this.adapter.get(id) : undefined;
+    const saved = await this.adapter.save({
+      id: existing?.id ?? createId(),
+      name: this.normalizeName(name),
+      metadata,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    });
+    if (!existing || !isEqual(existing.metadata, metadata)) {
+      const user = authService.getUserData();
+      try {
+        await this.adapter.addRevision({
+          id: createId(),
+          layoutId: saved.id,
+          metadata,
+          author: user ? { id: user.id, name: user.name || user.username } : undefined,
+          createdAt: now,
+          message: message ?? (existing ? 'Saved changes' : 'Created')
+        });
+      } catch (error) {
+        // A change the history does not record is undone, so the save fails as a whole
+        await this.restore(saved.id, existing);
+        throw error;
+      }
+    }
+    this.notify();
+    return saved;
+  }
+
+  /**
+   * Save a copy of a layout, named after it
+   * @returns The copy, or undefined when the layout does not exist
+   */
+  async duplicate(id: string): Promise<SavedLayout | undefined> {
+    const layout = await this.adapter.get(id);
+    return layout ? this.save(`${layout.name} (copy)`, layout.metadata, undefined, `Duplicated from ${layout.name}`) : undefined;
+  }
+
+  /**
+   * Rename a layout
+   * @returns The renamed layout, or undefined when it does not exist
+   */
+  async rename(id: string, name: string): Promise<SavedLayout | undefined> {
+    const layout = await this.adapter.get(id);
+    if (!layout) return undefined;
+    const saved = await this.adapter.save({ ...layout, name: this.normalizeName(name), updatedAt: Date.now() });
+    this.notify();
+    return saved;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.adapter.remove(id);
+    this.notify();
+  }
+
+  /**
+   * List the revisions of a layout
+   * @returns The revisions, newest first
+   */
+  async listRevisions(layoutId: string): Promise<LayoutRevision[]> {
+    const revisions = await this.adapter.listRevisions(layoutId);
+    return [...revisions].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Make an earlier revision's document the layout's current one
+   * The revision is saved again as the newest, so the revisions after it are kept
+   * @returns The layout, or undefined when the layout or the revision does not exist
+   */
+  async revert(layoutId: string, revisionId: string): Promise<SavedLayout | undefined> {
+    const layout = await this.adapter.get(layoutId);
+    const revision = (await this.adapter.listRevisions(layoutId)).find(entry => entry.id === revisionId);
+    if (!layout || !revision) return undefined;
+    const date = new Date(revision.createdAt).toLocaleString();
+    return this.save(layout.name, revision.metadata, layoutId, `Reverted to the revision of ${date}`);
+  }
+
+  /**
+   * Add the layout of a .json file to the library
+   * @param text - Content of the file
+   * @param fileName - Name of the file, used when the document has no title
+   * @returns The saved layout
+   * @throws LayoutImportError or UnsupportedSchemaVersionError when the file holds no layout this engine can open
+   */
+  async import(text: string, fileName?: string): Promise<SavedLayout> {
+    const metadata = parseLayoutFile(text);
+    const name = metadata.metadata?.title || fileName?.replace(/\.json$/i, '') || 'Imported layout';
+    return this.save(name, metadata, undefined, fileName ? `Imported from ${fileName}` : 'Imported');
+  }
+
+  /**
+   * Turn a layout into a .json file, which import reads back
+   */
+  export(layout: SavedLayout): { fileName: string; content: string } {
+    return { fileName: getLayoutFileName(layout.name), content: JSON.stringify(layout.metadata, null, 2) };
+  }
+
+  /**
+   * Subscribe to changes of the library made through this service
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: LibraryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Put a layout back as it was before a failed save, removing it when it is new
+   * Failing to do so is only logged; the error of the save is what reaches the user
+   */
+  private async restore(id: string, previous: SavedLayout | undefined): Promise<void> {
+    try {
+      if (previous) await this.adapter.save(previous);
+      else await this.adapter.remove(id);
+    } catch (error) {
+      console.error(`[LayoutLibraryService] Cannot undo the failed save of layout ${id}:`, error);
+    }
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim() || 'Untitled layout';
+  }
+}
+
+// Export singleton instance
+export const layoutLibraryService = new LayoutLibraryService(new LocalLayoutStorage());
+export default layoutLibraryService;
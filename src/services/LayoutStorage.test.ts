@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RestLayoutStorage } from './LayoutStorage';
+import { HttpError } from '@/lib/engine/errors';
+
+/** Answer every request with the status */
+const respond = (status: number) =>
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(status === 200 ? '{"id":"a","name":"Sales","metadata":{}}' : 'Error', { status })));
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null });
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('RestLayoutStorage.get', () => {
+  it('returns the layout the backend has', async () => {
+    respond(200);
+    expect(await new RestLayoutStorage().get('a')).toMatchObject({ id: 'a', name: 'Sales' });
+  });
+
+  it('returns undefined for layouts the backend does not have', async () => {
+    respond(404);
+    expect(await new RestLayoutStorage().get('a')).toBeUndefined();
+  });
+
+  it('passes on other errors with their status', async () => {
+    respond(500);
+    await expect(new RestLayoutStorage().get('a')).rejects.toThrow(HttpError);
+    await expect(new RestLayoutStorage().get('a')).rejects.toMatchObject({ status: 500, url: '/api/layout-library/a' });
+  });
+});
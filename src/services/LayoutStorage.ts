@@ -0,0 +1,176 @@
+/**
+ * LayoutStorage - Where the layout library keeps its layouts and their history
+ * The library works with any adapter; localStorage keeps layouts in this browser,
+ * REST shares them with everyone using the same backend
+ */
+
+import { dataService } from './DataService';
+import { HttpError } from '@/lib/engine/errors';
+import type { LayoutMetadata } from '@/lib/engine/types';
+
+export interface SavedLayout {
+  id: string;
+  name: string;
+  metadata: LayoutMetadata;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RevisionAuthor {
+  id: string;
+  name: string;
+}
+
+/**
+ * A version of a layout, as it was saved
+ */
+export interface LayoutRevision {
+  id: string;
+  layoutId: string;
+  metadata: LayoutMetadata;
+  /** Who saved it; undefined when nobody was signed in */
+  author?: RevisionAuthor;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  /** What the save did, e.g. "Imported from sales.json" */
+  message?: string;
+}
+
+export interface LayoutStorageAdapter {
+  /** Every saved layout, in no particular order */
+  list(): Promise<SavedLayout[]>;
+  get(id: string): Promise<SavedLayout | undefined>;
+  /** Create the layout, or replace the one with the same id */
+  save(layout: SavedLayout): Promise<SavedLayout>;
+  /** Remove the layout and its revisions */
+  remove(id: string): Promise<void>;
+  /** Every revision of a layout, in no particular order */
+  listRevisions(layoutId: string): Promise<LayoutRevision[]>;
+  /** Revisions are only ever added */
+  addRevision(revision: LayoutRevision): Promise<LayoutRevision>;
+}
+
+const STORAGE_KEY = 'layoutLibrary';
+
+const isSavedLayout = (value: unknown): value is SavedLayout =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as SavedLayout).id === 'string' && typeof (value as SavedLayout).name === 'string' &&
+  typeof (value as SavedLayout).metadata === 'object';
+
+const isRevision = (value: unknown): value is LayoutRevision =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as LayoutRevision).id === 'string' && typeof (value as LayoutRevision).layoutId === 'string' &&
+  typeof (value as LayoutRevision).metadata === 'object' && typeof (value as LayoutRevision).createdAt === 'number';
+
+/**
+ * Keeps layouts in this browser's localStorage, all under one key, and the
+ * revisions of each layout under a key of their own
+ */
+export class LocalLayoutStorage implements LayoutStorageAdapter {
+  constructor(private readonly key: string = STORAGE_KEY) {}
+
+  async list(): Promise<SavedLayout[]> {
+    return this.read();
+  }
+
+  async get(id: string): Promise<SavedLayout | undefined> {
+    return this.read().find(layout => layout.id === id);
+  }
+
+  async save(layout: SavedLayout): Promise<SavedLayout> {
+    const layouts = this.read();
+    const index = layouts.findIndex(existing => existing.id === layout.id);
+    if (index === -1) layouts.push(layout);
+    else layouts[index] = layout;
+    this.write(layouts);
+    return layout;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.write(this.read().filter(layout => layout.id !== id));
+    localStorage.removeItem(this.getRevisionsKey(id));
+  }
+
+  async listRevisions(layoutId: string): Promise<LayoutRevision[]> {
+    return this.readList(this.getRevisionsKey(layoutId), isRevision);
+  }
+
+  async addRevision(revision: LayoutRevision): Promise<LayoutRevision> {
+    const key = this.getRevisionsKey(revision.layoutId);
+    localStorage.setItem(key, JSON.stringify([...this.readList(key, isRevision), revision]));
+    return revision;
+  }
+
+  private read(): SavedLayout[] {
+    return this.readList(this.key, isSavedLayout);
+  }
+
+  private readList<T>(key: string, isValid: (value: unknown) => value is T): T[] {
+    try {
+      const data = localStorage.getItem(key);
+      const items: unknown = data ? JSON.parse(data) : [];
+      return Array.isArray(items) ? items.filter(isValid) : [];
+    } catch (error) {
+      console.warn('[LocalLayoutStorage] Cannot read the saved layouts:', error);
+      return [];
+    }
+  }
+
+  /** Unlike a cache, a full storage loses the user's work, so the error reaches them */
+  private write(layouts: SavedLayout[]): void {
+    localStorage.setItem(this.key, JSON.stringify(layouts));
+  }
+
+  private getRevisionsKey(layoutId: string): string {
+    return `${this.key}:revisions:${layoutId}`;
+  }
+}
+
+/**
+ * Keeps layouts on the backend, as a REST collection:
+ * GET {baseUrl}, GET/PUT/DELETE {baseUrl}/{id}, GET/POST {baseUrl}/{id}/revisions
+ * Deleting a layout is expected to delete its revisions
+ */
+export class RestLayoutStorage implements LayoutStorageAdapter {
+  constructor(private readonly baseUrl: string = '/api/layout-library') {}
+
+  async list(): Promise<SavedLayout[]> {
+    const layouts = await dataService.fetchData<unknown>(this.baseUrl, false);
+    return Array.isArray(layouts) ? layouts.filter(isSavedLayout) : [];
+  }
+
+  async get(id: string): Promise<SavedLayout | undefined> {
+    try {
+      const layout = await dataService.fetchData<unknown>(this.getUrl(id), false);
+      return isSavedLayout(layout) ? layout : undefined;
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async save(layout: SavedLayout): Promise<SavedLayout> {
+    const saved = await dataService.request<unknown>(this.getUrl(layout.id), { method: 'PUT', body: layout });
+    // Backends may answer without a body
+    return isSavedLayout(saved) ? saved : layout;
+  }
+
+  async remove(id: string): Promise<void> {
+    await dataService.request(this.getUrl(id), { method: 'DELETE' });
+  }
+
+  async listRevisions(layoutId: string): Promise<LayoutRevision[]> {
+    const revisions = await dataService.fetchData<unknown>(`${this.getUrl(layoutId)}/revisions`, false);
+    return Array.isArray(revisions) ? revisions.filter(isRevision) : [];
+  }
+
+  async addRevision(revision: LayoutRevision): Promise<LayoutRevision> {
+    const saved = await dataService.request<unknown>(`${this.getUrl(revision.layoutId)}/revisions`, { method: 'POST', body: revision });
+    return isRevision(saved) ? saved : revision;
+  }
+
+  private getUrl(id: string): string {
+    return `${this.baseUrl.replace(/\/$/, '')}/${encodeURIComponent(id)}`;
+  }
+}
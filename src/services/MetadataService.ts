@@ -0,0 +1,168 @@
+/**
+ * MetadataService - Loads layout documents from the backend
+ * Documents are validated before use; the last valid version of each is kept in
+ * localStorage, so a layout still renders when the backend cannot be reached
+ */
+
+import { dataService } from './DataService';
+import type { LayoutMetadata } from '@/lib/engine/types';
+import type { SchemaResolver } from '@/lib/engine/registry';
+import type { DocumentResolver } from '@/lib/engine/documents';
+import { validateMetadata } from '@/lib/engine/schema';
+import { composeMetadata } from '@/lib/engine/compose';
+import { migrateDocuments, migrateMetadata } from '@/lib/engine/migrations';
+import { MetadataValidationError } from '@/lib/engine/errors';
+
+/**
+ * Where to load a document from: any URL, or the name of a layout stored on the backend
+ */
+export type MetadataSource = { url: string } | { name: string };
+
+/**
+ * 'remote' when the document was just fetched, 'cache' for the last valid version
+ * fetched earlier, 'bundled' for the fallback shipped with the app
+ */
+export type MetadataOrigin = 'remote' | 'cache' | 'bundled';
+
+export interface MetadataLoadOptions {
+  /** Document to render when neither the backend nor the cache has a valid one */
+  fallback?: LayoutMetadata;
+  /** Documents the loaded one may extend or reference */
+  documents?: DocumentResolver;
+  /** Component types and prop schemas to validate against */
+  resolver?: SchemaResolver;
+}
+
+export interface MetadataLoadResult {
+  metadata: LayoutMetadata;
+  origin: MetadataOrigin;
+  /** When the document was fetched, for cached documents */
+  savedAt?: number;
+  /** Why the remote document was not used, when it was not */
+  error?: Error;
+}
+
+interface CachedMetadata {
+  metadata: LayoutMetadata;
+  savedAt: number;
+}
+
+const LAYOUTS_URL = '/api/layouts';
+const CACHE_PREFIX = 'layoutMetadata:';
+
+/**
+ * Read a cache entry, or undefined when it is not what store() writes
+ */
+const parseCachedMetadata = (data: string): CachedMetadata | undefined => {
+  try {
+    const value: unknown = JSON.parse(data);
+    if (typeof value !== 'object' || value === null) return undefined;
+    const { metadata, savedAt } = value as Partial<CachedMetadata>;
+    const valid = typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata) && Number.isFinite(savedAt);
+    return valid ? value as CachedMetadata : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+class MetadataService {
+  /**
+   * Load a document, falling back to the cached and then the bundled version
+   * @param source - URL or layout name
+   * @param options - Fallback document, and what to validate against
+   * @returns The document and where it came from
+   * @throws The fetch or validation error when there is nothing to fall back to
+   */
+  async load(source: MetadataSource, options: MetadataLoadOptions = {}): Promise<MetadataLoadResult> {
+    const url = this.getUrl(source);
+
+    try {
+      const metadata = await dataService.fetchData<LayoutMetadata>(url, false);
+      this.validate(metadata, options);
+      this.store(url, metadata);
+      return { metadata, origin: 'remote' };
+    } catch (error) {
+      const reason = error instanceof Error ? error : new Error(String(error));
+      console.warn(`[MetadataService] Cannot use the document from ${url}: ${reason.message}`);
+
+      const cached = this.getCached(source);
+      if (cached) {
+        return { metadata: cached.metadata, origin: 'cache', savedAt: cached.savedAt, error: reason };
+      }
+      if (options.fallback) {
+        return { metadata: options.fallback, origin: 'bundled', error: reason };
+      }
+      throw reason;
+    }
+  }
+
+  /**
+   * Read the last valid version of a document
+   * Entries that are not what store() writes, e.g. edited by hand or left by an older
+   * version of the app, are dropped
+   * @param source - URL or layout name
+   * @returns The cached document, or undefined when there is none
+   */
+  getCached(source: MetadataSource): CachedMetadata | undefined {
+    const key = CACHE_PREFIX + this.getUrl(source);
+    let data: string | null;
+    try {
+      data = localStorage.getItem(key);
+    } catch {
+      return undefined;
+    }
+    if (!data) return undefined;
+
+    const cached = parseCachedMetadata(data);
+    if (!cached) {
+      console.warn(`[MetadataService] Dropping malformed cache entry ${key}`);
+      localStorage.removeItem(key);
+    }
+    return cached;
+  }
+
+  /**
+   * Forget cached documents
+   * @param source - Document to forget; every document when omitted
+   */
+  clearCache(source?: MetadataSource): void {
+    if (source) {
+      localStorage.removeItem(CACHE_PREFIX + this.getUrl(source));
+      return;
+    }
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(CACHE_PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  private getUrl(source: MetadataSource): string {
+    return 'url' in source ? source.url : `${LAYOUTS_URL}/${encodeURIComponent(source.name)}`;
+  }
+
+  /**
+   * Check a document the way the engine will render it: upgraded and composed
+   * @throws UnsupportedSchemaVersionError or MetadataValidationError
+   */
+  private validate(metadata: unknown, { documents, resolver }: MetadataLoadOptions): void {
+    const migrated = migrateMetadata(metadata).metadata;
+    const composition = composeMetadata(migrated, documents && migrateDocuments(documents));
+    const issues = [...composition.issues, ...validateMetadata(composition.metadata, resolver).issues];
+    if (issues.length > 0) {
+      throw new MetadataValidationError(issues);
+    }
+  }
+
+  private store(url: string, metadata: LayoutMetadata): void {
+    try {
+      const cached: CachedMetadata = { metadata, savedAt: Date.now() };
+      localStorage.setItem(CACHE_PREFIX + url, JSON.stringify(cached));
+    } catch (error) {
+      // A full storage only costs the offline fallback
+      console.warn('[MetadataService] Cannot cache document:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const metadataService = new MetadataService();
+export default metadataService;